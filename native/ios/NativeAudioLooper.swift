@@ -6,6 +6,12 @@ import AVFoundation
 public class NativeAudioLooper: CAPPlugin {
     private let impl = NativeAudioLooperImpl()
 
+    override public func load() {
+        impl.onEnded = { [weak self] in
+            self?.notifyListeners("ended", data: [:])
+        }
+    }
+
     @objc func loadAudio(_ call: CAPPluginCall) {
         if let path = call.getString("path") {
             impl.loadAudioFromPath(path: path) { result in
@@ -36,6 +42,11 @@ public class NativeAudioLooper: CAPPlugin {
         call.resolve()
     }
 
+    @objc func setLooping(_ call: CAPPluginCall) {
+        impl.setLooping(enabled: call.getBool("enabled") ?? false)
+        call.resolve()
+    }
+
     @objc func setRate(_ call: CAPPluginCall) {
         let rate = call.getDouble("rate") ?? 1.0
         impl.setRate(rate: rate)
@@ -48,6 +59,19 @@ public class NativeAudioLooper: CAPPlugin {
         call.resolve()
     }
 
+    @objc func setVolume(_ call: CAPPluginCall) {
+        let volume = call.getDouble("volume") ?? 1.0
+        impl.setVolume(volume: volume)
+        call.resolve()
+    }
+
+    @objc func setCrossfade(_ call: CAPPluginCall) {
+        let durationMs = call.getDouble("durationMs") ?? 8.0
+        let curve = call.getString("curve") ?? "equal-power"
+        impl.setCrossfade(durationMs: durationMs, curve: curve)
+        call.resolve()
+    }
+
     @objc func play(_ call: CAPPluginCall) {
         impl.play()
         call.resolve()
@@ -84,7 +108,14 @@ class NativeAudioLooperImpl {
     private var loopStartSec: Double = 0.0
     private var loopEndSec: Double = 0.0
     private var crossfadeMs: Double = 8.0
+    private var crossfadeCurve: String = "equal-power" // "none" | "linear" | "equal-power"
     private var isPlaying: Bool = false
+    // Off, a pass through the region ends playback instead of scheduling the next one
+    private var isLooping: Bool = false
+    // Bumped whenever the schedule is replaced, so completions of segments that were cut short are ignored
+    private var scheduleGeneration = 0
+
+    var onEnded: (() -> Void)?
 
     private let schedulingQueue = DispatchQueue(label: "ThreadLoopScheduling")
 
@@ -144,8 +175,26 @@ class NativeAudioLooperImpl {
         if isPlaying { scheduleNextCycle(interrupt: true) }
     }
 
+    func setLooping(enabled: Bool) {
+        isLooping = enabled
+    }
+
     func setRate(rate: Double) { timePitch.rate = max(0.5, min(2.0, Float(rate))) }
     func setPitch(semitones: Double) { timePitch.pitch = Float(semitones * 100.0) }
+    func setVolume(volume: Double) { player.volume = max(0.0, min(1.0, Float(volume))) }
+
+    func setCrossfade(durationMs: Double, curve: String) {
+        crossfadeMs = max(0.0, min(100.0, durationMs))
+        crossfadeCurve = curve
+        if isPlaying { scheduleNextCycle(interrupt: true) }
+    }
+
+    private func crossfadeFrameCount(loopFrames: AVAudioFramePosition) -> AVAudioFrameCount {
+        // Without looping nothing follows the region's end, so there is nothing to blend into
+        if !isLooping || crossfadeCurve == "none" || crossfadeMs <= 0 { return 0 }
+        let frames = max(1, Int((crossfadeMs / 1000.0) * sampleRate))
+        return AVAudioFrameCount(min(frames, Int(loopFrames / 2)))
+    }
 
     func play() {
         if isPlaying { return }
@@ -179,18 +228,28 @@ class NativeAudioLooperImpl {
         let totalFrames = endFrame - startFrame
         if totalFrames <= 0 { return }
 
-        let cfFrames = AVAudioFrameCount(max(1, Int((crossfadeMs / 1000.0) * sampleRate)))
+        let cfFrames = crossfadeFrameCount(loopFrames: totalFrames)
         let mainFrames = AVAudioFrameCount(max(0, Int(totalFrames) - Int(cfFrames)))
 
         schedulingQueue.async {
-            if interrupt { self.player.stop() }
+            if interrupt {
+                self.scheduleGeneration += 1
+                self.player.stop()
+            }
+            let generation = self.scheduleGeneration
+            if cfFrames == 0 {
+                // Hard cut at the seam: chain the next cycle straight off the segment
+                try? self.player.scheduleSegment(file, startingFrame: startFrame, frameCount: mainFrames, at: nil, completionHandler: { [weak self] in
+                    self?.cycleFinished(generation: generation)
+                })
+                return
+            }
             if mainFrames > 0 {
                 try? self.player.scheduleSegment(file, startingFrame: startFrame, frameCount: mainFrames, at: nil, completionHandler: nil)
             }
             if let xfade = self.makeCrossfadeBuffer(file: file, startFrame: startFrame, endFrame: endFrame, crossfadeFrames: cfFrames) {
                 self.player.scheduleBuffer(xfade, at: nil, options: [], completionHandler: { [weak self] in
-                    guard let self = self else { return }
-                    if self.isPlaying { self.scheduleNextCycle(interrupt: false) }
+                    self?.cycleFinished(generation: generation)
                 })
             }
         }
@@ -201,11 +260,26 @@ class NativeAudioLooperImpl {
         let t = min(max(timeSec, loopStartSec), loopEndSec)
         let startFrame = AVAudioFramePosition(t * sampleRate)
         let endFrame = AVAudioFramePosition(loopEndSec * sampleRate)
-        let cfFrames = AVAudioFrameCount(max(1, Int((crossfadeMs / 1000.0) * sampleRate)))
+        let loopStartFrame = AVAudioFramePosition(loopStartSec * sampleRate)
+        let cfFrames = crossfadeFrameCount(loopFrames: endFrame - loopStartFrame)
         let framesToEnd = AVAudioFrameCount(max(0, Int(endFrame - startFrame) - Int(cfFrames)))
 
         schedulingQueue.async {
+            self.scheduleGeneration += 1
             self.player.stop()
+            let generation = self.scheduleGeneration
+            if cfFrames == 0 {
+                if framesToEnd > 0 {
+                    try? self.player.scheduleSegment(file, startingFrame: startFrame, frameCount: framesToEnd, at: nil, completionHandler: { [weak self] in
+                        self?.cycleFinished(generation: generation)
+                    })
+                } else {
+                    self.scheduleNextCycle(interrupt: false)
+                }
+                self.player.play()
+                self.isPlaying = true
+                return
+            }
             if framesToEnd > 0 {
                 try? self.player.scheduleSegment(file, startingFrame: startFrame, frameCount: framesToEnd, at: nil, completionHandler: nil)
             }
@@ -214,7 +288,7 @@ class NativeAudioLooperImpl {
                                                     endFrame: AVAudioFramePosition(self.loopEndSec * self.sampleRate),
                                                     crossfadeFrames: cfFrames) {
                 self.player.scheduleBuffer(xfade, at: nil, options: [], completionHandler: { [weak self] in
-                    self?.scheduleNextCycle(interrupt: false)
+                    self?.cycleFinished(generation: generation)
                 })
             }
             self.player.play()
@@ -222,6 +296,21 @@ class NativeAudioLooperImpl {
         }
     }
 
+    // A pass through the region finished: go round again, or stop at its end when not looping
+    private func cycleFinished(generation: Int) {
+        schedulingQueue.async {
+            guard generation == self.scheduleGeneration, self.isPlaying else { return }
+            if self.isLooping {
+                self.scheduleNextCycle(interrupt: false)
+                return
+            }
+            self.isPlaying = false
+            self.scheduleGeneration += 1
+            self.player.stop()
+            self.onEnded?()
+        }
+    }
+
     private func makeCrossfadeBuffer(file: AVAudioFile,
                                      startFrame: AVAudioFramePosition,
                                      endFrame: AVAudioFramePosition,
@@ -244,9 +333,16 @@ class NativeAudioLooperImpl {
             let outPtr = buf.floatChannelData![ch]
             for i in 0..<cf {
                 let x = Float(i) / Float(max(cf-1, 1))
-                let a = cosf(Float.pi * 0.5 * x)
-                let b = sinf(Float.pi * 0.5 * x)
-                outPtr[i] = endPtr[i] * a * a + startPtr[i] * b * b
+                let a: Float
+                let b: Float
+                if crossfadeCurve == "linear" {
+                    a = 1.0 - x
+                    b = x
+                } else {
+                    a = cosf(Float.pi * 0.5 * x)
+                    b = sinf(Float.pi * 0.5 * x)
+                }
+                outPtr[i] = endPtr[i] * a + startPtr[i] * b
             }
         }
         return buf
@@ -0,0 +1,30 @@
+// Forwards the first input channel to the main thread in blocks, each tagged with the context
+// frame of its first sample, so recorded sound can be lined up with sounds scheduled on the same clock.
+const BLOCK_FRAMES = 4096;
+
+class CaptureProcessor extends AudioWorkletProcessor {
+  constructor() {
+    super();
+    this.block = new Float32Array(BLOCK_FRAMES);
+    this.blockFrame = 0;
+    this.filled = 0;
+  }
+
+  process(inputs) {
+    const channel = inputs[0] && inputs[0][0];
+    if (!channel) return true;
+
+    for (let i = 0; i < channel.length; i++) {
+      if (this.filled === 0) this.blockFrame = currentFrame + i;
+      this.block[this.filled++] = channel[i];
+      if (this.filled === BLOCK_FRAMES) {
+        this.port.postMessage({ frame: this.blockFrame, samples: this.block }, [this.block.buffer]);
+        this.block = new Float32Array(BLOCK_FRAMES);
+        this.filled = 0;
+      }
+    }
+    return true;
+  }
+}
+
+registerProcessor('capture-processor', CaptureProcessor);
@@ -0,0 +1,145 @@
+// Center-channel isolation for the practice filters. Short-time spectra of the two sides are
+// compared bin by bin: what is alike in level and phase on both sides (the center of the mix)
+// is kept, anything leaning to one side is removed. Output lags input by FFT_SIZE frames,
+// which PracticeFilterChain reports as latency.
+const FFT_SIZE = 2048;
+const HOP_SIZE = 512;
+// Higher values leave less of the slightly off-center parts behind
+const MASK_SHARPNESS = 2;
+// Share of the previous frame's mask kept, which calms the warbling of fast-changing masks
+const MASK_SMOOTHING = 0.5;
+// Hann analysis and synthesis windows at 75% overlap sum to 1.5
+const OVERLAP_GAIN = 1.5;
+
+const hann = new Float32Array(FFT_SIZE);
+for (let i = 0; i < FFT_SIZE; i++) {
+  hann[i] = 0.5 - 0.5 * Math.cos((2 * Math.PI * i) / FFT_SIZE);
+}
+
+const cosTable = new Float32Array(FFT_SIZE / 2);
+const sinTable = new Float32Array(FFT_SIZE / 2);
+for (let i = 0; i < FFT_SIZE / 2; i++) {
+  cosTable[i] = Math.cos((2 * Math.PI * i) / FFT_SIZE);
+  sinTable[i] = -Math.sin((2 * Math.PI * i) / FFT_SIZE);
+}
+
+// In-place radix-2 FFT; the inverse is taken by conjugating around it
+function fft(real, imag) {
+  const size = real.length;
+  for (let i = 1, j = 0; i < size; i++) {
+    let bit = size >> 1;
+    for (; j & bit; bit >>= 1) j ^= bit;
+    j ^= bit;
+    if (i < j) {
+      let swap = real[i]; real[i] = real[j]; real[j] = swap;
+      swap = imag[i]; imag[i] = imag[j]; imag[j] = swap;
+    }
+  }
+  for (let length = 2; length <= size; length <<= 1) {
+    const half = length >> 1;
+    const step = size / length;
+    for (let start = 0; start < size; start += length) {
+      for (let k = 0; k < half; k++) {
+        const wr = cosTable[k * step];
+        const wi = sinTable[k * step];
+        const a = start + k;
+        const b = a + half;
+        const tr = real[b] * wr - imag[b] * wi;
+        const ti = real[b] * wi + imag[b] * wr;
+        real[b] = real[a] - tr;
+        imag[b] = imag[a] - ti;
+        real[a] += tr;
+        imag[a] += ti;
+      }
+    }
+  }
+}
+
+class CenterProcessor extends AudioWorkletProcessor {
+  constructor() {
+    super();
+    this.inputLeft = new Float32Array(FFT_SIZE);
+    this.inputRight = new Float32Array(FFT_SIZE);
+    this.output = new Float32Array(HOP_SIZE);
+    this.accumulator = new Float32Array(FFT_SIZE);
+    // Next slot to fill; starts one hop from the end so the first frame runs after a hop of input
+    this.position = FFT_SIZE - HOP_SIZE;
+
+    this.leftReal = new Float32Array(FFT_SIZE);
+    this.leftImag = new Float32Array(FFT_SIZE);
+    this.rightReal = new Float32Array(FFT_SIZE);
+    this.rightImag = new Float32Array(FFT_SIZE);
+    this.mask = new Float32Array(FFT_SIZE / 2 + 1);
+  }
+
+  process(inputs, outputs) {
+    const input = inputs[0];
+    const output = outputs[0];
+    if (!output.length) return true;
+
+    const left = input && input[0];
+    // A mono source is its own center
+    const right = input && (input[1] || input[0]);
+    const frames = output[0].length;
+
+    for (let i = 0; i < frames; i++) {
+      this.inputLeft[this.position] = left ? left[i] : 0;
+      this.inputRight[this.position] = right ? right[i] : 0;
+      const sample = this.output[this.position - (FFT_SIZE - HOP_SIZE)];
+      for (let channel = 0; channel < output.length; channel++) output[channel][i] = sample;
+
+      if (++this.position === FFT_SIZE) {
+        this.processFrame();
+        this.position = FFT_SIZE - HOP_SIZE;
+      }
+    }
+    return true;
+  }
+
+  processFrame() {
+    const { leftReal, leftImag, rightReal, rightImag, mask } = this;
+    for (let i = 0; i < FFT_SIZE; i++) {
+      leftReal[i] = this.inputLeft[i] * hann[i];
+      rightReal[i] = this.inputRight[i] * hann[i];
+    }
+    leftImag.fill(0);
+    rightImag.fill(0);
+    fft(leftReal, leftImag);
+    fft(rightReal, rightImag);
+
+    // Mid spectrum scaled by how alike the sides are: 1 for identical bins, 0 for one-sided or opposed ones
+    for (let bin = 0; bin <= FFT_SIZE / 2; bin++) {
+      const cross = leftReal[bin] * rightReal[bin] + leftImag[bin] * rightImag[bin];
+      const power = leftReal[bin] * leftReal[bin] + leftImag[bin] * leftImag[bin] +
+        rightReal[bin] * rightReal[bin] + rightImag[bin] * rightImag[bin];
+      const similarity = power > 1e-12 ? Math.max(0, (2 * cross) / power) : 0;
+      mask[bin] = MASK_SMOOTHING * mask[bin] + (1 - MASK_SMOOTHING) * Math.pow(similarity, MASK_SHARPNESS);
+
+      const gain = 0.5 * mask[bin];
+      const real = (leftReal[bin] + rightReal[bin]) * gain;
+      // Conjugated here for the inverse transform
+      const imag = -(leftImag[bin] + rightImag[bin]) * gain;
+      leftReal[bin] = real;
+      leftImag[bin] = imag;
+      if (bin > 0 && bin < FFT_SIZE / 2) {
+        leftReal[FFT_SIZE - bin] = real;
+        leftImag[FFT_SIZE - bin] = -imag;
+      }
+    }
+    fft(leftReal, leftImag);
+
+    const scale = 1 / (FFT_SIZE * OVERLAP_GAIN);
+    for (let i = 0; i < FFT_SIZE; i++) {
+      this.accumulator[i] += leftReal[i] * hann[i] * scale;
+    }
+
+    // The first hop is complete and goes out; everything else moves up a hop
+    this.output.set(this.accumulator.subarray(0, HOP_SIZE));
+    this.accumulator.copyWithin(0, HOP_SIZE);
+    this.accumulator.fill(0, FFT_SIZE - HOP_SIZE);
+    this.inputLeft.copyWithin(0, HOP_SIZE);
+    this.inputRight.copyWithin(0, HOP_SIZE);
+  }
+}
+
+registerProcessor('center-processor', CenterProcessor);
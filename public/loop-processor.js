@@ -13,14 +13,36 @@ class LoopProcessor extends AudioWorkletProcessor {
     this.loopStartSample = 0;
     this.loopEndSample = 0;
     this.currentSample = 0;
+    // Whether the playhead got to where it is by wrapping, which is when a post-roll seam blends
+    this.hasWrapped = false;
     
-    // Audio buffer
-    this.audioBuffer = null;
+    // Audio buffer, one Float32Array per channel
+    this.channelData = null;
     this.bufferChannels = 0;
     this.bufferLength = 0;
     
     // Crossfade parameters for smooth transitions
-    this.crossfadeSamples = Math.floor(this.sampleRate * 0.001); // 1ms crossfade
+    this.crossfadeSamples = Math.floor(this.sampleRate * 0.008); // 8ms, matching the iOS engine
+    this.crossfadeCurve = 'equal-power'; // 'none' | 'linear' | 'equal-power'
+    
+    // Time-stretch (WSOLA) parameters - tempo changes without pitch changes
+    this.preservePitch = true;
+    this.pitchRatio = 1.0; // Independent transpose, 2^(cents / 1200)
+    this.grainSize = Math.round(this.sampleRate * 0.04 / 2) * 2; // ~40ms analysis grain
+    this.hopSize = this.grainSize / 2; // 50% overlap, Hann windows sum to unity
+    this.seekTolerance = Math.round(this.sampleRate * 0.01); // ±10ms similarity search
+    this.correlationStride = 16; // Decimate similarity search for CPU headroom
+    this.correlationReference = new Float32Array(Math.ceil(this.hopSize / this.correlationStride));
+    this.window = new Float32Array(this.grainSize);
+    for (let i = 0; i < this.grainSize; i++) {
+      this.window[i] = 0.5 - 0.5 * Math.cos((2 * Math.PI * i) / this.grainSize);
+    }
+    this.olaBuffers = [];
+    this.grainOutput = [];
+    this.grainReadIndex = this.hopSize;
+    this.previousGrainStart = 0;
+    this.hasPreviousGrain = false;
+    this.isStretching = false;
     
     // Message handling
     this.port.onmessage = (event) => {
@@ -31,7 +53,7 @@ class LoopProcessor extends AudioWorkletProcessor {
   handleMessage(data) {
     switch (data.type) {
       case 'SET_BUFFER':
-        this.setBuffer(data.buffer);
+        this.setBuffer(data.channels, data.length);
         break;
       case 'PLAY':
         this.play();
@@ -51,6 +73,16 @@ class LoopProcessor extends AudioWorkletProcessor {
       case 'SET_PLAYBACK_RATE':
         this.playbackRate = data.rate;
         break;
+      case 'SET_TIME_STRETCH':
+        this.preservePitch = data.enabled;
+        break;
+      case 'SET_PITCH':
+        this.pitchRatio = data.ratio;
+        break;
+      case 'SET_CROSSFADE':
+        this.crossfadeSamples = Math.max(0, Math.floor(data.samples));
+        this.crossfadeCurve = data.curve;
+        break;
       case 'SET_VOLUME':
         this.volume = data.volume;
         break;
@@ -64,10 +96,19 @@ class LoopProcessor extends AudioWorkletProcessor {
     }
   }
   
-  setBuffer(bufferData) {
-    this.audioBuffer = bufferData;
-    this.bufferChannels = bufferData.numberOfChannels;
-    this.bufferLength = bufferData.length;
+  setBuffer(channels, length) {
+    this.channelData = channels;
+    this.bufferChannels = channels.length;
+    this.bufferLength = length;
+    
+    // Allocate per-channel overlap-add state for the time-stretcher
+    this.olaBuffers = [];
+    this.grainOutput = [];
+    for (let channel = 0; channel < this.bufferChannels; channel++) {
+      this.olaBuffers.push(new Float32Array(this.grainSize));
+      this.grainOutput.push(new Float32Array(this.hopSize));
+    }
+    this.resetStretcher();
   }
   
   play() {
@@ -80,56 +121,92 @@ class LoopProcessor extends AudioWorkletProcessor {
   
   seek(sample) {
     this.currentSample = Math.max(0, Math.min(sample, this.bufferLength - 1));
+    this.hasWrapped = false;
+    this.resetStretcher();
   }
   
   setLoopPoints(startSample, endSample) {
     this.loopStartSample = startSample;
     this.loopEndSample = endSample;
+    this.hasWrapped = false;
+  }
+  
+  // Crossfade length actually usable for the current loop (never more than half of it)
+  getActiveCrossfadeSamples() {
+    if (!this.isLooping || this.crossfadeCurve === 'none') return 0;
+    const loopLength = this.loopEndSample - this.loopStartSample;
+    if (loopLength <= 0) return 0;
+    return Math.min(this.crossfadeSamples, Math.floor(loopLength / 2));
   }
   
-  applyCrossfade(outputSample, loopSample, fadePosition) {
-    // Linear crossfade between current position and loop start
-    const fadeRatio = fadePosition / this.crossfadeSamples;
-    return outputSample * (1 - fadeRatio) + loopSample * fadeRatio;
+  applyCrossfade(outputSample, loopSample, fadeRatio) {
+    if (this.crossfadeCurve === 'linear') {
+      return outputSample * (1 - fadeRatio) + loopSample * fadeRatio;
+    }
+    // Equal-power: constant perceived loudness through the seam
+    const angle = fadeRatio * Math.PI * 0.5;
+    return outputSample * Math.cos(angle) + loopSample * Math.sin(angle);
   }
   
   process(inputs, outputs, parameters) {
     const output = outputs[0];
     
-    if (!this.isPlaying || !this.audioBuffer || !output.length) {
+    if (!this.isPlaying || !this.channelData || !output.length) {
       return true;
     }
     
     const outputLength = output[0].length;
     const channelCount = Math.min(output.length, this.bufferChannels);
     
+    // Switching between direct and stretched playback restarts the grain stream
+    const shouldStretch = this.shouldTimeStretch();
+    if (shouldStretch !== this.isStretching) {
+      this.isStretching = shouldStretch;
+      this.resetStretcher();
+    }
+    
     for (let sample = 0; sample < outputLength; sample++) {
       // Use integer sample position for loop detection to avoid floating point errors
       const currentSampleInt = Math.floor(this.currentSample);
-      const fraction = this.currentSample - currentSampleInt;
       
       // Check for loop boundary exactly at the sample level
       if (this.isLooping && this.loopEndSample > 0 && currentSampleInt >= this.loopEndSample) {
         // Immediate loop transition - jump to loop start
         const loopLength = this.loopEndSample - this.loopStartSample;
         this.currentSample = this.loopStartSample + (this.currentSample - this.loopEndSample) % loopLength;
+        this.hasWrapped = true;
         
-        // Recalculate position after loop jump
-        const newSampleInt = Math.floor(this.currentSample);
-        const newFraction = this.currentSample - newSampleInt;
-        
-        // Output from new loop position
+        // Debug logging for precise tracking
+        console.log(`Loop: ${currentSampleInt} -> ${Math.floor(this.currentSample)} (exact: ${this.currentSample.toFixed(2)})`);
+        this.port.postMessage({ type: 'LOOPED' });
+      } else if (!this.isLooping && currentSampleInt >= this.bufferLength) {
+        // Reached the end of the media without looping: stop and rewind like a media element
+        this.isPlaying = false;
+        this.currentSample = 0;
+        this.hasWrapped = false;
+        this.resetStretcher();
+        this.port.postMessage({ type: 'ENDED' });
         for (let channel = 0; channel < channelCount; channel++) {
-          const channelSample = this.getInterpolatedSample(newSampleInt, newFraction, channel);
-          output[channel][sample] = channelSample * this.volume;
+          output[channel].fill(0, sample);
         }
-        
-        // Debug logging for precise tracking
-        console.log(`Loop: ${currentSampleInt} -> ${newSampleInt} (exact: ${this.currentSample.toFixed(2)})`);
-      } else if (currentSampleInt < this.bufferLength) {
+        break;
+      }
+      
+      const playheadInt = Math.floor(this.currentSample);
+      
+      if (this.isStretching) {
+        // Time-stretched playback: emit overlap-added grains, synthesizing a new one each hop
+        if (this.grainReadIndex >= this.hopSize) {
+          this.synthesizeGrain();
+        }
+        for (let channel = 0; channel < channelCount; channel++) {
+          output[channel][sample] = this.grainOutput[channel][this.grainReadIndex] * this.volume;
+        }
+        this.grainReadIndex++;
+      } else if (playheadInt < this.bufferLength) {
         // Normal playback
         for (let channel = 0; channel < channelCount; channel++) {
-          const channelSample = this.getInterpolatedSample(currentSampleInt, fraction, channel);
+          const channelSample = this.readSample(this.currentSample, channel);
           output[channel][sample] = channelSample * this.volume;
         }
       } else {
@@ -143,25 +220,171 @@ class LoopProcessor extends AudioWorkletProcessor {
       this.currentSample += this.playbackRate;
     }
     
+    // Mono media plays on every output channel
+    for (let channel = channelCount; channel < output.length; channel++) {
+      output[channel].set(output[0]);
+    }
+    
     // Send periodic time updates
     if (Math.floor(this.currentSample / this.sampleRate * 10) !== 
         Math.floor((this.currentSample - outputLength * this.playbackRate) / this.sampleRate * 10)) {
       this.port.postMessage({
         type: 'TIME_UPDATE',
         sample: this.currentSample,
-        time: this.currentSample / this.sampleRate
+        time: this.currentSample / this.sampleRate,
+        // Context time at which currentSample is rendered, i.e. the end of this block
+        contextTime: currentTime + outputLength / sampleRate
       });
     }
     
     return true;
   }
   
+  shouldTimeStretch() {
+    return (this.preservePitch && this.playbackRate !== 1) || this.pitchRatio !== 1;
+  }
+  
+  // Grains are resampled by this ratio: the transpose, plus the rate itself when pitch follows speed
+  getGrainReadRatio() {
+    return this.preservePitch ? this.pitchRatio : this.pitchRatio * this.playbackRate;
+  }
+  
+  resetStretcher() {
+    for (let channel = 0; channel < this.olaBuffers.length; channel++) {
+      this.olaBuffers[channel].fill(0);
+      this.grainOutput[channel].fill(0);
+    }
+    this.grainReadIndex = this.hopSize;
+    this.hasPreviousGrain = false;
+  }
+  
+  // Map a source position onto the loop region so grains can read across the B→A seam
+  resolvePosition(position) {
+    if (this.isLooping && this.loopEndSample > this.loopStartSample && position >= this.loopEndSample) {
+      const loopLength = this.loopEndSample - this.loopStartSample;
+      return this.loopStartSample + (position - this.loopEndSample) % loopLength;
+    }
+    return position;
+  }
+  
+  // Which side of the loop the seam blend takes its second voice from: the audio leading up to A,
+  // else the audio running on past B. A loop spanning the whole file has neither and cuts at its edges.
+  getSeamRoll(crossfade) {
+    if (this.loopStartSample >= crossfade) return 'pre';
+    if (this.loopEndSample + crossfade <= this.bufferLength) return 'post';
+    return null;
+  }
+  
+  readSample(position, channel) {
+    const resolved = this.resolvePosition(position);
+    const value = this.readInterpolated(resolved, channel);
+    
+    const crossfade = this.getActiveCrossfadeSamples();
+    if (crossfade === 0) return value;
+    const loopLength = this.loopEndSample - this.loopStartSample;
+    const roll = this.getSeamRoll(crossfade);
+    
+    if (roll === 'pre') {
+      // Approaching B: blend in the audio leading up to A so the jump lands mid-fade
+      const fadeStart = this.loopEndSample - crossfade;
+      if (resolved >= fadeStart && resolved < this.loopEndSample) {
+        const incoming = this.readInterpolated(resolved - loopLength, channel);
+        return this.applyCrossfade(value, incoming, (resolved - fadeStart) / crossfade);
+      }
+    } else if (roll === 'post' && resolved >= this.loopStartSample && resolved < this.loopStartSample + crossfade) {
+      // Just after a wrap: let the audio past B ring out under A's fade-in. Reads that wrapped
+      // themselves count too, as a grain may span the seam before the playhead does.
+      if (this.hasWrapped || resolved !== position) {
+        const outgoing = this.readInterpolated(resolved + loopLength, channel);
+        return this.applyCrossfade(outgoing, value, (resolved - this.loopStartSample) / crossfade);
+      }
+    }
+    
+    return value;
+  }
+  
+  readInterpolated(position, channel) {
+    const sampleIndex = Math.floor(position);
+    if (sampleIndex < 0) return 0;
+    return this.getInterpolatedSample(sampleIndex, position - sampleIndex, channel);
+  }
+  
+  // WSOLA: pick the grain start near the playhead whose waveform best continues the previous grain
+  findBestGrainStart(nominalStart, continuationStart, readRatio) {
+    const stride = this.correlationStride * readRatio;
+    const reference = this.correlationReference;
+    for (let i = 0; i < reference.length; i++) {
+      reference[i] = this.readSample(continuationStart + i * stride, 0);
+    }
+    
+    // Coarse search over the tolerance window, then refine around the best match
+    let bestOffset = this.searchOffsets(nominalStart, -this.seekTolerance, this.seekTolerance, 4, 0, stride);
+    bestOffset = this.searchOffsets(nominalStart, bestOffset - 3, bestOffset + 3, 1, bestOffset, stride);
+    return nominalStart + bestOffset;
+  }
+  
+  searchOffsets(nominalStart, fromOffset, toOffset, step, fallbackOffset, stride) {
+    const reference = this.correlationReference;
+    let bestOffset = fallbackOffset;
+    let bestScore = -Infinity;
+    
+    for (let offset = fromOffset; offset <= toOffset; offset += step) {
+      const candidate = nominalStart + offset;
+      if (candidate < 0) continue;
+      
+      let correlation = 0;
+      let energy = 1e-9;
+      for (let i = 0; i < reference.length; i++) {
+        const value = this.readSample(candidate + i * stride, 0);
+        correlation += value * reference[i];
+        energy += value * value;
+      }
+      
+      const score = correlation / Math.sqrt(energy);
+      if (score > bestScore) {
+        bestScore = score;
+        bestOffset = offset;
+      }
+    }
+    
+    return bestOffset;
+  }
+  
+  synthesizeGrain() {
+    const grainSize = this.grainSize;
+    const hopSize = this.hopSize;
+    const readRatio = this.getGrainReadRatio();
+    
+    let grainStart = this.currentSample;
+    if (this.hasPreviousGrain) {
+      const continuationStart = this.resolvePosition(this.previousGrainStart + hopSize * readRatio);
+      grainStart = this.findBestGrainStart(grainStart, continuationStart, readRatio);
+    }
+    
+    for (let channel = 0; channel < this.olaBuffers.length; channel++) {
+      const ola = this.olaBuffers[channel];
+      
+      // Drop the half already emitted and overlap-add the new windowed grain
+      ola.copyWithin(0, hopSize);
+      ola.fill(0, grainSize - hopSize);
+      for (let i = 0; i < grainSize; i++) {
+        ola[i] += this.readSample(grainStart + i * readRatio, channel) * this.window[i];
+      }
+      
+      this.grainOutput[channel].set(ola.subarray(0, hopSize));
+    }
+    
+    this.previousGrainStart = grainStart;
+    this.hasPreviousGrain = true;
+    this.grainReadIndex = 0;
+  }
+  
   getInterpolatedSample(sampleIndex, fraction, channel) {
-    if (!this.audioBuffer || sampleIndex >= this.bufferLength - 1) {
+    if (!this.channelData || sampleIndex >= this.bufferLength - 1) {
       return 0;
     }
     
-    const channelData = this.audioBuffer.getChannelData(channel);
+    const channelData = this.channelData[channel];
     const sample1 = channelData[sampleIndex] || 0;
     const sample2 = channelData[sampleIndex + 1] || 0;
     
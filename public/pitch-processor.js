@@ -0,0 +1,109 @@
+// YIN pitch detector for the tuner. Analyses the first input channel at half the context rate and
+// posts a reading every HOP_FRAMES analysis frames. The window holds over two periods of a bass's
+// low E (41 Hz) even at 48 kHz, so minFrequency can go down to about 35 Hz.
+const WINDOW_FRAMES = 2048;
+const HOP_FRAMES = 512;
+// Cumulative-mean-normalized difference below which a dip counts as a period
+const YIN_THRESHOLD = 0.15;
+// Quieter input than this RMS is reported as silence
+const SILENCE_LEVEL = 0.005;
+
+class PitchProcessor extends AudioWorkletProcessor {
+  constructor(options) {
+    super();
+    const settings = (options && options.processorOptions) || {};
+    this.decimation = sampleRate >= 44100 ? 2 : 1;
+    this.rate = sampleRate / this.decimation;
+    const minFrequency = settings.minFrequency || 50;
+    const maxFrequency = settings.maxFrequency || 1400;
+    this.tauMax = Math.min(Math.floor(this.rate / minFrequency), WINDOW_FRAMES / 2);
+    this.tauMin = Math.max(2, Math.floor(this.rate / maxFrequency));
+
+    // Incoming frames go round a ring; each analysis unrolls it oldest first
+    this.ring = new Float32Array(WINDOW_FRAMES);
+    this.writeIndex = 0;
+    this.filled = 0;
+    this.window = new Float32Array(WINDOW_FRAMES);
+    this.sinceReading = 0;
+    this.pending = 0;
+    this.pendingCount = 0;
+    this.difference = new Float32Array(this.tauMax + 1);
+  }
+
+  process(inputs) {
+    const channel = inputs[0] && inputs[0][0];
+    if (!channel) return true;
+
+    for (let i = 0; i < channel.length; i++) {
+      // Averaging pairs both decimates and takes the edge off anything above the new Nyquist
+      this.pending += channel[i];
+      if (++this.pendingCount < this.decimation) continue;
+      const sample = this.pending / this.decimation;
+      this.pending = 0;
+      this.pendingCount = 0;
+
+      this.ring[this.writeIndex] = sample;
+      this.writeIndex = (this.writeIndex + 1) % WINDOW_FRAMES;
+      if (this.filled < WINDOW_FRAMES) this.filled++;
+      if (this.filled === WINDOW_FRAMES && ++this.sinceReading >= HOP_FRAMES) {
+        this.sinceReading = 0;
+        this.port.postMessage(this.detect());
+      }
+    }
+    return true;
+  }
+
+  detect() {
+    const window = this.window;
+    window.set(this.ring.subarray(this.writeIndex));
+    window.set(this.ring.subarray(0, this.writeIndex), WINDOW_FRAMES - this.writeIndex);
+    let energy = 0;
+    for (let i = 0; i < WINDOW_FRAMES; i++) energy += window[i] * window[i];
+    const level = Math.sqrt(energy / WINDOW_FRAMES);
+    if (level < SILENCE_LEVEL) return { frequency: null, clarity: 0, level };
+
+    // Squared difference of the window with itself shifted by tau, over a fixed span
+    const span = WINDOW_FRAMES - this.tauMax;
+    const difference = this.difference;
+    for (let tau = 1; tau <= this.tauMax; tau++) {
+      let sum = 0;
+      for (let j = 0; j < span; j++) {
+        const delta = window[j] - window[j + tau];
+        sum += delta * delta;
+      }
+      difference[tau] = sum;
+    }
+
+    // Cumulative mean normalization, in place
+    difference[0] = 1;
+    let running = 0;
+    for (let tau = 1; tau <= this.tauMax; tau++) {
+      running += difference[tau];
+      difference[tau] = running > 0 ? (difference[tau] * tau) / running : 1;
+    }
+
+    let period = -1;
+    for (let tau = this.tauMin; tau <= this.tauMax; tau++) {
+      if (difference[tau] < YIN_THRESHOLD) {
+        while (tau + 1 <= this.tauMax && difference[tau + 1] < difference[tau]) tau++;
+        period = tau;
+        break;
+      }
+    }
+    if (period < 0) return { frequency: null, clarity: 0, level };
+
+    // Parabolic interpolation between neighbouring lags
+    let refined = period;
+    if (period > 1 && period < this.tauMax) {
+      const before = difference[period - 1];
+      const at = difference[period];
+      const after = difference[period + 1];
+      const curvature = before - 2 * at + after;
+      if (curvature > 0) refined = period + (before - after) / (2 * curvature);
+    }
+
+    return { frequency: this.rate / refined, clarity: 1 - difference[period], level };
+  }
+}
+
+registerProcessor('pitch-processor', PitchProcessor);
@@ -1,8 +1,21 @@
+import { useMemo } from "react";
+import { format } from "date-fns";
 import { Card } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
-import { Calendar, Clock, Target, TrendingUp, Award, Play } from "lucide-react";
+import { Calendar, Clock, Target, TrendingUp, Award, Play, Repeat } from "lucide-react";
+import { computePracticeStats, formatPracticeDuration, loadSessions } from "@/lib/practiceSessions";
+
+const RECENT_SESSION_COUNT = 10;
 
 export default function JourneyInterface() {
+  // Read once per visit; sessions are written by the player when it closes a session
+  const sessions = useMemo(() => loadSessions(), []);
+  const practice = useMemo(() => computePracticeStats(sessions), [sessions]);
+  const recentSessions = useMemo(
+    () => [...sessions].sort((a, b) => b.startedAt - a.startedAt).slice(0, RECENT_SESSION_COUNT),
+    [sessions]
+  );
+
   const stats = [
     { label: "Success Rate", value: "94%", color: "text-green-400" },
     { label: "Learning Speed", value: "2.3x", color: "text-blue-400" },
@@ -14,28 +27,28 @@ export default function JourneyInterface() {
     { 
       icon: Clock, 
       label: "Total Practice", 
-      value: "0s", 
-      subtitle: "Across 0 sessions",
+      value: formatPracticeDuration(practice.totalSeconds), 
+      subtitle: `Across ${practice.sessionCount} session${practice.sessionCount === 1 ? "" : "s"}`,
       color: "bg-yellow-500/20 text-yellow-400"
     },
     { 
       icon: Target, 
       label: "Current Streak", 
-      value: "0 days", 
-      subtitle: "Longest: 0 days",
+      value: `${practice.currentStreak} day${practice.currentStreak === 1 ? "" : "s"}`, 
+      subtitle: `Longest: ${practice.longestStreak} day${practice.longestStreak === 1 ? "" : "s"}`,
       color: "bg-red-500/20 text-red-400"
     },
     { 
       icon: TrendingUp, 
       label: "Avg Speed", 
-      value: "100%", 
+      value: `${Math.round(practice.averageSpeed)}%`, 
       subtitle: "Practice tempo",
       color: "bg-green-500/20 text-green-400"
     },
     { 
       icon: Award, 
       label: "Avg Session", 
-      value: "0s", 
+      value: formatPracticeDuration(practice.averageSessionSeconds), 
       subtitle: "Per practice session",
       color: "bg-blue-500/20 text-blue-400"
     },
@@ -112,15 +125,46 @@ export default function JourneyInterface() {
             <h3 className="text-lg font-semibold">Recent Practice Sessions</h3>
           </div>
           
-          <div className="flex flex-col items-center justify-center py-12 text-center">
-            <div className="w-16 h-16 bg-primary/20 rounded-full flex items-center justify-center mb-4">
-              <Play className="w-8 h-8 text-primary" />
+          {recentSessions.length > 0 ? (
+            <div className="divide-y divide-border">
+              {recentSessions.map((session) => (
+                <div key={session.id} className="flex items-center justify-between gap-4 py-3">
+                  <div className="min-w-0">
+                    <div className="font-medium truncate">{session.trackTitle || "Untitled media"}</div>
+                    <div className="text-xs text-muted-foreground">
+                      {format(session.startedAt, "MMM d, HH:mm")}
+                      {session.loopsUsed.length > 0 && ` · ${session.loopsUsed.map(loop => loop.name || `${loop.start.toFixed(1)}–${loop.end.toFixed(1)}s`).join(", ")}`}
+                    </div>
+                  </div>
+                  <div className="flex items-center gap-4 text-sm text-muted-foreground shrink-0">
+                    <div className="flex items-center gap-1">
+                      <Clock className="w-4 h-4" />
+                      <span>{formatPracticeDuration(session.practiceSeconds)}</span>
+                    </div>
+                    <div className="flex items-center gap-1">
+                      <Repeat className="w-4 h-4" />
+                      <span>{session.loopCount}</span>
+                    </div>
+                    <div className="text-primary font-medium tabular-nums">
+                      {session.maxSpeed > session.startSpeed
+                        ? `${session.startSpeed}% → ${session.maxSpeed}%`
+                        : `${session.startSpeed}%`}
+                    </div>
+                  </div>
+                </div>
+              ))}
             </div>
-            <h4 className="text-lg font-semibold mb-2">No practice sessions yet</h4>
-            <p className="text-muted-foreground mb-4">
-              Start practicing to see your progress here
-            </p>
-          </div>
+          ) : (
+            <div className="flex flex-col items-center justify-center py-12 text-center">
+              <div className="w-16 h-16 bg-primary/20 rounded-full flex items-center justify-center mb-4">
+                <Play className="w-8 h-8 text-primary" />
+              </div>
+              <h4 className="text-lg font-semibold mb-2">No practice sessions yet</h4>
+              <p className="text-muted-foreground mb-4">
+                Start practicing to see your progress here
+              </p>
+            </div>
+          )}
         </Card>
 
         {/* Practice Insights */}
@@ -136,7 +180,11 @@ export default function JourneyInterface() {
               <div>
                 <h4 className="font-medium mb-2">Keep Your Streak Going!</h4>
                 <p className="text-sm text-muted-foreground">
-                  Start a practice session today to begin your streak.
+                  {practice.practicedToday
+                    ? `You've practiced today — ${practice.currentStreak} day${practice.currentStreak === 1 ? "" : "s"} in a row.`
+                    : practice.currentStreak > 0
+                      ? `Practice today to extend your ${practice.currentStreak}-day streak.`
+                      : "Start a practice session today to begin your streak."}
                 </p>
               </div>
             </div>
@@ -1,10 +1,11 @@
-import { useState } from "react";
-import { Search, Filter, Star, Clock, Users, Play } from "lucide-react";
+import { useState, useEffect, useMemo, useRef } from "react";
+import { Search, Filter, Star, Clock, Users, Play, Trash2, Upload, Music, Video } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Card } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { cn } from "@/lib/utils";
+import { deleteTrack, importTrack, listTracks, subscribeToLibrary, type LibraryTrack } from "@/lib/mediaLibrary";
 
 interface Lesson {
   id: string;
@@ -54,10 +55,113 @@ const mockLessons: Lesson[] = [
   }
 ];
 
-export default function LibraryInterface() {
+type TrackSort = "recent" | "added" | "title" | "duration";
+
+const trackSorts: { value: TrackSort; label: string }[] = [
+  { value: "recent", label: "Recent" },
+  { value: "added", label: "Added" },
+  { value: "title", label: "Title" },
+  { value: "duration", label: "Length" }
+];
+
+const formatDuration = (seconds: number) => {
+  const mins = Math.floor(seconds / 60);
+  const secs = Math.floor(seconds % 60);
+  return `${mins}:${secs.toString().padStart(2, '0')}`;
+};
+
+// Stored peak overview, drawn as mirrored bars
+const TrackPeaks = ({ peaks, progress }: { peaks: number[]; progress: number }) => {
+  if (peaks.length === 0) {
+    return <div className="h-10 rounded bg-muted/40" />;
+  }
+
+  const path = peaks
+    .map((peak, index) => {
+      const height = Math.max(0.5, peak * 18);
+      return `M${index + 0.5} ${20 - height}V${20 + height}`;
+    })
+    .join("");
+  const progressX = progress * peaks.length;
+
+  return (
+    <svg viewBox={`0 0 ${peaks.length} 40`} preserveAspectRatio="none" className="w-full h-10">
+      <path d={path} stroke="hsl(43, 96%, 65%)" strokeOpacity={0.5} strokeWidth={0.8} />
+      {progress > 0 && (
+        <line x1={progressX} x2={progressX} y1={0} y2={40} stroke="hsl(43, 96%, 75%)" strokeWidth={1} vectorEffect="non-scaling-stroke" />
+      )}
+    </svg>
+  );
+};
+
+interface LibraryInterfaceProps {
+  currentTrackId?: string | null;
+  onOpenTrack?: (trackId: string) => void;
+}
+
+export default function LibraryInterface({ currentTrackId = null, onOpenTrack }: LibraryInterfaceProps) {
   const [activeTab, setActiveTab] = useState<"lessons" | "my-videos">("lessons");
   const [searchQuery, setSearchQuery] = useState("");
   const [selectedLevel, setSelectedLevel] = useState<string>("all");
+  const [tracks, setTracks] = useState<LibraryTrack[]>([]);
+  const [trackSort, setTrackSort] = useState<TrackSort>("recent");
+  const [isImporting, setIsImporting] = useState(false);
+  const importInputRef = useRef<HTMLInputElement>(null);
+
+  // Keep the list in sync with imports and position saves from the player
+  useEffect(() => {
+    let cancelled = false;
+    const refresh = () => {
+      listTracks()
+        .then(result => { if (!cancelled) setTracks(result); })
+        .catch(error => console.error('Failed to load the media library:', error));
+    };
+
+    refresh();
+    const unsubscribe = subscribeToLibrary(refresh);
+    return () => {
+      cancelled = true;
+      unsubscribe();
+    };
+  }, []);
+
+  const filteredTracks = useMemo(() => {
+    const query = searchQuery.toLowerCase();
+    const matches = tracks.filter(track =>
+      track.title.toLowerCase().includes(query) || track.fileName.toLowerCase().includes(query)
+    );
+
+    return matches.sort((a, b) => {
+      switch (trackSort) {
+        case "added": return b.addedAt - a.addedAt;
+        case "title": return a.title.localeCompare(b.title);
+        case "duration": return a.duration - b.duration;
+        default: return b.lastOpenedAt - a.lastOpenedAt;
+      }
+    });
+  }, [tracks, searchQuery, trackSort]);
+
+  const handleImport = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(event.target.files ?? []);
+    event.target.value = "";
+    if (files.length === 0) return;
+
+    setIsImporting(true);
+    try {
+      for (const file of files) {
+        await importTrack(file);
+      }
+    } catch (error) {
+      console.error('Failed to import media:', error);
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  const handleDeleteTrack = (track: LibraryTrack) => {
+    if (!window.confirm(`Remove "${track.title}" from this device?`)) return;
+    deleteTrack(track.id).catch(error => console.error('Failed to delete track:', error));
+  };
 
   const filteredLessons = mockLessons.filter(lesson => {
     const matchesSearch = lesson.title.toLowerCase().includes(searchQuery.toLowerCase()) ||
@@ -109,7 +213,7 @@ export default function LibraryInterface() {
               activeTab === "my-videos" && "bg-gradient-primary shadow-glow"
             )}
           >
-            My Videos (0)
+            My Media ({tracks.length})
           </Button>
         </div>
 
@@ -117,7 +221,7 @@ export default function LibraryInterface() {
         <div className="relative">
           <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-muted-foreground" size={20} />
           <Input
-            placeholder="Search lessons..."
+            placeholder={activeTab === "lessons" ? "Search lessons..." : "Search your media..."}
             value={searchQuery}
             onChange={(e) => setSearchQuery(e.target.value)}
             className="pl-10"
@@ -213,23 +317,119 @@ export default function LibraryInterface() {
               ))}
             </div>
           </div>
+        ) : tracks.length > 0 ? (
+          <div className="space-y-4">
+            {/* Sort and Import */}
+            <div className="flex items-center gap-2 overflow-x-auto pb-2">
+              {trackSorts.map(({ value, label }) => (
+                <Button
+                  key={value}
+                  variant={trackSort === value ? "default" : "outline"}
+                  size="sm"
+                  onClick={() => setTrackSort(value)}
+                  className={cn(
+                    "whitespace-nowrap",
+                    trackSort === value && "bg-primary/20 border-primary"
+                  )}
+                >
+                  {label}
+                </Button>
+              ))}
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => importInputRef.current?.click()}
+                disabled={isImporting}
+                className="ml-auto whitespace-nowrap"
+              >
+                <Upload size={16} className="mr-2" />
+                {isImporting ? "Importing..." : "Import"}
+              </Button>
+            </div>
+
+            {/* Tracks Grid */}
+            <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
+              {filteredTracks.map((track) => (
+                <Card
+                  key={track.id}
+                  className={cn(
+                    "bg-gradient-card border-border shadow-card p-4",
+                    track.id === currentTrackId && "border-primary"
+                  )}
+                >
+                  <div className="flex items-start gap-3 mb-3">
+                    <div className="w-10 h-10 bg-primary/20 rounded-lg flex items-center justify-center shrink-0">
+                      {track.isVideo ? <Video className="w-5 h-5 text-primary" /> : <Music className="w-5 h-5 text-primary" />}
+                    </div>
+                    <div className="min-w-0 flex-1">
+                      <h3 className="font-semibold truncate">{track.title}</h3>
+                      <p className="text-muted-foreground text-xs truncate">{track.fileName}</p>
+                    </div>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      onClick={() => handleDeleteTrack(track)}
+                      className="w-8 h-8 shrink-0 text-muted-foreground"
+                      aria-label={`Delete ${track.title}`}
+                    >
+                      <Trash2 size={16} />
+                    </Button>
+                  </div>
+
+                  <TrackPeaks
+                    peaks={track.peaks}
+                    progress={track.duration > 0 ? track.lastPosition / track.duration : 0}
+                  />
+
+                  <div className="flex items-center justify-between mt-3">
+                    <div className="flex items-center gap-1 text-sm text-muted-foreground">
+                      <Clock className="w-4 h-4" />
+                      <span>
+                        {track.duration > 0 ? formatDuration(track.duration) : "--:--"}
+                        {track.lastPosition > 0 && ` · at ${formatDuration(track.lastPosition)}`}
+                      </span>
+                    </div>
+                    <Button
+                      className="bg-gradient-primary transition-all duration-300 active:brightness-95"
+                      size="sm"
+                      onClick={() => onOpenTrack?.(track.id)}
+                    >
+                      <Play className="w-4 h-4 mr-2" />
+                      {track.lastPosition > 0 ? "Resume" : "Practice"}
+                    </Button>
+                  </div>
+                </Card>
+              ))}
+            </div>
+
+            {filteredTracks.length === 0 && (
+              <p className="text-center text-muted-foreground py-8">No media matches "{searchQuery}"</p>
+            )}
+          </div>
         ) : (
           <Card className="h-full bg-gradient-card border-border shadow-card">
             <div className="flex flex-col items-center justify-center h-full text-center p-8">
               <div className="w-20 h-20 bg-primary/20 rounded-full flex items-center justify-center mb-6">
                 <Play className="w-10 h-10 text-primary" />
               </div>
-              <h2 className="text-2xl font-bold mb-4">No practice sessions yet</h2>
+              <h2 className="text-2xl font-bold mb-4">No media yet</h2>
               <p className="text-muted-foreground mb-6 max-w-md">
-                Start practicing to see your progress here
+                Import audio or video to keep it on this device, ready to practice with
               </p>
-              <Button className="bg-gradient-primary transition-all duration-300 active:brightness-95">
-                Start Your First Session
+              <Button
+                className="bg-gradient-primary transition-all duration-300 active:brightness-95"
+                onClick={() => importInputRef.current?.click()}
+                disabled={isImporting}
+              >
+                <Upload className="w-4 h-4 mr-2" />
+                {isImporting ? "Importing..." : "Import Media"}
               </Button>
             </div>
           </Card>
         )}
       </div>
+
+      <input ref={importInputRef} type="file" accept="video/*,audio/*" multiple onChange={handleImport} className="hidden" />
     </div>
   );
 }
\ No newline at end of file
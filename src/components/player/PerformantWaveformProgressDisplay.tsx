@@ -1,10 +1,28 @@
 import React, { useRef, useEffect, useCallback, useState, useMemo } from 'react';
 import { cn } from '@/lib/utils';
 import { useWaveformWorker } from '@/hooks/useWaveformWorker';
+import { useSpectrogramWorker } from '@/hooks/useSpectrogramWorker';
 import { useAnimationFrame } from '@/hooks/useAnimationFrame';
+import { drawBeatGrid, type BeatGrid } from '@/lib/beatGrid';
+import { drawLoopRegions, type LoopRegion } from '@/lib/loopRegions';
+import { getWaveformPeaks, type WaveformPeaks } from '@/lib/peakPyramid';
+import { bandFrequency, PITCH_CLASS_NAMES, renderSpectrogramImage, type Spectrogram, type WaveformViewMode } from '@/lib/spectrogram';
+import {
+  centerTimelineOn,
+  clampTimelineView,
+  followTimeline,
+  isFullTimelineView,
+  panTimeline,
+  revealOnTimeline,
+  zoomTimelineAt,
+  type TimelineView
+} from '@/lib/timelineView';
 
 interface WaveformProgressDisplayProps {
   audioBuffer: AudioBuffer | null;
+  beatGrid?: BeatGrid | null;
+  loopRegions?: LoopRegion[];
+  activeLoopRegionId?: string | null;
   currentTime: number;
   duration: number;
   loopStart: number | null;
@@ -12,12 +30,72 @@ interface WaveformProgressDisplayProps {
   onSeek: (time: number) => void;
   onMarkerDrag: (type: 'start' | 'end', time: number) => void;
   className?: string;
+  /** Fits the view to the loop region and keeps it fitted while the loop moves */
   zoomToLoop?: boolean;
-  isZoomed?: boolean;
+  /** Called with false when the user zooms or scrolls away from the fitted loop */
+  onZoomToLoopChange?: (enabled: boolean) => void;
+  /** What the upper part shows: the mixed waveform, each channel, a spectrogram or pitch classes */
+  viewMode?: WaveformViewMode;
 }
 
+type DragType = 'playhead' | 'start' | 'end' | 'minimap';
+
+interface PinchGesture {
+  startView: TimelineView;
+  startDistance: number;
+  // Time under the fingers' midpoint when the pinch began, kept under the midpoint as it moves
+  focusTime: number;
+}
+
+const WHEEL_ZOOM_SENSITIVITY = 0.002;
+const SPECTROGRAM_LABEL_FREQUENCIES = [100, 1000, 10000];
+
+// Bars from each slice's min to max, centered in the band from top to top + height
+const drawPeaks = (ctx: CanvasRenderingContext2D, peaks: WaveformPeaks, width: number, top: number, height: number) => {
+  const barWidth = width / peaks.max.length;
+  const centerY = top + height / 2;
+  const scale = (height / 2) * 0.8;
+
+  // Batch drawing operations for better performance
+  ctx.beginPath();
+  for (let index = 0; index < peaks.max.length; index++) {
+    const peakTop = centerY - peaks.max[index] * scale;
+    const peakBottom = centerY - peaks.min[index] * scale;
+    ctx.rect(index * barWidth, peakTop, Math.max(0.5, barWidth - 1), Math.max(1, peakBottom - peakTop));
+  }
+  ctx.fill();
+};
+
+// Small labels along the left edge of the spectral views
+const drawSpectralLabels = (ctx: CanvasRenderingContext2D, spectrogram: Spectrogram, mode: 'spectrogram' | 'chroma', height: number) => {
+  ctx.font = '9px sans-serif';
+  ctx.textAlign = 'left';
+  ctx.textBaseline = 'middle';
+  ctx.fillStyle = 'hsla(0, 0%, 100%, 0.75)';
+
+  if (mode === 'chroma') {
+    const rowHeight = height / 12;
+    PITCH_CLASS_NAMES.forEach((name, pitchClass) => {
+      ctx.fillText(name, 3, height - (pitchClass + 0.5) * rowHeight);
+    });
+    return;
+  }
+
+  const logRange = Math.log(spectrogram.maxFrequency / spectrogram.minFrequency);
+  SPECTROGRAM_LABEL_FREQUENCIES.forEach(frequency => {
+    if (frequency < bandFrequency(spectrogram, 0) || frequency > spectrogram.maxFrequency) return;
+    const y = height - (Math.log(frequency / spectrogram.minFrequency) / logRange) * height;
+    ctx.fillRect(0, y, 4, 1);
+    ctx.fillText(frequency >= 1000 ? `${frequency / 1000}k` : `${frequency}`, 6, y);
+  });
+};
+
+// Waveform timeline with pinch/ctrl+wheel zoom, horizontal scrolling, playhead follow and a minimap
 const PerformantWaveformProgressDisplay = React.memo<WaveformProgressDisplayProps>(({
   audioBuffer,
+  beatGrid = null,
+  loopRegions = [],
+  activeLoopRegionId = null,
   currentTime,
   duration,
   loopStart,
@@ -26,90 +104,112 @@ const PerformantWaveformProgressDisplay = React.memo<WaveformProgressDisplayProp
   onMarkerDrag,
   className,
   zoomToLoop = false,
-  isZoomed = false
+  onZoomToLoopChange,
+  viewMode = 'waveform'
 }) => {
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const containerRef = useRef<HTMLDivElement>(null);
+  const pointersRef = useRef(new Map<number, { x: number; y: number }>());
+  const pinchRef = useRef<PinchGesture | null>(null);
   const [isDragging, setIsDragging] = useState(false);
-  const [dragType, setDragType] = useState<'playhead' | 'start' | 'end' | null>(null);
+  const [dragType, setDragType] = useState<DragType | null>(null);
   const [hoverTime, setHoverTime] = useState<number | null>(null);
   const [hoverX, setHoverX] = useState<number>(0);
-  const [waveformData, setWaveformData] = useState<number[]>([]);
-  const [isProcessing, setIsProcessing] = useState(false);
+  const [canvasWidth, setCanvasWidth] = useState(0);
+  // A zoomed or scrolled view; null shows the whole track
+  const [viewRange, setViewRange] = useState<TimelineView | null>(null);
+  const [isFollowing, setIsFollowing] = useState(true);
 
   const WAVEFORM_HEIGHT = 80;
   const PROGRESS_HEIGHT = 20;
-  const TOTAL_HEIGHT = WAVEFORM_HEIGHT + PROGRESS_HEIGHT;
-  const MARKER_HEIGHT = 16;
-
-  // Memoized canvas rendering settings
-  const canvasSettings = useMemo(() => ({
-    width: 800,
-    height: TOTAL_HEIGHT,
-    samples: 1000
-  }), []);
-
-  // Web Worker for waveform generation
-  const { generateWaveform } = useWaveformWorker({
-    onWaveformGenerated: useCallback((data: number[]) => {
-      setWaveformData(data);
-      setIsProcessing(false);
-    }, []),
-    onProgress: useCallback((progress: number) => {
-      // Optional: Show progress for large files
-      console.log(`Waveform processing: ${(progress * 100).toFixed(1)}%`);
-    }, []),
+  const MINIMAP_HEIGHT = 18;
+  const MINIMAP_Y = WAVEFORM_HEIGHT + PROGRESS_HEIGHT;
+  const TOTAL_HEIGHT = MINIMAP_Y + MINIMAP_HEIGHT;
+
+  // Peak pyramid built once per track in a Web Worker
+  const { pyramid, isProcessing } = useWaveformWorker(audioBuffer, {
     onError: useCallback((error: string) => {
       console.error('Waveform generation error:', error);
-      setWaveformData([]);
-      setIsProcessing(false);
     }, [])
   });
 
-  // Generate waveform data using Web Worker
-  useEffect(() => {
-    if (!audioBuffer) {
-      setWaveformData([]);
-      setIsProcessing(false);
-      return;
-    }
+  const spectralMode = viewMode === 'spectrogram' || viewMode === 'chroma' ? viewMode : null;
+  const { spectrogram, progress: spectrogramProgress } = useSpectrogramWorker(audioBuffer, spectralMode !== null, {
+    onError: useCallback((error: string) => {
+      console.error('Spectrogram generation error:', error);
+    }, [])
+  });
 
-    setIsProcessing(true);
-    let samples = canvasSettings.samples;
-    let startSample = 0;
-    let endSample = audioBuffer.length;
-    
-    // If zoomed to loop, extract only the loop region
-    if (zoomToLoop && loopStart !== null && loopEnd !== null && duration > 0) {
-      const sampleRate = audioBuffer.sampleRate;
-      startSample = Math.floor(loopStart * sampleRate);
-      endSample = Math.floor(loopEnd * sampleRate);
-      
-      // Adjust samples for the smaller region
-      const loopLength = endSample - startSample;
-      samples = Math.min(1000, Math.max(100, loopLength / 100));
+  // Each track opens showing all of it
+  useEffect(() => {
+    setViewRange(null);
+    setIsFollowing(true);
+  }, [audioBuffer]);
+
+  const fitsLoop = zoomToLoop && loopStart !== null && loopEnd !== null && loopEnd > loopStart;
+
+  // The visible slice of the track
+  const view = useMemo<TimelineView>(() => {
+    if (fitsLoop) return { start: loopStart!, duration: loopEnd! - loopStart! };
+    if (viewRange && duration > 0) return clampTimelineView(viewRange, duration);
+    return { start: 0, duration };
+  }, [fitsLoop, loopStart, loopEnd, viewRange, duration]);
+
+  const isZoomedIn = duration > 0 && !isFullTimelineView(view, duration);
+  const bins = Math.max(1, Math.floor(canvasWidth / 2));
+
+  // Served straight from the pyramid at any zoom; loop points only matter while fitted to the loop.
+  // One lane for the mixed waveform, one per channel in the stereo view.
+  const waveformLanes = useMemo(() => {
+    if (!pyramid || spectralMode) return null;
+    const startSample = Math.floor(view.start * pyramid.sampleRate);
+    const endSample = Math.floor((view.start + view.duration) * pyramid.sampleRate);
+    if (viewMode === 'stereo' && pyramid.channels.length > 1) {
+      return pyramid.channels.map((_, channel) => getWaveformPeaks(pyramid, startSample, endSample, bins, channel));
     }
-
-    const channelData = audioBuffer.getChannelData(0);
-    
-    // Use Web Worker for heavy processing
-    generateWaveform(
-      channelData,
-      samples,
-      startSample,
-      Math.min(endSample, channelData.length),
-      audioBuffer.sampleRate
-    );
-  }, [audioBuffer, zoomToLoop, loopStart, loopEnd, generateWaveform, canvasSettings.samples]);
+    return [getWaveformPeaks(pyramid, startSample, endSample, bins)];
+  }, [pyramid, spectralMode, viewMode, view.start, view.duration, bins]);
+
+  const spectralImage = useMemo(() => {
+    if (!spectrogram || !spectralMode) return null;
+    return renderSpectrogramImage(spectrogram, spectralMode, view.start, view.duration, canvasWidth);
+  }, [spectrogram, spectralMode, view.start, view.duration, canvasWidth]);
+
+  const minimapPeaks = useMemo(() => {
+    if (!pyramid) return null;
+    return getWaveformPeaks(pyramid, 0, pyramid.length, bins);
+  }, [pyramid, bins]);
+
+  // Moves the view at the user's request, leaving the fitted loop
+  const changeView = useCallback((next: TimelineView, options: { stopFollowing?: boolean } = {}) => {
+    if (!duration) return;
+    const clamped = clampTimelineView(next, duration);
+    setViewRange(isFullTimelineView(clamped, duration) ? null : clamped);
+    if (options.stopFollowing) setIsFollowing(false);
+    if (zoomToLoop) onZoomToLoopChange?.(false);
+  }, [duration, zoomToLoop, onZoomToLoopChange]);
+
+  const resetView = useCallback(() => {
+    setViewRange(null);
+    setIsFollowing(true);
+    if (zoomToLoop) onZoomToLoopChange?.(false);
+  }, [zoomToLoop, onZoomToLoopChange]);
+
+  // Page the view along with the playhead while following
+  useEffect(() => {
+    if (!isFollowing || fitsLoop || !viewRange || isDragging || !duration) return;
+    const next = followTimeline(viewRange, currentTime, duration);
+    if (next !== viewRange) setViewRange(next);
+  }, [currentTime, isFollowing, fitsLoop, viewRange, isDragging, duration]);
 
   // Memoized display calculations
   const displayMetrics = useMemo(() => {
-    const displayDuration = zoomToLoop && loopStart !== null && loopEnd !== null ? loopEnd - loopStart : duration;
-    const displayStartTime = zoomToLoop && loopStart !== null ? loopStart : 0;
-    const displayCurrentTime = zoomToLoop ? currentTime - displayStartTime : currentTime;
-    
+    const displayDuration = view.duration;
+    const displayStartTime = view.start;
+    const displayCurrentTime = currentTime - displayStartTime;
+
     return { displayDuration, displayStartTime, displayCurrentTime };
-  }, [currentTime, duration, loopStart, loopEnd, zoomToLoop]);
+  }, [currentTime, view]);
 
   // Optimized canvas rendering with dirty region updates
   const renderDisplay = useCallback(() => {
@@ -119,34 +219,57 @@ const PerformantWaveformProgressDisplay = React.memo<WaveformProgressDisplayProp
     const ctx = canvas.getContext('2d');
     if (!ctx) return;
 
-    const { width, height } = canvas;
-    const { displayDuration, displayCurrentTime } = displayMetrics;
-    
+    // The context is scaled for the pixel ratio, so draw in CSS pixels
+    const width = canvasWidth;
+    const { displayDuration, displayStartTime, displayCurrentTime } = displayMetrics;
+    const timeToX = (time: number) => ((time - displayStartTime) / displayDuration) * width;
+
     // Use willReadFrequently for better performance
     ctx.imageSmoothingEnabled = false;
-    
+
     // Clear only the necessary regions for better performance
-    ctx.clearRect(0, 0, width, height);
+    ctx.clearRect(0, 0, width, TOTAL_HEIGHT);
 
     // Draw waveform background
     ctx.fillStyle = 'hsl(240, 10%, 15%)';
     ctx.fillRect(0, 0, width, WAVEFORM_HEIGHT);
 
-    // Draw waveform bars (optimized with path batching)
-    if (waveformData.length > 0) {
-      const barWidth = width / waveformData.length;
-      const centerY = WAVEFORM_HEIGHT / 2;
+    // Spectral views fill the waveform area, with regions and beats drawn over them
+    if (spectralImage) {
+      ctx.imageSmoothingEnabled = spectralMode === 'spectrogram';
+      ctx.drawImage(spectralImage, 0, 0, width, WAVEFORM_HEIGHT);
+      ctx.imageSmoothingEnabled = false;
+    }
+
+    // Draw saved loop regions and the beat grid behind the waveform
+    const regionView = { startTime: displayStartTime, duration: displayDuration, width, height: WAVEFORM_HEIGHT };
+    drawLoopRegions(ctx, loopRegions, regionView, activeLoopRegionId);
+    if (beatGrid) {
+      drawBeatGrid(ctx, beatGrid, regionView);
+    }
 
+    // Draw waveform bars from each slice's min to max, channels stacked from the left one down
+    if (waveformLanes && waveformLanes[0].max.length > 0) {
+      const laneHeight = WAVEFORM_HEIGHT / waveformLanes.length;
       ctx.fillStyle = 'hsl(43, 96%, 65%)';
-      
-      // Batch drawing operations for better performance
-      ctx.beginPath();
-      waveformData.forEach((peak, index) => {
-        const x = index * barWidth;
-        const barHeight = peak * centerY * 0.8;
-        ctx.rect(x, centerY - barHeight / 2, barWidth - 1, barHeight);
-      });
-      ctx.fill();
+      waveformLanes.forEach((peaks, lane) => drawPeaks(ctx, peaks, width, lane * laneHeight, laneHeight));
+
+      if (waveformLanes.length > 1) {
+        ctx.fillStyle = 'hsla(0, 0%, 100%, 0.15)';
+        ctx.fillRect(0, laneHeight - 0.5, width, 1);
+        ctx.fillStyle = 'hsla(0, 0%, 100%, 0.75)';
+        ctx.font = '9px sans-serif';
+        ctx.textAlign = 'left';
+        ctx.textBaseline = 'top';
+        waveformLanes.forEach((_, lane) => {
+          const label = waveformLanes.length === 2 ? (lane === 0 ? 'L' : 'R') : `${lane + 1}`;
+          ctx.fillText(label, 3, lane * laneHeight + 2);
+        });
+      }
+    }
+
+    if (spectralImage && spectrogram && spectralMode) {
+      drawSpectralLabels(ctx, spectrogram, spectralMode, WAVEFORM_HEIGHT);
     }
 
     // Draw progress bar background (rounded)
@@ -154,7 +277,7 @@ const PerformantWaveformProgressDisplay = React.memo<WaveformProgressDisplayProp
     const progressCenterY = progressY + PROGRESS_HEIGHT / 2;
     const trackHeight = 8;
     const trackRadius = trackHeight / 2;
-    
+
     ctx.fillStyle = 'hsl(240, 10%, 20%)';
     ctx.beginPath();
     ctx.roundRect(0, progressCenterY - trackRadius, width, trackHeight, trackRadius);
@@ -169,45 +292,70 @@ const PerformantWaveformProgressDisplay = React.memo<WaveformProgressDisplayProp
       ctx.fill();
     }
 
-    // Draw loop region highlight (only in normal view)
-    if (!zoomToLoop && loopStart !== null && loopEnd !== null) {
-      const startX = (loopStart / duration) * width;
-      const endX = (loopEnd / duration) * width;
-      
-      ctx.fillStyle = 'hsl(43, 96%, 75%, 0.3)';
-      ctx.beginPath();
-      ctx.roundRect(startX, progressCenterY - trackRadius, endX - startX, trackHeight, trackRadius);
-      ctx.fill();
+    // Draw loop region highlight (not when fitted to the loop, where it is the whole bar)
+    if (!fitsLoop && loopStart !== null && loopEnd !== null) {
+      const startX = Math.max(0, timeToX(loopStart));
+      const endX = Math.min(width, timeToX(loopEnd));
+
+      if (endX > startX) {
+        ctx.fillStyle = 'hsl(43, 96%, 75%, 0.3)';
+        ctx.beginPath();
+        ctx.roundRect(startX, progressCenterY - trackRadius, endX - startX, trackHeight, trackRadius);
+        ctx.fill();
+      }
     }
 
-    // Draw loop markers with optimized drawing
+    // Draw loop markers that are in view
     if (loopStart !== null) {
-      const x = zoomToLoop ? 0 : (loopStart / duration) * width;
-      drawMarkerOptimized(ctx, x, progressY, 10, 'A', 'hsl(43, 96%, 75%)');
+      const x = timeToX(loopStart);
+      if (x >= -10 && x <= width + 10) drawMarkerOptimized(ctx, x, progressY, 10, 'A', 'hsl(43, 96%, 75%)');
     }
 
     if (loopEnd !== null) {
-      const x = zoomToLoop ? width : (loopEnd / duration) * width;
-      drawMarkerOptimized(ctx, x, progressY, 10, 'B', 'hsl(43, 100%, 70%)');
+      const x = timeToX(loopEnd);
+      if (x >= -10 && x <= width + 10) drawMarkerOptimized(ctx, x, progressY, 10, 'B', 'hsl(43, 100%, 70%)');
     }
 
     // Draw playhead
     const playheadX = (displayCurrentTime / displayDuration) * width;
-    drawPlayheadOptimized(ctx, playheadX, progressCenterY);
+    if (playheadX >= -10 && playheadX <= width + 10) drawPlayheadOptimized(ctx, playheadX, progressCenterY);
+
+    // Draw the minimap: the whole track, the loop, the playhead and the visible window
+    ctx.fillStyle = 'hsl(240, 10%, 12%)';
+    ctx.fillRect(0, MINIMAP_Y, width, MINIMAP_HEIGHT);
+    if (minimapPeaks && minimapPeaks.max.length > 0) {
+      ctx.fillStyle = 'hsl(43, 40%, 45%)';
+      drawPeaks(ctx, minimapPeaks, width, MINIMAP_Y, MINIMAP_HEIGHT);
+    }
+    if (loopStart !== null && loopEnd !== null) {
+      ctx.fillStyle = 'hsl(43, 96%, 75%, 0.25)';
+      ctx.fillRect((loopStart / duration) * width, MINIMAP_Y, ((loopEnd - loopStart) / duration) * width, MINIMAP_HEIGHT);
+    }
+    if (isZoomedIn) {
+      const windowX = (displayStartTime / duration) * width;
+      const windowWidth = Math.max(2, (displayDuration / duration) * width);
+      ctx.fillStyle = 'hsla(0, 0%, 100%, 0.12)';
+      ctx.fillRect(windowX, MINIMAP_Y, windowWidth, MINIMAP_HEIGHT);
+      ctx.strokeStyle = 'hsla(0, 0%, 100%, 0.7)';
+      ctx.lineWidth = 1;
+      ctx.strokeRect(windowX + 0.5, MINIMAP_Y + 0.5, windowWidth - 1, MINIMAP_HEIGHT - 1);
+    }
+    ctx.fillStyle = 'white';
+    ctx.fillRect((currentTime / duration) * width - 0.5, MINIMAP_Y, 1, MINIMAP_HEIGHT);
 
-  }, [waveformData, displayMetrics, duration, loopStart, loopEnd, zoomToLoop]);
+  }, [waveformLanes, spectralImage, spectrogram, spectralMode, minimapPeaks, beatGrid, loopRegions, activeLoopRegionId, displayMetrics, canvasWidth, currentTime, duration, loopStart, loopEnd, fitsLoop, isZoomedIn]);
 
   // Optimized marker drawing
   const drawMarkerOptimized = useCallback((
-    ctx: CanvasRenderingContext2D, 
-    x: number, 
-    progressY: number, 
-    y: number, 
-    label: string, 
+    ctx: CanvasRenderingContext2D,
+    x: number,
+    progressY: number,
+    y: number,
+    label: string,
     color: string
   ) => {
     const radius = 8;
-    
+
     // Draw vertical line
     ctx.strokeStyle = color;
     ctx.lineWidth = 2;
@@ -215,7 +363,7 @@ const PerformantWaveformProgressDisplay = React.memo<WaveformProgressDisplayProp
     ctx.moveTo(x, progressY);
     ctx.lineTo(x, 0);
     ctx.stroke();
-    
+
     // Draw marker circle and text
     ctx.fillStyle = color;
     ctx.beginPath();
@@ -232,7 +380,7 @@ const PerformantWaveformProgressDisplay = React.memo<WaveformProgressDisplayProp
   // Optimized playhead drawing
   const drawPlayheadOptimized = useCallback((ctx: CanvasRenderingContext2D, x: number, centerY: number) => {
     const radius = 8;
-    
+
     // Outer circle (white border)
     ctx.fillStyle = 'white';
     ctx.beginPath();
@@ -262,18 +410,19 @@ const PerformantWaveformProgressDisplay = React.memo<WaveformProgressDisplayProp
 
     const rect = container.getBoundingClientRect();
     const dpr = window.devicePixelRatio || 1;
-    
+
     // Set actual size and scale for high DPI displays
     canvas.width = rect.width * dpr;
     canvas.height = TOTAL_HEIGHT * dpr;
     canvas.style.width = `${rect.width}px`;
     canvas.style.height = `${TOTAL_HEIGHT}px`;
-    
+    setCanvasWidth(rect.width);
+
     const ctx = canvas.getContext('2d', { willReadFrequently: true });
     if (ctx) {
       ctx.scale(dpr, dpr);
     }
-  }, []);
+  }, [TOTAL_HEIGHT]);
 
   // Setup canvas and handle resize with throttling
   useEffect(() => {
@@ -288,7 +437,6 @@ const PerformantWaveformProgressDisplay = React.memo<WaveformProgressDisplayProp
       clearTimeout(resizeTimeout);
       resizeTimeout = setTimeout(() => {
         setupCanvas();
-        renderDisplay();
       }, 16); // ~60fps throttle
     };
 
@@ -302,11 +450,11 @@ const PerformantWaveformProgressDisplay = React.memo<WaveformProgressDisplayProp
       resizeObserver.disconnect();
       clearTimeout(resizeTimeout);
     };
-  }, [setupCanvas, renderDisplay]);
+  }, [setupCanvas]);
 
   // Start/stop rendering based on component state
   useEffect(() => {
-    if (waveformData.length > 0) {
+    if (pyramid) {
       startRendering();
     } else {
       stopRendering();
@@ -315,77 +463,135 @@ const PerformantWaveformProgressDisplay = React.memo<WaveformProgressDisplayProp
     return () => {
       stopRendering();
     };
-  }, [waveformData.length, startRendering, stopRendering]);
+  }, [pyramid, startRendering, stopRendering]);
 
-  // Mouse interaction handlers (memoized)
-  const getTimeFromMouseEvent = useCallback((event: React.PointerEvent) => {
+  // Maps a pointer to a time in the visible slice; past the edges it keeps going, within the track
+  const getTimeAtClientX = useCallback((clientX: number) => {
     if (!containerRef.current || !duration) return 0;
     const rect = containerRef.current.getBoundingClientRect();
-    const x = event.clientX - rect.left;
-    const ratio = Math.max(0, Math.min(1, x / rect.width));
-    
-    if (zoomToLoop && loopStart !== null && loopEnd !== null) {
-      return loopStart + ratio * (loopEnd - loopStart);
-    }
-    
-    return ratio * duration;
-  }, [duration, zoomToLoop, loopStart, loopEnd]);
+    const ratio = (clientX - rect.left) / rect.width;
+    return Math.max(0, Math.min(duration, view.start + ratio * view.duration));
+  }, [duration, view]);
+
+  const getMinimapTime = useCallback((clientX: number) => {
+    if (!containerRef.current || !duration) return 0;
+    const rect = containerRef.current.getBoundingClientRect();
+    return Math.max(0, Math.min(1, (clientX - rect.left) / rect.width)) * duration;
+  }, [duration]);
 
   const getMarkerAtPosition = useCallback((event: React.PointerEvent): 'start' | 'end' | null => {
     if (!containerRef.current || !duration) return null;
-    
+
     const rect = containerRef.current.getBoundingClientRect();
     const x = event.clientX - rect.left;
     const y = event.clientY - rect.top;
-    
+
     if (y < 0 || y > 20) return null;
-    
+
     const tolerance = 12;
-    
-    if (loopStart !== null) {
-      const startX = zoomToLoop ? 0 : (loopStart / duration) * rect.width;
-      if (Math.abs(x - startX) <= tolerance) return 'start';
-    }
-    
-    if (loopEnd !== null) {
-      const endX = zoomToLoop ? rect.width : (loopEnd / duration) * rect.width;
-      if (Math.abs(x - endX) <= tolerance) return 'end';
-    }
-    
+    const timeToX = (time: number) => ((time - view.start) / view.duration) * rect.width;
+
+    if (loopStart !== null && Math.abs(x - timeToX(loopStart)) <= tolerance) return 'start';
+    if (loopEnd !== null && Math.abs(x - timeToX(loopEnd)) <= tolerance) return 'end';
+
     return null;
-  }, [duration, zoomToLoop, loopStart, loopEnd]);
+  }, [duration, view, loopStart, loopEnd]);
+
+  // Minimap drags scroll the view; with the whole track in view they seek instead
+  const handleMinimapPointer = useCallback((clientX: number) => {
+    const time = getMinimapTime(clientX);
+    if (isZoomedIn) {
+      changeView(centerTimelineOn(view, time, duration), { stopFollowing: true });
+    } else {
+      onSeek(time);
+    }
+  }, [getMinimapTime, isZoomedIn, changeView, view, duration, onSeek]);
+
+  const startPinch = useCallback(() => {
+    const container = containerRef.current;
+    if (!container) return;
+    const [a, b] = [...pointersRef.current.values()];
+    pinchRef.current = {
+      startView: view,
+      startDistance: Math.abs(a.x - b.x) || 1,
+      focusTime: getTimeAtClientX((a.x + b.x) / 2)
+    };
+    // The second finger turns a scrub or marker drag into a pinch
+    setIsDragging(false);
+    setDragType(null);
+  }, [view, getTimeAtClientX]);
 
   const handlePointerDown = useCallback((event: React.PointerEvent) => {
-    const marker = getMarkerAtPosition(event);
     try { (event.currentTarget as HTMLElement).setPointerCapture?.(event.pointerId); } catch {}
-    
+    pointersRef.current.set(event.pointerId, { x: event.clientX, y: event.clientY });
+    if (pointersRef.current.size === 2) {
+      startPinch();
+      return;
+    }
+    if (pointersRef.current.size > 2) return;
+
+    const rect = event.currentTarget.getBoundingClientRect();
+    if (event.clientY - rect.top >= MINIMAP_Y) {
+      setIsDragging(true);
+      setDragType('minimap');
+      handleMinimapPointer(event.clientX);
+      return;
+    }
+
+    const marker = getMarkerAtPosition(event);
+
     if (marker) {
+      // Freeze a fitted view so the loop doesn't slide under the marker being dragged
+      if (fitsLoop) changeView(view);
       setIsDragging(true);
       setDragType(marker);
     } else {
       setIsDragging(true);
       setDragType('playhead');
-      const time = getTimeFromMouseEvent(event);
+      setIsFollowing(true);
+      const time = getTimeAtClientX(event.clientX);
       onSeek(time);
     }
-  }, [getMarkerAtPosition, getTimeFromMouseEvent, onSeek]);
+  }, [startPinch, handleMinimapPointer, getMarkerAtPosition, fitsLoop, changeView, view, getTimeAtClientX, onSeek]);
 
   const handlePointerMove = useCallback((event: React.PointerEvent) => {
-    const time = getTimeFromMouseEvent(event);
+    if (pointersRef.current.has(event.pointerId)) {
+      pointersRef.current.set(event.pointerId, { x: event.clientX, y: event.clientY });
+    }
+
+    const pinch = pinchRef.current;
+    const container = containerRef.current;
+    if (pinch && container && pointersRef.current.size >= 2) {
+      const [a, b] = [...pointersRef.current.values()];
+      const rect = container.getBoundingClientRect();
+      const zoomedDuration = pinch.startView.duration * pinch.startDistance / (Math.abs(a.x - b.x) || 1);
+      const midRatio = ((a.x + b.x) / 2 - rect.left) / rect.width;
+      changeView({ start: pinch.focusTime - midRatio * zoomedDuration, duration: zoomedDuration });
+      return;
+    }
+
+    const time = getTimeAtClientX(event.clientX);
     setHoverTime(time);
     setHoverX(event.clientX);
 
     if (isDragging && dragType) {
-      if (dragType === 'playhead') {
+      if (dragType === 'minimap') {
+        handleMinimapPointer(event.clientX);
+      } else if (dragType === 'playhead') {
         onSeek(time);
       } else {
+        // Dragging a marker past either edge scrolls the view along with it
         onMarkerDrag(dragType, time);
+        if (isZoomedIn) changeView(revealOnTimeline(view, time, duration), { stopFollowing: true });
       }
     }
-  }, [getTimeFromMouseEvent, isDragging, dragType, onSeek, onMarkerDrag]);
+  }, [changeView, getTimeAtClientX, isDragging, dragType, handleMinimapPointer, onSeek, onMarkerDrag, isZoomedIn, view, duration]);
 
   const handlePointerUp = useCallback((event?: React.PointerEvent) => {
     try { if (event) (event.currentTarget as HTMLElement).releasePointerCapture?.(event.pointerId); } catch {}
+    if (event) pointersRef.current.delete(event.pointerId);
+    else pointersRef.current.clear();
+    if (pointersRef.current.size < 2) pinchRef.current = null;
     setIsDragging(false);
     setDragType(null);
   }, []);
@@ -397,6 +603,37 @@ const PerformantWaveformProgressDisplay = React.memo<WaveformProgressDisplayProp
     }
   }, [isDragging, handlePointerUp]);
 
+  // Trackpad pinches (ctrl+wheel) zoom around the pointer; sideways or shift+wheel scrolls the view.
+  // Plain vertical wheel is left to scroll the page.
+  const handleWheel = (event: WheelEvent) => {
+    if (!duration || !containerRef.current) return;
+    const rect = containerRef.current.getBoundingClientRect();
+
+    if (event.ctrlKey || event.metaKey) {
+      event.preventDefault();
+      const factor = Math.exp(-event.deltaY * WHEEL_ZOOM_SENSITIVITY);
+      changeView(zoomTimelineAt(view, factor, getTimeAtClientX(event.clientX), duration));
+      return;
+    }
+
+    const sideways = event.shiftKey ? event.deltaY : event.deltaX;
+    const isSideways = event.shiftKey || Math.abs(event.deltaX) > Math.abs(event.deltaY);
+    if (!isZoomedIn || !isSideways || !sideways) return;
+    event.preventDefault();
+    changeView(panTimeline(view, (sideways / rect.width) * view.duration, duration), { stopFollowing: true });
+  };
+  const handleWheelRef = useRef(handleWheel);
+  handleWheelRef.current = handleWheel;
+
+  // Registered natively so the page doesn't zoom or scroll along with the timeline
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container) return;
+    const listener = (event: WheelEvent) => handleWheelRef.current(event);
+    container.addEventListener('wheel', listener, { passive: false });
+    return () => container.removeEventListener('wheel', listener);
+  }, []);
+
   const formatTime = useCallback((seconds: number) => {
     const mins = Math.floor(seconds / 60);
     const secs = Math.floor(seconds % 60);
@@ -412,6 +649,7 @@ const PerformantWaveformProgressDisplay = React.memo<WaveformProgressDisplayProp
         onPointerDown={handlePointerDown}
         onPointerMove={handlePointerMove}
         onPointerUp={handlePointerUp}
+        onPointerCancel={handlePointerUp}
         onPointerLeave={handlePointerLeave}
       >
         <canvas
@@ -419,22 +657,37 @@ const PerformantWaveformProgressDisplay = React.memo<WaveformProgressDisplayProp
           className="absolute inset-0 w-full h-full"
           style={{ height: TOTAL_HEIGHT }}
         />
-        
+
         {/* Processing indicator */}
         {isProcessing && (
           <div className="absolute inset-0 flex items-center justify-center bg-black/20">
             <div className="text-xs text-white">Processing waveform...</div>
           </div>
         )}
-        
+        {!isProcessing && spectralMode && spectrogramProgress !== null && (
+          <div className="absolute inset-x-0 top-0 flex items-center justify-center bg-black/20 pointer-events-none" style={{ height: WAVEFORM_HEIGHT }}>
+            <div className="text-xs text-white">Analyzing spectrum... {Math.round(spectrogramProgress * 100)}%</div>
+          </div>
+        )}
+
+        {/* Zoom level, tap to show the whole track */}
+        {isZoomedIn && !fitsLoop && (
+          <button
+            className="absolute top-1 right-1 px-1.5 py-0.5 rounded bg-black/60 text-white text-[10px]"
+            onPointerDown={(e) => e.stopPropagation()}
+            onClick={resetView}
+            aria-label="Show the whole track"
+          >
+            {(duration / view.duration).toFixed(1)}x
+          </button>
+        )}
+
         {/* Tooltip */}
         {hoverTime !== null && (
           <div
             className="absolute z-10 px-2 py-1 text-xs bg-black text-white rounded pointer-events-none transform -translate-x-1/2 -translate-y-full"
             style={{
-              left: `${zoomToLoop && loopStart !== null && loopEnd !== null 
-                ? ((hoverTime - loopStart) / (loopEnd - loopStart)) * 100 
-                : (hoverTime / duration) * 100}%`,
+              left: `${((hoverTime - view.start) / view.duration) * 100}%`,
               top: -8,
             }}
           >
@@ -448,4 +701,4 @@ const PerformantWaveformProgressDisplay = React.memo<WaveformProgressDisplayProp
 
 PerformantWaveformProgressDisplay.displayName = "PerformantWaveformProgressDisplay";
 
-export default PerformantWaveformProgressDisplay;
\ No newline at end of file
+export default PerformantWaveformProgressDisplay;
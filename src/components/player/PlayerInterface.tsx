@@ -1,270 +1,66 @@
 import React, { useState, useRef, useEffect, useCallback, useMemo, memo } from "react";
-import { Upload, Play, Pause, RotateCcw, Repeat, X, Maximize, Minimize, ChevronLeft, ChevronRight, Clock, Info, ZoomIn } from "lucide-react";
+import { Upload, Play, Pause, RotateCcw, Repeat, X, Maximize, Minimize, ChevronLeft, ChevronRight, Clock, Info, ZoomIn, BookmarkPlus, StepBack, StepForward, FlipHorizontal2, Save, Mic, Square, Trash2, Keyboard } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import DraggableSlider from "@/components/ui/DraggableSlider";
 import { Input } from "@/components/ui/input";
 import { Card } from "@/components/ui/card";
 import { Label } from "@/components/ui/label";
 import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Tooltip, TooltipContent, TooltipTrigger } from "@/components/ui/tooltip";
 import { cn } from "@/lib/utils";
-import { AudioWorkletLooper } from "@/lib/AudioWorkletLooper";
-import WaveformProgressDisplay from "./WaveformProgressDisplay";
-import { useThrottledState } from "@/hooks/useThrottledState";
+import { DEFAULT_CROSSFADE, type CrossfadeCurve } from "@/lib/looperEngine";
+import { DEFAULT_VIDEO_FRAME_RATE, isFrameStepper } from "@/lib/VideoFrameLooper";
+import type { MetronomeSubdivision } from "@/lib/Metronome";
+import WaveformProgressDisplay from "./PerformantWaveformProgressDisplay";
+import ShortcutSettings from "./ShortcutSettings";
 import SpeedRampControl from "@/components/ui/SpeedRampControl";
 import ConditionalTooltip from "@/components/ui/ConditionalTooltip";
 import { useHoldToRepeat } from "@/hooks/useHoldToRepeat";
 import { usePointerActionGuard } from "@/hooks/usePointerActionGuard";
-
-// Web Audio API looper class for seamless audio looping
-class WebAudioLooper {
-  private audioContext: AudioContext | null = null;
-  private audioBuffer: AudioBuffer | null = null;
-  private gainNode: GainNode | null = null;
-  private currentSource: AudioBufferSourceNode | null = null;
-  private nextSource: AudioBufferSourceNode | null = null;
-  private startTime: number = 0;
-  private pausedAt: number = 0;
-  private isPlaying: boolean = false;
-  private loopStart: number = 0;
-  private loopEnd: number = 0;
-  private playbackRate: number = 1;
-  private onTimeUpdate?: (time: number) => void;
-  private onEnded?: () => void;
-  private animationFrame: number = 0;
-  private isLooping: boolean = false;
-  
-  // Sample-accurate timing variables
-  private nextStartTime: number = 0;
-  private loopStartSample: number = 0;
-  private loopEndSample: number = 0;
-  private loopDurationSamples: number = 0;
-  private sampleRate: number = 44100;
-  private scheduleAheadTime: number = 0.1; // 100ms lookahead
-  private schedulingActive: boolean = false;
-
-  async initialize() {
-    this.audioContext = new (window.AudioContext || (window as any).webkitAudioContext)();
-    this.gainNode = this.audioContext.createGain();
-    this.gainNode.connect(this.audioContext.destination);
-  }
-
-  async loadAudio(arrayBuffer: ArrayBuffer) {
-    if (!this.audioContext) await this.initialize();
-    if (!this.audioContext) throw new Error('AudioContext not available');
-    
-    this.audioBuffer = await this.audioContext.decodeAudioData(arrayBuffer);
-    this.sampleRate = this.audioContext.sampleRate;
-    this.loopEnd = this.audioBuffer.duration;
-    return this.audioBuffer.duration;
-  }
-
-  createSource(): AudioBufferSourceNode | null {
-    if (!this.audioContext || !this.audioBuffer || !this.gainNode) return null;
-    
-    const source = this.audioContext.createBufferSource();
-    source.buffer = this.audioBuffer;
-    source.playbackRate.value = this.playbackRate;
-    source.connect(this.gainNode);
-    return source;
-  }
-
-  setLoopPoints(start: number, end: number) {
-    this.loopStart = start;
-    this.loopEnd = end;
-    
-    // Convert to sample-accurate positions
-    this.loopStartSample = Math.round(start * this.sampleRate);
-    this.loopEndSample = Math.round(end * this.sampleRate);
-    this.loopDurationSamples = this.loopEndSample - this.loopStartSample;
-  }
-
-  setPlaybackRate(rate: number) {
-    this.playbackRate = rate;
-    if (this.currentSource) {
-      this.currentSource.playbackRate.value = rate;
-    }
-    if (this.nextSource) {
-      this.nextSource.playbackRate.value = rate;
-    }
-  }
-
-  setVolume(volume: number) {
-    if (this.gainNode) {
-      this.gainNode.gain.value = volume;
-    }
-  }
-
-  getCurrentTime(): number {
-    if (!this.audioContext || !this.isPlaying) return this.pausedAt;
-    
-    if (this.isLooping && this.loopEnd > this.loopStart) {
-      // For looping, use sample-accurate position calculation
-      const elapsedAudioTime = this.audioContext.currentTime - this.startTime;
-      const elapsedSamples = Math.floor(elapsedAudioTime * this.sampleRate * this.playbackRate);
-      const positionInLoopSamples = elapsedSamples % this.loopDurationSamples;
-      const currentSample = this.loopStartSample + positionInLoopSamples;
-      return currentSample / this.sampleRate;
-    }
-    
-    return this.pausedAt + (this.audioContext.currentTime - this.startTime) * this.playbackRate;
-  }
-
-  seek(time: number) {
-    const wasPlaying = this.isPlaying;
-    if (wasPlaying) this.pause();
-    this.pausedAt = time;
-    if (wasPlaying) this.play();
-  }
-
-  // Sample-accurate ping-pong loop scheduler
-  private startSampleAccurateLoop() {
-    if (!this.audioContext || !this.isLooping || !this.audioBuffer) return;
-    
-    // Calculate sample-accurate loop duration accounting for playback rate
-    const exactLoopDurationSeconds = this.loopDurationSamples / (this.sampleRate * this.playbackRate);
-    
-    // Initialize scheduling with lookahead
-    this.nextStartTime = this.audioContext.currentTime + this.scheduleAheadTime;
-    this.schedulingActive = true;
-    
-    // Start the continuous scheduling loop
-    this.scheduleBuffersAhead();
-    
-    this.startTime = this.nextStartTime;
-    this.pausedAt = this.loopStart;
-  }
-
-  private scheduleBuffersAhead() {
-    if (!this.audioContext || !this.schedulingActive) return;
-    
-    const currentAudioTime = this.audioContext.currentTime;
-    const exactLoopDurationSeconds = this.loopDurationSamples / (this.sampleRate * this.playbackRate);
-    
-    // Schedule buffers while we're within the lookahead window
-    while (this.nextStartTime < currentAudioTime + this.scheduleAheadTime) {
-      const source = this.createSource();
-      if (source) {
-        // Use sample-accurate duration instead of calculated end-start
-        source.start(this.nextStartTime, this.loopStart, exactLoopDurationSeconds);
-        
-        // Advance to next loop start time using cumulative timing (prevents drift)
-        this.nextStartTime += exactLoopDurationSeconds;
-      }
-    }
-    
-    // Continue scheduling in the next frame
-    if (this.schedulingActive) {
-      requestAnimationFrame(() => this.scheduleBuffersAhead());
-    }
-  }
-
-  updateTime = () => {
-    if (this.isPlaying) {
-      const currentTime = this.getCurrentTime();
-      this.onTimeUpdate?.(currentTime);
-      this.animationFrame = requestAnimationFrame(this.updateTime);
-    }
-  };
-
-  play() {
-    if (!this.audioContext || !this.audioBuffer) return;
-
-    if (this.audioContext.state === 'suspended') {
-      this.audioContext.resume();
-    }
-
-    this.isPlaying = true;
-
-    if (this.isLooping && this.loopEnd > this.loopStart) {
-      // Use sample-accurate ping-pong scheduling for loops
-      this.startSampleAccurateLoop();
-    } else {
-      // Standard playback for non-looping
-      this.currentSource = this.createSource();
-      if (!this.currentSource) return;
-
-      const offset = this.pausedAt;
-      const duration = this.audioBuffer.duration - offset;
-
-      this.currentSource.start(0, offset, duration);
-      this.startTime = this.audioContext.currentTime;
-
-      this.currentSource.onended = () => {
-        this.isPlaying = false;
-        this.pausedAt = 0;
-        this.onEnded?.();
-      };
-    }
-
-    // Start time updates
-    this.updateTime();
-  }
-
-  pause() {
-    // Stop sample-accurate scheduling
-    this.schedulingActive = false;
-    
-    if (this.currentSource) {
-      this.currentSource.stop();
-      this.currentSource = null;
-    }
-    if (this.nextSource) {
-      this.nextSource.stop();
-      this.nextSource = null;
-    }
-    
-    this.pausedAt = this.getCurrentTime();
-    this.isPlaying = false;
-    
-    if (this.animationFrame) {
-      cancelAnimationFrame(this.animationFrame);
-    }
-  }
-
-  setLooping(enabled: boolean) {
-    this.isLooping = enabled;
-  }
-
-  setTimeUpdateCallback(callback: (time: number) => void) {
-    this.onTimeUpdate = callback;
-  }
-
-  setEndedCallback(callback: () => void) {
-    this.onEnded = callback;
-  }
-
-  destroy() {
-    this.pause();
-    if (this.audioContext) {
-      this.audioContext.close();
-    }
-  }
-
-  getDuration(): number {
-    return this.audioBuffer?.duration || 0;
-  }
-}
+import { useAudioAnalysis, type SnapMode } from "@/hooks/useAudioAnalysis";
+import { usePracticeSessionRecorder } from "@/hooks/usePracticeSessionRecorder";
+import { useVideoViewport } from "@/hooks/useVideoViewport";
+import { useLoopTakes } from "@/hooks/useLoopTakes";
+import { useLatencyProfile } from "@/hooks/useLatencyProfile";
+import { usePlayAlongScoring } from "@/hooks/usePlayAlongScoring";
+import { usePlayerCommands } from "@/hooks/usePlayerCommands";
+import { useLooperEngine } from "@/hooks/useLooperEngine";
+import { useMetronome } from "@/hooks/useMetronome";
+import { useSpeedRamp } from "@/hooks/useSpeedRamp";
+import { addTrack, getTrack, getTrackBlob, updateTrack } from "@/lib/mediaLibrary";
+import { CENTER_CHANNEL_LABELS, DEFAULT_PRACTICE_FILTERS, EQ_PRESETS, isPracticeFilterActive, type CenterChannelMode, type EqPreset, type PracticeFilterSettings } from "@/lib/practiceFilters";
+import { WAVEFORM_VIEW_LABELS, type WaveformViewMode } from "@/lib/spectrogram";
+import { createSavedViewport, DEFAULT_VIDEO_VIEWPORT, isDefaultViewport, viewportTransform, type SavedVideoViewport } from "@/lib/videoViewport";
+import { createLoopRegion, LOOP_REGION_COLORS, type LoopRegion } from "@/lib/loopRegions";
+import { takeBalanceGains, type LoopTake } from "@/lib/loopTakes";
+import type { LoopScore } from "@/lib/playAlongScoring";
+import type { PlayerCommand } from "@/lib/playerCommands";
+import { beatPositionToTime, createUniformGrid, formatBarBeat, timeToBeatPosition } from "@/lib/beatGrid";
+import { publishPracticeState, registerPracticeControls, type PracticeControls } from "@/lib/practiceStore";
+import { describeProgram } from "@/lib/speedRampPrograms";
+
+// Percent the speed up and down commands change speed by
+const SPEED_COMMAND_STEP = 5;
 
 // Consolidated state interfaces for better performance
-interface PlaybackState {
-  isPlaying: boolean;
-  hasMedia: boolean;
-  duration: number;
-  isAudio: boolean;
-  useWorkletAudio: boolean;
-  audioBuffer: AudioBuffer | null;
-  mediaUrl: string;
-}
-
 interface ControlsState {
   speed: number[];
   speedInput: string;
   volume: number[];
+  transposeSemitones: number;
+  transposeCents: number;
+  crossfadeMs: number;
+  crossfadeCurve: CrossfadeCurve;
   bpm: number;
   isLooping: boolean;
   isFullscreen: boolean;
   isWaveformZoomed: boolean;
+  positionFormat: 'time' | 'bars';
+  /** Play video sound through the audio engine, with the picture following it */
+  videoAudioEngine: boolean;
+  waveformView: WaveformViewMode;
+  filters: PracticeFilterSettings;
 }
 
 interface LoopState {
@@ -273,14 +69,9 @@ interface LoopState {
   isABLooping: boolean;
   loopCount: number;
   currentLoopCount: number;
-}
-
-interface AutoSpeedRampState {
-  enabled: boolean;
-  loopsBeforeIncrease: number;
-  speedIncreasePercent: number;
-  maxSpeedPercent: number;
-  originalSpeed: number;
+  snapMode: SnapMode;
+  loopRegions: LoopRegion[];
+  activeLoopRegionId: string | null;
 }
 
 interface TapTempoState {
@@ -290,32 +81,54 @@ interface TapTempoState {
   tapTimeout: NodeJS.Timeout | null;
 }
 
+interface TakeState {
+  /** 0 plays only the original, 1 only the take */
+  balance: number;
+  recordVideo: boolean;
+  /** The selected take is playing alongside the loop */
+  isComparing: boolean;
+}
+
+interface ScoringState {
+  /** Score each loop pass from the microphone against the track */
+  enabled: boolean;
+  /** Loops count toward the speed ramp only once they score at least the threshold */
+  gateRamp: boolean;
+  threshold: number;
+}
+
 interface TimerState {
   totalPlaybackTime: number;
   currentSessionTime: number;
   playbackTimerInterval: NodeJS.Timeout | null;
 }
 
-export default function PlayerInterface() {
-  // Consolidated state objects for better performance
-  const [playbackState, setPlaybackState] = useState<PlaybackState>({
-    isPlaying: false,
-    hasMedia: false,
-    duration: 0,
-    isAudio: false,
-    useWorkletAudio: false,
-    audioBuffer: null,
-    mediaUrl: ""
-  });
+interface PlayerInterfaceProps {
+  /** Library track to show; the player opens it and resumes from its last position */
+  trackId?: string | null;
+  onTrackChange?: (trackId: string | null) => void;
+  /** False while another tab covers the player; playback carries on, page-wide input does not */
+  isActive?: boolean;
+}
 
+export default function PlayerInterface({ trackId = null, onTrackChange, isActive = true }: PlayerInterfaceProps) {
+  // Consolidated state objects for better performance
   const [controlsState, setControlsState] = useState<ControlsState>({
     speed: [100],
     speedInput: "100",
     volume: [75],
+    transposeSemitones: 0,
+    transposeCents: 0,
+    crossfadeMs: DEFAULT_CROSSFADE.durationMs,
+    crossfadeCurve: DEFAULT_CROSSFADE.curve,
     bpm: 120,
     isLooping: false,
     isFullscreen: false,
-    isWaveformZoomed: false
+    isWaveformZoomed: false,
+    positionFormat: 'bars',
+    videoAudioEngine: false,
+    waveformView: 'waveform',
+    filters: DEFAULT_PRACTICE_FILTERS
   });
 
   const [loopState, setLoopState] = useState<LoopState>({
@@ -323,15 +136,10 @@ export default function PlayerInterface() {
     loopEnd: null,
     isABLooping: false,
     loopCount: 0,
-    currentLoopCount: 0
-  });
-
-  const [autoSpeedRampState, setAutoSpeedRampState] = useState<AutoSpeedRampState>({
-    enabled: false,
-    loopsBeforeIncrease: 5,
-    speedIncreasePercent: 5.0,
-    maxSpeedPercent: 120,
-    originalSpeed: 100
+    currentLoopCount: 0,
+    snapMode: 'off',
+    loopRegions: [],
+    activeLoopRegionId: null
   });
 
   const [tapTempoState, setTapTempoState] = useState<TapTempoState>({
@@ -341,15 +149,24 @@ export default function PlayerInterface() {
     tapTimeout: null
   });
 
+  const [takeState, setTakeState] = useState<TakeState>({
+    balance: 0.5,
+    recordVideo: false,
+    isComparing: false
+  });
+
+  const [scoringState, setScoringState] = useState<ScoringState>({
+    enabled: false,
+    gateRamp: false,
+    threshold: 80
+  });
+
   const [timerState, setTimerState] = useState<TimerState>({
     totalPlaybackTime: 0,
     currentSessionTime: 0,
     playbackTimerInterval: null
   });
 
-  // Throttled time updates for performance
-  const [currentTime, setCurrentTimeThrottled] = useThrottledState(0, { throttleMs: 100 });
-  
   // UI interaction state (kept separate as they need immediate updates)
   const [isDragging, setIsDragging] = useState(false);
   const [dragType, setDragType] = useState<'start' | 'end' | null>(null);
@@ -357,54 +174,47 @@ export default function PlayerInterface() {
   const [lastScrubTime, setLastScrubTime] = useState(0);
   const [scrubTimeout, setScrubTimeout] = useState<NodeJS.Timeout | null>(null);
   const [isTooltipModeActive, setIsTooltipModeActive] = useState(false);
+  const [showShortcuts, setShowShortcuts] = useState(false);
 
   // Destructure for easier access
-  const { isPlaying, hasMedia, duration, isAudio, useWorkletAudio, audioBuffer, mediaUrl } = playbackState;
-  const { speed, speedInput, volume, bpm, isLooping, isFullscreen, isWaveformZoomed } = controlsState;
-  const { loopStart, loopEnd, isABLooping, loopCount, currentLoopCount } = loopState;
-  const { enabled: autoSpeedRampEnabled, loopsBeforeIncrease, speedIncreasePercent, maxSpeedPercent, originalSpeed } = autoSpeedRampState;
+  const { speed, speedInput, volume, transposeSemitones, transposeCents, crossfadeMs, crossfadeCurve, bpm, isLooping, isFullscreen, isWaveformZoomed, positionFormat, videoAudioEngine, waveformView, filters } = controlsState;
+  const { loopStart, loopEnd, isABLooping, loopCount, currentLoopCount, snapMode, loopRegions, activeLoopRegionId } = loopState;
   const { tapTimes, tappedBpm, isTapping, tapTimeout } = tapTempoState;
+  const { balance: takeBalance, recordVideo, isComparing } = takeState;
+  const { enabled: scoringEnabled, gateRamp, threshold: accuracyThreshold } = scoringState;
   const { totalPlaybackTime, currentSessionTime, playbackTimerInterval } = timerState;
 
   // State setter helpers for consolidated state management
-  const setIsPlaying = useCallback((value: boolean) => {
-    setPlaybackState(prev => ({ ...prev, isPlaying: value }));
-  }, []);
-
-  const setHasMedia = useCallback((value: boolean) => {
-    setPlaybackState(prev => ({ ...prev, hasMedia: value }));
+  const setVideoAudioEngine = useCallback((value: boolean) => {
+    setControlsState(prev => ({ ...prev, videoAudioEngine: value }));
   }, []);
 
-  const setDuration = useCallback((value: number) => {
-    setPlaybackState(prev => ({ ...prev, duration: value }));
-  }, []);
-
-  const setIsAudio = useCallback((value: boolean) => {
-    setPlaybackState(prev => ({ ...prev, isAudio: value }));
+  const setSpeed = useCallback((value: number[]) => {
+    setControlsState(prev => ({ ...prev, speed: value }));
   }, []);
 
-  const setUseWorkletAudio = useCallback((value: boolean) => {
-    setPlaybackState(prev => ({ ...prev, useWorkletAudio: value }));
+  const setSpeedInput = useCallback((value: string) => {
+    setControlsState(prev => ({ ...prev, speedInput: value }));
   }, []);
 
-  const setAudioBuffer = useCallback((value: AudioBuffer | null) => {
-    setPlaybackState(prev => ({ ...prev, audioBuffer: value }));
+  const setVolume = useCallback((value: number[]) => {
+    setControlsState(prev => ({ ...prev, volume: value }));
   }, []);
 
-  const setMediaUrl = useCallback((value: string) => {
-    setPlaybackState(prev => ({ ...prev, mediaUrl: value }));
+  const setTransposeSemitones = useCallback((value: number) => {
+    setControlsState(prev => ({ ...prev, transposeSemitones: value }));
   }, []);
 
-  const setSpeed = useCallback((value: number[]) => {
-    setControlsState(prev => ({ ...prev, speed: value }));
+  const setTransposeCents = useCallback((value: number) => {
+    setControlsState(prev => ({ ...prev, transposeCents: value }));
   }, []);
 
-  const setSpeedInput = useCallback((value: string) => {
-    setControlsState(prev => ({ ...prev, speedInput: value }));
+  const setCrossfadeMs = useCallback((value: number) => {
+    setControlsState(prev => ({ ...prev, crossfadeMs: value }));
   }, []);
 
-  const setVolume = useCallback((value: number[]) => {
-    setControlsState(prev => ({ ...prev, volume: value }));
+  const setCrossfadeCurve = useCallback((value: CrossfadeCurve) => {
+    setControlsState(prev => ({ ...prev, crossfadeCurve: value }));
   }, []);
 
   const setBpm = useCallback((value: number) => {
@@ -423,44 +233,48 @@ export default function PlayerInterface() {
     setControlsState(prev => ({ ...prev, isWaveformZoomed: value }));
   }, []);
 
-  const setLoopStart = useCallback((value: number | null) => {
-    setLoopState(prev => ({ ...prev, loopStart: value }));
+  const setFilters = useCallback((value: Partial<PracticeFilterSettings>) => {
+    setControlsState(prev => ({ ...prev, filters: { ...prev.filters, ...value } }));
   }, []);
 
-  const setLoopEnd = useCallback((value: number | null) => {
-    setLoopState(prev => ({ ...prev, loopEnd: value }));
+  const setWaveformView = useCallback((value: WaveformViewMode) => {
+    setControlsState(prev => ({ ...prev, waveformView: value }));
   }, []);
 
-  const setIsABLooping = useCallback((value: boolean) => {
-    setLoopState(prev => ({ ...prev, isABLooping: value }));
+  const setPositionFormat = useCallback((value: 'time' | 'bars') => {
+    setControlsState(prev => ({ ...prev, positionFormat: value }));
   }, []);
 
-  const setLoopCount = useCallback((value: number) => {
-    setLoopState(prev => ({ ...prev, loopCount: value }));
+  const setLoopStart = useCallback((value: number | null) => {
+    setLoopState(prev => ({ ...prev, loopStart: value }));
   }, []);
 
-  const setCurrentLoopCount = useCallback((value: number) => {
-    setLoopState(prev => ({ ...prev, currentLoopCount: value }));
+  const setLoopEnd = useCallback((value: number | null) => {
+    setLoopState(prev => ({ ...prev, loopEnd: value }));
   }, []);
 
-  const setAutoSpeedRampEnabled = useCallback((value: boolean) => {
-    setAutoSpeedRampState(prev => ({ ...prev, enabled: value }));
+  const setSnapMode = useCallback((value: SnapMode) => {
+    setLoopState(prev => ({ ...prev, snapMode: value }));
   }, []);
 
-  const setLoopsBeforeIncrease = useCallback((value: number) => {
-    setAutoSpeedRampState(prev => ({ ...prev, loopsBeforeIncrease: value }));
+  const setLoopRegions = useCallback((value: LoopRegion[]) => {
+    setLoopState(prev => ({ ...prev, loopRegions: value }));
   }, []);
 
-  const setSpeedIncreasePercent = useCallback((value: number) => {
-    setAutoSpeedRampState(prev => ({ ...prev, speedIncreasePercent: value }));
+  const setActiveLoopRegionId = useCallback((value: string | null) => {
+    setLoopState(prev => ({ ...prev, activeLoopRegionId: value }));
   }, []);
 
-  const setMaxSpeedPercent = useCallback((value: number) => {
-    setAutoSpeedRampState(prev => ({ ...prev, maxSpeedPercent: value }));
+  const setIsABLooping = useCallback((value: boolean) => {
+    setLoopState(prev => ({ ...prev, isABLooping: value }));
+  }, []);
+
+  const setLoopCount = useCallback((value: number) => {
+    setLoopState(prev => ({ ...prev, loopCount: value }));
   }, []);
 
-  const setOriginalSpeed = useCallback((value: number) => {
-    setAutoSpeedRampState(prev => ({ ...prev, originalSpeed: value }));
+  const setCurrentLoopCount = useCallback((value: number) => {
+    setLoopState(prev => ({ ...prev, currentLoopCount: value }));
   }, []);
 
   const setTapTimes = useCallback((value: number[]) => {
@@ -487,26 +301,154 @@ export default function PlayerInterface() {
     setTimerState(prev => ({ ...prev, currentSessionTime: value }));
   }, []);
 
+  const setTakeBalance = useCallback((value: number) => {
+    setTakeState(prev => ({ ...prev, balance: value }));
+  }, []);
+
+  const setRecordVideo = useCallback((value: boolean) => {
+    setTakeState(prev => ({ ...prev, recordVideo: value }));
+  }, []);
+
+  const setIsComparing = useCallback((value: boolean) => {
+    setTakeState(prev => ({ ...prev, isComparing: value }));
+  }, []);
+
+  const setScoringEnabled = useCallback((value: boolean) => {
+    setScoringState(prev => ({ ...prev, enabled: value }));
+  }, []);
+
+  const setGateRamp = useCallback((value: boolean) => {
+    setScoringState(prev => ({ ...prev, gateRamp: value }));
+  }, []);
+
+  const setAccuracyThreshold = useCallback((value: number) => {
+    setScoringState(prev => ({ ...prev, threshold: value }));
+  }, []);
+
   const setPlaybackTimerInterval = useCallback((value: NodeJS.Timeout | null) => {
     setTimerState(prev => ({ ...prev, playbackTimerInterval: value }));
   }, []);
 
-  // Add missing setCurrentTime function
-  const setCurrentTime = useCallback((value: number) => {
-    setCurrentTimeThrottled(value);
-  }, [setCurrentTimeThrottled]);
-  
   const fileInputRef = useRef<HTMLInputElement>(null);
-  const mediaRef = useRef<HTMLVideoElement | HTMLAudioElement>(null);
+  const mediaRef = useRef<HTMLVideoElement>(null);
   const videoContainerRef = useRef<HTMLDivElement>(null);
+  const takeMediaRef = useRef<HTMLVideoElement>(null);
+  const takePreviewRef = useRef<HTMLVideoElement>(null);
   const progressBarRef = useRef<HTMLDivElement>(null);
-  const webAudioLooper = useRef<WebAudioLooper | null>(null);
-  const workletLooper = useRef<AudioWorkletLooper | null>(null);
+  const markerEditRef = useRef({ start: 0, end: 0 });
+
+  const latency = useLatencyProfile();
+  const calibratedOutputLatency = latency.profile ? latency.profile.outputMs / 1000 : null;
+
+  // The A-B loop while looping; takes and scoring are tied to it
+  const activeLoop = useMemo(
+    () => (isABLooping && loopStart !== null && loopEnd !== null ? { start: loopStart, end: loopEnd } : null),
+    [isABLooping, loopStart, loopEnd]
+  );
+
+  const loopCompletedRef = useRef<() => void>(() => {});
+  const {
+    playbackState, setIsPlaying, currentTime, setCurrentTime, seekTo, looperRef, loadedTrackIdRef,
+    isCurrentMedia, saveLastPosition, loadMedia, handleLoadedMetadata
+  } = useLooperEngine({
+    mediaRef,
+    videoAudioEngine,
+    playbackRate: speed[0] / 100,
+    volume: (volume[0] / 100) * (isComparing ? takeBalanceGains(takeBalance).original : 1),
+    loop: activeLoop,
+    isLooping,
+    transposeSemitones,
+    transposeCents,
+    crossfade: { durationMs: crossfadeMs, curve: crossfadeCurve },
+    filters,
+    outputLatency: calibratedOutputLatency,
+    onEngineChange: engine => metronome.setEngine(engine),
+    onLoop: () => loopCompletedRef.current()
+  });
+  const { isPlaying, hasMedia, duration, isAudio, looperBackend, looperCapabilities, engineNotice, audioBuffer, mediaUrl, mediaTitle, frameRate, trackId: loadedTrackId } = playbackState;
+
+  const { viewport: videoViewport, setViewport: setVideoViewport, toggleMirror, resetZoom } = useVideoViewport(videoContainerRef, hasMedia && !isAudio);
+  const [savedViewports, setSavedViewports] = useState<SavedVideoViewport[]>([]);
+
+  const { snap, beatGrid, isReady: isSnapReady } = useAudioAnalysis(audioBuffer);
+
+  // A tapped tempo overrides the measured one but keeps the detected downbeat as its anchor
+  const musicalGrid = useMemo(() => {
+    if (tappedBpm && duration > 0) {
+      const downbeatTime = beatGrid?.beats[beatGrid.firstDownbeat] ?? 0;
+      return createUniformGrid(tappedBpm, downbeatTime, duration, beatGrid?.beatsPerBar);
+    }
+    return beatGrid;
+  }, [tappedBpm, beatGrid, duration]);
+
+  const metronome = useMetronome({
+    getEngine: () => looperRef.current,
+    grid: musicalGrid,
+    bpm,
+    duration,
+    playbackRate: speed[0] / 100,
+    loop: activeLoop,
+    isLooping,
+    isPlaying,
+    outputLatency: calibratedOutputLatency
+  });
+  const { enabled: metronomeEnabled, volume: metronomeVolume, subdivision, accentDownbeats, countIn } = metronome.metronomeState;
+  const { setEnabled: setMetronomeEnabled, setVolume: setMetronomeVolume, setSubdivision, setAccentDownbeats, setCountIn } = metronome;
+
+  const {
+    takes, activeTake, activeTakeUrl, selectTake, isRecording, recordingStream,
+    startRecording, markLoopStart, stopRecording, removeTake, renameTake
+  } = useLoopTakes(loadedTrackId, activeLoop);
+
+  // Play-along scoring needs the decoded track and an engine that renders on a Web Audio clock
+  const canScore = hasMedia && audioBuffer !== null && (looperBackend === 'worklet' || looperBackend === 'webaudio');
+  const passScoredRef = useRef<(score: LoopScore | null) => void>(() => {});
+  const scoring = usePlayAlongScoring({
+    enabled: scoringEnabled && canScore,
+    isPlaying,
+    audioBuffer,
+    loop: activeLoop,
+    roundTrip: latency.profile ? latency.profile.roundTripMs / 1000 : null,
+    semitoneShift: Math.round(transposeSemitones + transposeCents / 100),
+    getClock: () => looperRef.current?.getMediaClock?.() ?? null,
+    onScore: score => passScoredRef.current(score)
+  });
+
+  const speedRamp = useSpeedRamp({
+    speed: speed[0],
+    setSpeed,
+    isPlaying,
+    isABLooping,
+    // With the gate on, loops count toward the ramp when their score arrives instead of when they wrap
+    isGated: gateRamp && scoring.isListening,
+    accuracyThreshold,
+    onFinished: () => {
+      looperRef.current?.pause();
+      setIsPlaying(false);
+      saveLastPosition();
+    }
+  });
+  const { enabled: autoSpeedRampEnabled, loopsBeforeIncrease, speedIncreasePercent, maxSpeedPercent, programId: rampProgramId, run: rampRun } = speedRamp.autoSpeedRampState;
+  const {
+    setLoopsBeforeIncrease, setSpeedIncreasePercent, setMaxSpeedPercent, programs: rampPrograms, program: rampProgram,
+    status: rampStatus, toggle: handleAutoSpeedRampToggle, selectProgram: handleRampProgramChange, registerLoopMiss: handleRampMiss
+  } = speedRamp;
+  passScoredRef.current = speedRamp.passScored;
+
+  const { recordLoop, endSession } = usePracticeSessionRecorder({
+    trackId: loadedTrackId,
+    trackTitle: mediaTitle,
+    isPlaying,
+    speed: speed[0],
+    loopRegion: isABLooping && loopStart !== null && loopEnd !== null
+      ? { start: loopStart, end: loopEnd, name: loopRegions.find(region => region.id === activeLoopRegionId)?.name }
+      : null
+  });
 
   // Tooltip content for all interactive elements
   const tooltipContent = {
     playPause: "Start or pause media playback",
-    restart: "Restart from beginning",
+    restart: "Back to the loop start, or to the beginning without a loop",
     looping: "Toggle continuous loop mode",
     loopStart: "Set loop start point (A)",
     loopEnd: "Set loop end point (B)",
@@ -520,11 +462,46 @@ export default function PlayerInterface() {
     speed: "Control playback speed (25-200%)",
     speedInput: "Enter exact speed percentage",
     speedPreset: "Apply speed preset",
+    transpose: "Shift pitch without changing speed (engines that support it)",
+    crossfade: "Blend the loop end into the loop start to avoid clicks at the seam",
+    filterCenter: "Cancel removes what is mixed to the center (often vocals or a lead part) and keeps the bass; Isolate keeps the center and lowers hard-panned parts",
+    filterFocus: "Band-pass the track to a frequency range, to hear one instrument's register more clearly",
+    filterEq: "Tone presets: cut the bass, bring a guitar forward, or bring the bass line forward",
     autoSpeedRamp: "Automatically increase speed over time",
+    rampProgram: "Run a saved ramp program instead of fixed steps",
+    videoAudioEngine: "Play the video's sound through the audio engine for gapless loops, time-stretch and crossfade; the picture follows it",
+    waveformView: "Switch between the mixed waveform, each stereo channel, a spectrogram, and a chroma view of which notes are sounding",
+    stepFrameBack: "Step back one video frame",
+    stepFrameForward: "Step forward one video frame",
+    mirrorVideo: "Flip the picture horizontally, so it matches your own hands like a mirror",
+    resetVideoZoom: "Zoomed in - pinch, ctrl+scroll or double-click the video to zoom, drag to move. Click to show the whole picture",
+    saveVideoView: "Save this mirror and zoom as a view for this track",
+    savedVideoView: "Apply this saved mirror and zoom view",
+    metronome: "Click along with the beat grid at the current playback speed",
+    subdivision: "Clicks per beat",
+    accent: "Accent the first beat of each bar",
+    countIn: "Play one bar of clicks before each loop pass",
+    rampMiss: "Mark a missed loop to drop the speed back",
     tapTempo: "Tap to set target BPM tempo",
     fullscreen: "Toggle fullscreen mode",
     import: "Import audio or video file",
-    infoToggle: "Toggle tooltip help system"
+    infoToggle: "Toggle tooltip help system",
+    snapMode: "Snap A/B markers to zero crossings, note onsets or the beat grid",
+    loopBars: "Set the loop length in bars from A (or the playhead)",
+    shiftLoop: "Move the whole loop by one bar",
+    scaleLoop: "Halve or double the loop length",
+    positionFormat: "Switch between bar.beat and minutes:seconds",
+    saveLoopRegion: "Save the current A-B loop to this track",
+    recordTake: "Record yourself over the A-B loop; the loop restarts from A when recording begins",
+    recordVideo: "Also record the camera, shown next to the original",
+    compareTake: "Play the selected take together with the loop, lined up with the loop start",
+    takeBalance: "Crossfade between the original and your take",
+    calibrateLatency: "Play a few clicks and listen for them through the microphone to measure this device's delay. With headphones, hold them against the microphone",
+    outputLatency: "The part of the delay between the app and your ears; adjust by ear if the playhead or video runs ahead of the sound",
+    playAlongScoring: "Listen through the microphone while the loop plays and score each pass on timing and pitch against the track. Use headphones so the microphone only hears you",
+    shortcuts: "Keyboard shortcuts, page-turner pedals and MIDI foot controllers for the player's controls",
+    rampGate: "Count a loop toward the speed ramp only when it scores at least this well; drop-back programs drop back on a low score",
+    loopRegionColor: "Change the loop's color"
   };
 
   // Conditional Tooltip Wrapper Component
@@ -642,41 +619,24 @@ export default function PlayerInterface() {
     );
   });
 
-  // Cleanup previous media URL when component unmounts
   useEffect(() => {
-    return () => {
-      if (mediaUrl) {
-        URL.revokeObjectURL(mediaUrl);
-      }
-      if (webAudioLooper.current) {
-        webAudioLooper.current.destroy();
-      }
-      if (workletLooper.current) {
-        workletLooper.current.destroy();
-      }
-    };
-  }, [mediaUrl]);
+    const take = takeMediaRef.current;
+    if (take) take.volume = (volume[0] / 100) * takeBalanceGains(takeBalance).take;
+  }, [volume, takeBalance, activeTakeUrl]);
 
-  // Update media element properties when state changes
+  // Live camera while a video take records
   useEffect(() => {
-    if (isAudio) {
-      const activeLooper = useWorkletAudio ? workletLooper.current : webAudioLooper.current;
-      if (activeLooper) {
-        // Update audio settings for both worklet and fallback loopers
-        activeLooper.setPlaybackRate(speed[0] / 100);
-        activeLooper.setVolume(volume[0] / 100);
-        activeLooper.setLooping(isABLooping && loopStart !== null && loopEnd !== null);
-        if (loopStart !== null && loopEnd !== null) {
-          activeLooper.setLoopPoints(loopStart, loopEnd);
-        }
-      }
-    } else if (mediaRef.current) {
-      // Update HTML5 video element settings for video files
-      mediaRef.current.playbackRate = speed[0] / 100;
-      mediaRef.current.volume = volume[0] / 100;
-      mediaRef.current.loop = isLooping;
+    const preview = takePreviewRef.current;
+    if (preview) preview.srcObject = recordingStream;
+  }, [recordingStream]);
+
+  // Pausing the loop or leaving its region ends a comparison
+  useEffect(() => {
+    if (isComparing && (!isPlaying || !activeLoop)) {
+      takeMediaRef.current?.pause();
+      setIsComparing(false);
     }
-  }, [speed, volume, isLooping, isAudio, isABLooping, loopStart, loopEnd, useWorkletAudio]);
+  }, [isComparing, isPlaying, activeLoop, setIsComparing]);
 
   // Sync speed input with slider changes
   useEffect(() => {
@@ -702,25 +662,6 @@ export default function PlayerInterface() {
     }
   };
 
-  // Auto-SpeedRamp logic
-  const handleAutoSpeedRamp = (newLoopCount: number) => {
-    if (!autoSpeedRampEnabled || !isABLooping) return;
-    
-    // Check if we've reached the threshold for speed increase
-    if (newLoopCount % loopsBeforeIncrease === 0) {
-      const currentSpeedValue = speed[0];
-      
-      // Only increase if we haven't reached max speed
-      if (currentSpeedValue < maxSpeedPercent) {
-        const newSpeedValue = Math.min(
-          maxSpeedPercent, 
-          currentSpeedValue + speedIncreasePercent
-        );
-        setSpeed([newSpeedValue]);
-      }
-    }
-  };
-
   // Tap Tempo logic
   const handleTapTempo = useCallback(() => {
     const now = performance.now();
@@ -765,131 +706,122 @@ export default function PlayerInterface() {
     setTimeout(() => setIsTapping(false), 150);
   }, [tapTimeout]);
 
-  // Update BPM display based on current speed and tapped BPM
-  const displayBpm = tappedBpm && autoSpeedRampEnabled && isABLooping 
-    ? Math.round(tappedBpm * (speed[0] / 100))
-    : tappedBpm || bpm;
+  // Update BPM display based on current speed and tapped BPM; a measured tempo is the
+  // original recording's, so it always follows playback speed
+  const displayBpm = tappedBpm
+    ? (autoSpeedRampEnabled && isABLooping ? Math.round(tappedBpm * (speed[0] / 100)) : tappedBpm)
+    : beatGrid
+      ? Math.round(beatGrid.bpm * (speed[0] / 100))
+      : bpm;
+
+  // Start from the measured tempo whenever a new track is analyzed
+  useEffect(() => {
+    if (beatGrid) setBpm(Math.round(beatGrid.bpm));
+  }, [beatGrid, setBpm]);
+
+  // Holds the track for a bar of clicks at the current tempo, then plays from resumeAt (or where it stopped)
+  const playAfterCountIn = async (resumeAt: number | null) => {
+    const looper = looperRef.current;
+    if (!looper) return;
+
+    await looper.pause();
+    if (resumeAt !== null) await looper.seek(resumeAt);
+    const beatSeconds = 60 / (((musicalGrid?.bpm ?? bpm) * speed[0]) / 100);
+    const completed = await metronome.playCountIn(musicalGrid?.beatsPerBar ?? 4, beatSeconds);
+    if (completed) {
+      await looper.play();
+      // Playback restarted without pausing, so the scored pass picks up from the new clock
+      scoring.restartPass();
+    }
+  };
+
+  // Loop wraps are counted through a ref so engine callbacks always see current state
+  const handleLoopCompleted = () => {
+    if (!isABLooping) return;
+    scoring.passCompleted();
+    if (countIn && isPlaying && loopStart !== null) {
+      playAfterCountIn(loopStart).catch(error => console.error('Count-in failed:', error));
+    }
+    recordLoop();
+    setLoopCount(loopCount + 1);
+    const newCount = currentLoopCount + 1;
+    setCurrentLoopCount(newCount);
+    // Trigger auto speed ramp logic
+    speedRamp.loopCompleted(newCount);
+  };
+  loopCompletedRef.current = handleLoopCompleted;
+
+  // Clears what belonged to the previous file before loading the next
+  const openMedia = (media: Blob, libraryTrackId: string | null, title: string, resumeAt?: number) => {
+    endSession();
+    setLoopRegions([]);
+    setActiveLoopRegionId(null);
+    setSavedViewports([]);
+    setVideoViewport(DEFAULT_VIDEO_VIEWPORT);
+    return loadMedia(media, libraryTrackId, title, resumeAt);
+  };
 
   const handleFileUpload = async (event: React.ChangeEvent<HTMLInputElement>) => {
     const file = event.target.files?.[0];
-    if (file) {
-      // Clean up previous URL
-      if (mediaUrl) {
-        URL.revokeObjectURL(mediaUrl);
-      }
-      
-      const url = URL.createObjectURL(file);
-      setMediaUrl(url);
-      const isAudioFile = file.type.startsWith('audio/');
-      setIsAudio(isAudioFile);
-      setHasMedia(true);
-      setCurrentTime(0);
-      setDuration(0);
-
-      // Initialize audio processing for all files
-      const arrayBuffer = await file.arrayBuffer();
-      
-      // Clean up existing loopers
-      if (webAudioLooper.current) {
-        webAudioLooper.current.destroy();
-        webAudioLooper.current = null;
-      }
-      if (workletLooper.current) {
-        workletLooper.current.destroy();
-        workletLooper.current = null;
-      }
+    if (!file) return;
 
-      // Extract audio buffer for waveform display (for both audio and video files)
-      try {
-        const audioContext = new AudioContext();
-        const decodedBuffer = await audioContext.decodeAudioData(arrayBuffer.slice(0));
-        setAudioBuffer(decodedBuffer);
-        audioContext.close();
-      } catch (error) {
-        console.warn('Failed to decode audio for waveform:', error);
-        setAudioBuffer(null);
-      }
+    // Every import is kept in the on-device library; playback still works if storage fails
+    let libraryTrackId: string | null = null;
+    let title = file.name;
+    try {
+      const track = await addTrack(file);
+      libraryTrackId = track.id;
+      title = track.title;
+    } catch (error) {
+      console.warn('Failed to save media to the library:', error);
+    }
 
-      // Initialize audio looping for audio files
-      if (isAudioFile) {
-        // Try AudioWorklet first for professional-grade looping
-        if (AudioWorkletLooper.isSupported()) {
-          try {
-            workletLooper.current = new AudioWorkletLooper();
-            const initialized = await workletLooper.current.initialize();
-            
-            if (initialized) {
-              await workletLooper.current.loadAudio(arrayBuffer);
-              setUseWorkletAudio(true);
-              
-              const duration = workletLooper.current.getDuration();
-              setDuration(duration);
-
-              // Set up time update callback
-              workletLooper.current.setTimeUpdateCallback((time: number) => {
-                setCurrentTime(time);
-              });
-
-              workletLooper.current.setErrorCallback((error: Error) => {
-                console.error('AudioWorklet error:', error);
-              });
-
-              console.log('AudioWorklet initialized for professional audio looping');
-              return;
-            }
-          } catch (error) {
-            console.warn('AudioWorklet failed, falling back to WebAudio:', error);
-          }
-        }
+    await openMedia(file, libraryTrackId, title);
+    if (!isCurrentMedia(file)) return;
+    onTrackChange?.(libraryTrackId);
+  };
 
-        // Fallback to WebAudioLooper
-        try {
-          webAudioLooper.current = new WebAudioLooper();
-          const duration = await webAudioLooper.current.loadAudio(arrayBuffer);
-          setDuration(duration);
-          setUseWorkletAudio(false);
-          
-          // Set up callbacks
-          webAudioLooper.current.setTimeUpdateCallback((time) => {
-            setCurrentTime(time);
-          });
-          
-          webAudioLooper.current.setEndedCallback(() => {
-            setIsPlaying(false);
-            setCurrentTime(0);
-          });
-          
-          console.log('Web Audio API initialized for seamless looping');
-        } catch (error) {
-          console.error('Failed to initialize Web Audio API:', error);
-          // Fallback to HTML5 audio
-          setIsAudio(false);
-        }
-      }
+  // Open tracks chosen in the library, and reopen the current one when returning to this tab
+  const openLibraryTrack = async (id: string) => {
+    const [track, blob] = await Promise.all([getTrack(id), getTrackBlob(id)]);
+    if (!track || !blob) {
+      console.warn('Library track is no longer available:', id);
+      onTrackChange?.(null);
+      return;
     }
+
+    updateTrack(id, { lastOpenedAt: Date.now() }).catch(error => {
+      console.warn('Failed to save last opened time:', error);
+    });
+    await openMedia(blob, id, track.title, track.lastPosition);
+    if (!isCurrentMedia(blob)) return;
+    setLoopRegions(track.loopRegions ?? []);
+    setSavedViewports(track.videoViewports ?? []);
   };
+  const openLibraryTrackRef = useRef(openLibraryTrack);
+  openLibraryTrackRef.current = openLibraryTrack;
+
+  useEffect(() => {
+    if (!trackId || trackId === loadedTrackIdRef.current) return;
+    openLibraryTrackRef.current(trackId).catch(error => {
+      console.error('Failed to open library track:', error);
+    });
+  }, [trackId, loadedTrackIdRef]);
 
   const togglePlayPause = async () => {
     try {
-      if (isPlaying) {
-        if (isAudio) {
-          const activeLooper = useWorkletAudio ? workletLooper.current : webAudioLooper.current;
-          if (activeLooper) {
-            activeLooper.pause();
-          }
-        } else if (mediaRef.current) {
-          mediaRef.current.pause();
-        }
+      if (isRecording) {
+        await finishTake();
+      } else if (isPlaying) {
+        metronome.cancelCountIn();
+        looperRef.current?.pause();
         setIsPlaying(false);
+        saveLastPosition();
+      } else if (countIn && isABLooping) {
+        setIsPlaying(true);
+        await playAfterCountIn(null);
       } else {
-        if (isAudio) {
-          const activeLooper = useWorkletAudio ? workletLooper.current : webAudioLooper.current;
-          if (activeLooper) {
-            activeLooper.play();
-          }
-        } else if (mediaRef.current) {
-          await mediaRef.current.play();
-        }
+        await looperRef.current?.play();
         setIsPlaying(true);
       }
     } catch (error) {
@@ -897,31 +829,6 @@ export default function PlayerInterface() {
     }
   };
 
-  const handleTimeUpdate = () => {
-    // For video files, use HTML5 video element time update
-    if (!isAudio && mediaRef.current) {
-      const currentTime = mediaRef.current.currentTime;
-      setCurrentTime(currentTime);
-      
-      // Simple loop handling for video files
-      if (isABLooping && loopStart !== null && loopEnd !== null && currentTime >= loopEnd) {
-        mediaRef.current.currentTime = loopStart;
-        setLoopCount(loopCount + 1);
-        const newCount = currentLoopCount + 1;
-        setCurrentLoopCount(newCount);
-        // Trigger auto speed ramp logic
-        handleAutoSpeedRamp(newCount);
-      }
-    }
-    // For audio files, time updates are handled by Web Audio API callbacks
-  };
-
-  const handleLoadedMetadata = () => {
-    if (mediaRef.current) {
-      setDuration(mediaRef.current.duration || 0);
-    }
-  };
-
   const handleProgressClick = (event: React.MouseEvent<HTMLDivElement>) => {
     if (!duration || isDragging) return;
     
@@ -930,15 +837,7 @@ export default function PlayerInterface() {
     const clickRatio = clickX / rect.width;
     const newTime = clickRatio * duration;
     
-    if (isAudio) {
-      const activeLooper = useWorkletAudio ? workletLooper.current : webAudioLooper.current;
-      if (activeLooper) {
-        activeLooper.seek(newTime);
-      }
-    } else if (mediaRef.current) {
-      mediaRef.current.currentTime = newTime;
-      setCurrentTime(newTime);
-    }
+    seekTo(newTime);
   };
 
   const calculateTimeFromPosition = (clientX: number) => {
@@ -958,14 +857,7 @@ export default function PlayerInterface() {
     
     // Store playback state and pause for scrubbing
     setWasPlayingBeforeDrag(isPlaying);
-    if (isAudio) {
-      const activeLooper = useWorkletAudio ? workletLooper.current : webAudioLooper.current;
-      if (activeLooper) {
-        activeLooper.pause();
-      }
-    } else if (mediaRef.current) {
-      mediaRef.current.pause();
-    }
+    looperRef.current?.pause();
     setIsPlaying(false);
     
     // Set initial scrub time
@@ -982,15 +874,7 @@ export default function PlayerInterface() {
     
     // Real-time scrubbing - throttle to prevent excessive seeking
     if (Math.abs(newTime - lastScrubTime) > 0.016) { // ~60fps throttle
-      if (isAudio) {
-        const activeLooper = useWorkletAudio ? workletLooper.current : webAudioLooper.current;
-        if (activeLooper) {
-          activeLooper.seek(newTime);
-        }
-      } else if (mediaRef.current) {
-        mediaRef.current.currentTime = newTime;
-        setCurrentTime(newTime);
-      }
+      seekTo(newTime);
       setLastScrubTime(newTime);
     }
     
@@ -1015,14 +899,7 @@ export default function PlayerInterface() {
     
     // Restore playback state after scrubbing
     if (wasPlayingBeforeDrag) {
-      if (isAudio) {
-        const activeLooper = useWorkletAudio ? workletLooper.current : webAudioLooper.current;
-        if (activeLooper) {
-          activeLooper.play();
-        }
-      } else if (mediaRef.current) {
-        mediaRef.current.play().catch(console.error);
-      }
+      Promise.resolve(looperRef.current?.play()).catch(console.error);
       setIsPlaying(true);
     }
     
@@ -1052,12 +929,32 @@ export default function PlayerInterface() {
     return `${mins}:${secs.toString().padStart(2, '0')}`;
   };
 
+  const formatPosition = (seconds: number) => {
+    return musicalGrid && positionFormat === 'bars' ? formatBarBeat(musicalGrid, seconds) : formatTime(seconds);
+  };
+
+  // Markers move immediately; the snapped position replaces them unless a newer edit arrived meanwhile
+  const placeMarker = (type: 'start' | 'end', time: number) => {
+    const setMarker = type === 'start' ? setLoopStart : setLoopEnd;
+    const [minTime, maxTime] = type === 'start'
+      ? [0, loopEnd !== null ? loopEnd : duration]
+      : [loopStart !== null ? loopStart : 0, duration];
+    setMarker(time);
+
+    const edit = ++markerEditRef.current[type];
+    snap(time, snapMode, 'nearest').then(snapped => {
+      if (snapped !== null && markerEditRef.current[type] === edit) {
+        setMarker(Math.max(minTime, Math.min(snapped, maxTime)));
+      }
+    });
+  };
+
   const handleSetLoopStart = () => {
-    setLoopStart(currentTime);
+    placeMarker('start', currentTime);
   };
 
   const handleSetLoopEnd = () => {
-    setLoopEnd(currentTime);
+    placeMarker('end', currentTime);
   };
 
   const toggleABLoop = () => {
@@ -1070,76 +967,316 @@ export default function PlayerInterface() {
     setLoopStart(null);
     setLoopEnd(null);
     setIsABLooping(false);
+    setActiveLoopRegionId(null);
     setLoopCount(0);
     setIsWaveformZoomed(false); // Reset zoom when clearing loop
   };
 
-  const handleZoomToggle = () => {
-    if (loopStart !== null && loopEnd !== null) {
-      setIsWaveformZoomed(!isWaveformZoomed);
+  // Saved regions are written straight back to the open track's library record
+  const updateLoopRegions = (regions: LoopRegion[]) => {
+    setLoopRegions(regions);
+    const id = loadedTrackIdRef.current;
+    if (id) {
+      updateTrack(id, { loopRegions: regions }).catch(error => {
+        console.warn('Failed to save loop regions:', error);
+      });
     }
   };
 
-  const getNudgeIncrement = () => {
-    if (isAudio) {
-      return 0.005; // 5ms precision for audio
-    } else {
-      // For video, try to detect frame rate or use default 60fps equivalent
-      return 1/60; // ~0.017s for 60fps equivalent
+  // Saved video views are stored with the track like loop regions
+  const updateSavedViewports = (viewports: SavedVideoViewport[]) => {
+    setSavedViewports(viewports);
+    const id = loadedTrackIdRef.current;
+    if (id) {
+      updateTrack(id, { videoViewports: viewports }).catch(error => {
+        console.warn('Failed to save video views:', error);
+      });
     }
   };
 
-  const handleNudgeLoopStart = (direction: 'left' | 'right') => {
-    if (loopStart === null) return;
-    
-    const increment = getNudgeIncrement();
-    const newTime = direction === 'left' 
-      ? Math.max(0, loopStart - increment)
-      : Math.min(loopEnd !== null ? loopEnd : duration, loopStart + increment);
-    
-    setLoopStart(newTime);
-    
-    // Update current playback position for immediate feedback
-    if (isAudio) {
-      const activeLooper = useWorkletAudio ? workletLooper.current : webAudioLooper.current;
-      if (activeLooper) {
-        activeLooper.seek(newTime);
+  const handleSaveViewport = () => {
+    updateSavedViewports([...savedViewports, createSavedViewport(savedViewports, videoViewport)]);
+  };
+
+  const handleApplyViewport = (saved: SavedVideoViewport) => {
+    setVideoViewport({ mirrored: saved.mirrored, zoom: saved.zoom, panX: saved.panX, panY: saved.panY });
+  };
+
+  const handleDeleteViewport = (id: string) => {
+    updateSavedViewports(savedViewports.filter(saved => saved.id !== id));
+  };
+
+  const handleSaveLoopRegion = () => {
+    if (loopStart === null || loopEnd === null) return;
+    const name = musicalGrid
+      ? `Bars ${formatBarBeat(musicalGrid, loopStart).split('.')[0]}–${formatBarBeat(musicalGrid, Math.max(loopStart, loopEnd - 0.01)).split('.')[0]}`
+      : `Loop ${loopRegions.length + 1}`;
+    const region = createLoopRegion(loopRegions, name, loopStart, loopEnd);
+    updateLoopRegions([...loopRegions, region]);
+    setActiveLoopRegionId(region.id);
+  };
+
+  const handleSelectLoopRegion = (region: LoopRegion) => {
+    markerEditRef.current.start++;
+    markerEditRef.current.end++;
+    setLoopStart(region.start);
+    setLoopEnd(region.end);
+    setIsABLooping(true);
+    setActiveLoopRegionId(region.id);
+    seekTo(region.start);
+  };
+
+  const handleRenameLoopRegion = (id: string, name: string) => {
+    const trimmed = name.trim();
+    if (!trimmed) return;
+    updateLoopRegions(loopRegions.map(region => region.id === id ? { ...region, name: trimmed } : region));
+  };
+
+  const handleRecolorLoopRegion = (id: string) => {
+    updateLoopRegions(loopRegions.map(region => {
+      if (region.id !== id) return region;
+      const index = LOOP_REGION_COLORS.indexOf(region.color);
+      return { ...region, color: LOOP_REGION_COLORS[(index + 1) % LOOP_REGION_COLORS.length] };
+    }));
+  };
+
+  const handleDeleteLoopRegion = (id: string) => {
+    updateLoopRegions(loopRegions.filter(region => region.id !== id));
+    if (activeLoopRegionId === id) setActiveLoopRegionId(null);
+  };
+
+  const showTakeVideo = isRecording ? recordVideo : activeTake?.hasVideo === true;
+  const canRecordTakes = hasMedia && activeLoop !== null && loadedTrackId !== null;
+
+  // The recorder starts before the loop so the take holds everything from A onwards, count-in included
+  const handleRecordTake = async () => {
+    const looper = looperRef.current;
+    if (!looper || !activeLoop) return;
+    if (isRecording) {
+      await finishTake();
+      return;
+    }
+
+    try {
+      takeMediaRef.current?.pause();
+      setIsComparing(false);
+      await startRecording({
+        video: recordVideo,
+        loopStart: activeLoop.start,
+        loopEnd: activeLoop.end,
+        speed: speed[0] / 100,
+        latency: (latency.profile?.roundTripMs ?? 0) / 1000
+      });
+      metronome.cancelCountIn();
+      setIsPlaying(true);
+      if (countIn) {
+        await playAfterCountIn(activeLoop.start);
+      } else {
+        await looper.pause();
+        await looper.seek(activeLoop.start);
+        await looper.play();
       }
-    } else if (mediaRef.current) {
-      mediaRef.current.currentTime = newTime;
-      setCurrentTime(newTime);
+      markLoopStart();
+    } catch (error) {
+      console.error('Recording failed to start:', error);
+      setIsPlaying(false);
+      await stopRecording().catch(() => null);
     }
   };
 
-  const handleNudgeLoopEnd = (direction: 'left' | 'right') => {
-    if (loopEnd === null) return;
-    
-    const increment = getNudgeIncrement();
-    const newTime = direction === 'left' 
-      ? Math.max(loopStart !== null ? loopStart : 0, loopEnd - increment)
-      : Math.min(duration, loopEnd + increment);
-    
-    setLoopEnd(newTime);
-    
-    // Update current playback position for immediate feedback
-    if (isAudio) {
-      const activeLooper = useWorkletAudio ? workletLooper.current : webAudioLooper.current;
-      if (activeLooper) {
-        activeLooper.seek(newTime);
-      }
-    } else if (mediaRef.current) {
-      mediaRef.current.currentTime = newTime;
-      setCurrentTime(newTime);
+  const finishTake = async () => {
+    metronome.cancelCountIn();
+    looperRef.current?.pause();
+    setIsPlaying(false);
+    try {
+      const take = await stopRecording();
+      if (take) selectTake(take.id);
+    } catch (error) {
+      console.error('Failed to save take:', error);
     }
   };
 
-  const toggleFullscreen = async () => {
-    if (!videoContainerRef.current) return;
+  // The take starts at its lead-in while the loop starts at A, at the speed it was recorded
+  const handleCompareTake = async () => {
+    const looper = looperRef.current;
+    const media = takeMediaRef.current;
+    if (!looper || !media || !activeTake || !activeLoop) return;
+    if (isComparing) {
+      media.pause();
+      looper.pause();
+      setIsPlaying(false);
+      setIsComparing(false);
+      return;
+    }
 
     try {
-      if (!isFullscreen) {
-        // Enter fullscreen
-        if (videoContainerRef.current.requestFullscreen) {
+      metronome.cancelCountIn();
+      await looper.pause();
+      setSpeed([Math.round(activeTake.speed * 100)]);
+      looper.setPlaybackRate(activeTake.speed);
+      looper.setVolume((volume[0] / 100) * takeBalanceGains(takeBalance).original);
+      await looper.seek(activeLoop.start);
+      media.currentTime = activeTake.leadIn + (activeTake.latency ?? 0);
+      await Promise.all([media.play(), looper.play()]);
+      setIsPlaying(true);
+      setIsComparing(true);
+    } catch (error) {
+      console.error('Take playback failed:', error);
+      media.pause();
+    }
+  };
+
+  const handleTakeEnded = () => {
+    if (!isComparing) return;
+    looperRef.current?.pause();
+    setIsPlaying(false);
+    setIsComparing(false);
+  };
+
+  const handleSelectTake = (take: LoopTake) => {
+    if (isComparing) {
+      takeMediaRef.current?.pause();
+      looperRef.current?.pause();
+      setIsPlaying(false);
+      setIsComparing(false);
+    }
+    selectTake(take.id === activeTake?.id ? null : take.id);
+  };
+
+  const handleZoomToggle = () => {
+    if (loopStart !== null && loopEnd !== null) {
+      setIsWaveformZoomed(!isWaveformZoomed);
+    }
+  };
+
+  const videoFrameRate = frameRate ?? DEFAULT_VIDEO_FRAME_RATE;
+
+  const getNudgeIncrement = () => {
+    if (isAudio) {
+      return 0.005; // 5ms precision for audio
+    } else {
+      return 1 / videoFrameRate;
+    }
+  };
+
+  // With snapping on, nudges step to the next snap point instead of a fixed increment;
+  // video markers step between frame boundaries
+  const getNudgeTarget = async (time: number, direction: 'left' | 'right') => {
+    const stepped = await snap(time, snapMode, direction === 'left' ? 'previous' : 'next');
+    if (stepped !== null) return stepped;
+
+    if (!isAudio) {
+      const frame = Math.round(time * videoFrameRate) + (direction === 'left' ? -1 : 1);
+      return frame / videoFrameRate;
+    }
+
+    const increment = getNudgeIncrement();
+    return direction === 'left' ? time - increment : time + increment;
+  };
+
+  // Frame-by-frame playhead stepping for video, pausing first so the frame holds
+  const handleStepFrame = (direction: 'left' | 'right') => {
+    const looper = looperRef.current;
+    if (!isFrameStepper(looper)) return;
+    if (isPlaying) {
+      looper.pause();
+      setIsPlaying(false);
+    }
+    setCurrentTime(looper.stepFrames(direction === 'left' ? -1 : 1));
+  };
+
+  // Nudges run one after another from the latest markers, so quick repeats each take a step
+  const loopPointsRef = useRef({ start: loopStart, end: loopEnd });
+  loopPointsRef.current = { start: loopStart, end: loopEnd };
+  const nudgeQueueRef = useRef<Promise<void>>(Promise.resolve());
+
+  const queueNudge = (nudge: () => Promise<void>) => {
+    nudgeQueueRef.current = nudgeQueueRef.current
+      .then(nudge)
+      .catch(error => console.warn('Failed to nudge loop marker:', error));
+  };
+
+  const handleNudgeLoopStart = (direction: 'left' | 'right') => queueNudge(async () => {
+    const { start } = loopPointsRef.current;
+    if (start === null) return;
+    
+    const target = await getNudgeTarget(start, direction);
+    const { end } = loopPointsRef.current;
+    const newTime = Math.max(0, Math.min(end !== null ? end : duration, target));
+    
+    loopPointsRef.current = { start: newTime, end };
+    markerEditRef.current.start++;
+    setLoopStart(newTime);
+    
+    // Update current playback position for immediate feedback
+    seekTo(newTime);
+  });
+
+  const handleNudgeLoopEnd = (direction: 'left' | 'right') => queueNudge(async () => {
+    const { end } = loopPointsRef.current;
+    if (end === null) return;
+    
+    const target = await getNudgeTarget(end, direction);
+    const { start } = loopPointsRef.current;
+    const newTime = Math.max(start !== null ? start : 0, Math.min(duration, target));
+    
+    loopPointsRef.current = { start, end: newTime };
+    markerEditRef.current.end++;
+    setLoopEnd(newTime);
+    
+    // Update current playback position for immediate feedback
+    seekTo(newTime);
+  });
+
+  // Bar edits work in beat positions so they follow tempo drift in the detected grid
+  const applyMusicalLoop = (startPosition: number, endPosition: number) => {
+    if (!musicalGrid) return null;
+    const start = Math.max(0, beatPositionToTime(musicalGrid, startPosition));
+    const end = Math.min(duration, beatPositionToTime(musicalGrid, endPosition));
+    if (end <= start) return null;
+
+    markerEditRef.current.start++;
+    markerEditRef.current.end++;
+    setLoopStart(start);
+    setLoopEnd(end);
+    return start;
+  };
+
+  const handleSetLoopBars = (bars: number) => {
+    if (!musicalGrid) return;
+    const anchor = loopStart !== null ? loopStart : currentTime;
+    const startPosition = Math.round(timeToBeatPosition(musicalGrid, anchor));
+    applyMusicalLoop(startPosition, startPosition + bars * musicalGrid.beatsPerBar);
+  };
+
+  const handleShiftLoopByBar = (direction: 'left' | 'right') => {
+    if (!musicalGrid || loopStart === null || loopEnd === null) return;
+    const shift = (direction === 'left' ? -1 : 1) * musicalGrid.beatsPerBar;
+    const startPosition = timeToBeatPosition(musicalGrid, loopStart) + shift;
+    const endPosition = timeToBeatPosition(musicalGrid, loopEnd) + shift;
+
+    // Refuse shifts that would push the loop past either end of the track
+    if (beatPositionToTime(musicalGrid, startPosition) < 0 || beatPositionToTime(musicalGrid, endPosition) > duration) return;
+
+    const start = applyMusicalLoop(startPosition, endPosition);
+    if (start !== null) seekTo(start);
+  };
+
+  const handleScaleLoop = (factor: number) => {
+    if (!musicalGrid || loopStart === null || loopEnd === null) return;
+    const startPosition = timeToBeatPosition(musicalGrid, loopStart);
+    const length = (timeToBeatPosition(musicalGrid, loopEnd) - startPosition) * factor;
+    if (length < 1) return; // keep at least one beat
+    applyMusicalLoop(startPosition, startPosition + length);
+  };
+
+  const toggleFullscreen = async () => {
+    if (!videoContainerRef.current) return;
+
+    try {
+      if (!isFullscreen) {
+        // Enter fullscreen
+        if (videoContainerRef.current.requestFullscreen) {
           await videoContainerRef.current.requestFullscreen();
         } else if ((videoContainerRef.current as any).webkitRequestFullscreen) {
           await (videoContainerRef.current as any).webkitRequestFullscreen();
@@ -1180,7 +1317,7 @@ export default function PlayerInterface() {
       
       // Update every second
       const interval = setInterval(() => {
-        setCurrentSessionTime(currentSessionTime + 1);
+        setTimerState(prev => ({ ...prev, currentSessionTime: prev.currentSessionTime + 1 }));
       }, 1000);
       
       setPlaybackTimerInterval(interval);
@@ -1220,6 +1357,120 @@ export default function PlayerInterface() {
     const seconds = totalSeconds % 60;
     return `${hours}:${minutes.toString().padStart(2, '0')}:${seconds.toString().padStart(2, '0')}`;
   };
+  // Share live practice state with the other tabs and let them drive this player
+  useEffect(() => {
+    publishPracticeState({
+      hasMedia,
+      trackTitle: mediaTitle,
+      isPlaying,
+      speed: speed[0],
+      isABLooping,
+      loopCount,
+      practiceSeconds: totalPlaybackTime + currentSessionTime,
+      rampEnabled: autoSpeedRampEnabled,
+      rampProgramId,
+      rampRun,
+      transposeSemitones,
+      transposeCents,
+      canTranspose: hasMedia && !!looperCapabilities?.pitchShift,
+      lastAccuracy: scoring.lastScore?.accuracy ?? null,
+      averageAccuracy: scoring.averageAccuracy
+    });
+  }, [hasMedia, mediaTitle, isPlaying, speed, isABLooping, loopCount, totalPlaybackTime, currentSessionTime, autoSpeedRampEnabled, rampProgramId, rampRun, transposeSemitones, transposeCents, looperCapabilities, scoring.lastScore, scoring.averageAccuracy]);
+
+  const practiceControlsRef = useRef<PracticeControls | null>(null);
+  practiceControlsRef.current = {
+    setSpeed: (percent: number) => {
+      if (!hasMedia) return;
+      // A fixed speed overrides a running program
+      if (rampRun) handleAutoSpeedRampToggle(false);
+      setSpeed([Math.max(25, Math.min(200, percent))]);
+    },
+    togglePlayback: () => {
+      if (hasMedia) togglePlayPause();
+    },
+    runRampProgram: (programId: string) => {
+      const programs = speedRamp.reloadPrograms();
+      const program = programs.find(candidate => candidate.id === programId);
+      if (!program) return;
+      if (hasMedia) speedRamp.startProgram(program);
+      else speedRamp.setProgramId(program.id);
+    },
+    stopRamp: () => handleAutoSpeedRampToggle(false),
+    setTranspose: (semitones: number, cents: number) => {
+      if (!hasMedia || !looperCapabilities?.pitchShift) return;
+      setTransposeSemitones(Math.max(-12, Math.min(12, semitones)));
+      setTransposeCents(Math.max(-50, Math.min(50, cents)));
+    }
+  };
+
+  useEffect(() => registerPracticeControls(() => practiceControlsRef.current!), []);
+
+  const handleRestart = () => {
+    seekTo(isABLooping && loopStart !== null ? loopStart : 0);
+  };
+
+  // Keyboard, pedal and MIDI commands do what the matching on-screen controls do
+  const runCommand = (command: PlayerCommand) => {
+    switch (command) {
+      case 'togglePlay':
+        togglePlayPause();
+        break;
+      case 'restart':
+        handleRestart();
+        break;
+      case 'setLoopStart':
+        handleSetLoopStart();
+        break;
+      case 'setLoopEnd':
+        handleSetLoopEnd();
+        break;
+      case 'toggleABLoop':
+        toggleABLoop();
+        break;
+      case 'clearLoop':
+        clearLoop();
+        break;
+      case 'nudgeLoopStartBack':
+        handleNudgeLoopStart('left');
+        break;
+      case 'nudgeLoopStartForward':
+        handleNudgeLoopStart('right');
+        break;
+      case 'nudgeLoopEndBack':
+        handleNudgeLoopEnd('left');
+        break;
+      case 'nudgeLoopEndForward':
+        handleNudgeLoopEnd('right');
+        break;
+      case 'speedUp':
+        practiceControlsRef.current?.setSpeed(speed[0] + SPEED_COMMAND_STEP);
+        break;
+      case 'speedDown':
+        practiceControlsRef.current?.setSpeed(speed[0] - SPEED_COMMAND_STEP);
+        break;
+      case 'tapTempo':
+        handleTapTempo();
+        break;
+      case 'toggleMetronome':
+        setMetronomeEnabled(!metronomeEnabled);
+        break;
+      case 'recordTake':
+        if (canRecordTakes) handleRecordTake();
+        break;
+      case 'rampMiss':
+        handleRampMiss();
+        break;
+    }
+  };
+  const playerCommands = usePlayerCommands({ enabled: hasMedia && isActive, onCommand: runCommand });
+  const { startLearning } = playerCommands;
+
+  // A binding being learned would otherwise take the next key pressed on another tab
+  useEffect(() => {
+    if (!isActive) startLearning(null);
+  }, [isActive, startLearning]);
+
   const speedPresets = [{
     label: "50%",
     value: 50
@@ -1301,15 +1552,16 @@ export default function PlayerInterface() {
 
           {/* Video/Audio Display Area - Show when media loaded */}
           {hasMedia && (
+            <div className={cn(showTakeVideo && "grid gap-4 md:grid-cols-2")}>
             <Card className="aspect-video bg-gradient-card border-border shadow-card relative overflow-hidden" ref={videoContainerRef}>
               {mediaUrl && !isAudio && (
                 <video
-                  ref={mediaRef as React.RefObject<HTMLVideoElement>}
+                  ref={mediaRef}
                   src={mediaUrl}
-                  className="w-full h-full object-contain"
+                  className="w-full h-full object-contain touch-none select-none"
+                  style={{ transform: viewportTransform(videoViewport) }}
                   onPlay={() => setIsPlaying(true)}
                   onPause={() => setIsPlaying(false)}
-                  onTimeUpdate={handleTimeUpdate}
                   onLoadedMetadata={handleLoadedMetadata}
                   preload="metadata"
                   controls={false}
@@ -1318,6 +1570,102 @@ export default function PlayerInterface() {
                 />
               )}
               
+              {/* Frame Step Controls */}
+              {mediaUrl && !isAudio && (
+                <div className="absolute bottom-2 left-2 flex items-center gap-1">
+                  <ConditionalTooltip content={tooltipContent.stepFrameBack}>
+                    <Button
+                      variant="secondary"
+                      size="icon"
+                      className="h-8 w-8 bg-black/50 active:bg-black/70 text-white border-none"
+                      onClick={() => handleStepFrame('left')}
+                      aria-label="Previous frame"
+                    >
+                      <StepBack size={16} />
+                    </Button>
+                  </ConditionalTooltip>
+                  <ConditionalTooltip content={tooltipContent.stepFrameForward}>
+                    <Button
+                      variant="secondary"
+                      size="icon"
+                      className="h-8 w-8 bg-black/50 active:bg-black/70 text-white border-none"
+                      onClick={() => handleStepFrame('right')}
+                      aria-label="Next frame"
+                    >
+                      <StepForward size={16} />
+                    </Button>
+                  </ConditionalTooltip>
+                  <span className="px-2 py-1 rounded bg-black/50 text-white text-xs">
+                    {frameRate ? `${frameRate} fps` : "fps…"}
+                  </span>
+                </div>
+              )}
+
+              {/* Mirror, Zoom and Saved Views */}
+              {mediaUrl && !isAudio && (
+                <div className="absolute top-2 left-2 right-14 flex flex-wrap items-center gap-1">
+                  <ConditionalTooltip content={tooltipContent.mirrorVideo}>
+                    <Button
+                      variant="secondary"
+                      size="icon"
+                      className={cn(
+                        "h-8 w-8 bg-black/50 active:bg-black/70 text-white border-none",
+                        videoViewport.mirrored && "bg-primary/80"
+                      )}
+                      onClick={toggleMirror}
+                      aria-label="Mirror video"
+                      aria-pressed={videoViewport.mirrored}
+                    >
+                      <FlipHorizontal2 size={16} />
+                    </Button>
+                  </ConditionalTooltip>
+                  {videoViewport.zoom > 1 && (
+                    <ConditionalTooltip content={tooltipContent.resetVideoZoom}>
+                      <Button
+                        variant="secondary"
+                        size="sm"
+                        className="h-8 px-2 bg-black/50 active:bg-black/70 text-white border-none text-xs"
+                        onClick={resetZoom}
+                      >
+                        {videoViewport.zoom.toFixed(1)}x
+                      </Button>
+                    </ConditionalTooltip>
+                  )}
+                  {!isDefaultViewport(videoViewport) && (
+                    <ConditionalTooltip content={tooltipContent.saveVideoView}>
+                      <Button
+                        variant="secondary"
+                        size="icon"
+                        className="h-8 w-8 bg-black/50 active:bg-black/70 text-white border-none"
+                        onClick={handleSaveViewport}
+                        aria-label="Save view"
+                      >
+                        <Save size={16} />
+                      </Button>
+                    </ConditionalTooltip>
+                  )}
+                  {savedViewports.map(saved => (
+                    <ConditionalTooltip key={saved.id} content={tooltipContent.savedVideoView}>
+                      <div className="flex items-center rounded bg-black/50 text-white text-xs">
+                        <button
+                          className="h-8 pl-2 pr-1"
+                          onClick={() => handleApplyViewport(saved)}
+                        >
+                          {saved.name}
+                        </button>
+                        <button
+                          className="h-8 px-1 opacity-70 hover:opacity-100"
+                          onClick={() => handleDeleteViewport(saved.id)}
+                          aria-label={`Delete ${saved.name}`}
+                        >
+                          <X size={12} />
+                        </button>
+                      </div>
+                    </ConditionalTooltip>
+                  ))}
+                </div>
+              )}
+
               {/* Fullscreen Toggle Button */}
               {mediaUrl && !isAudio && (
                 <ConditionalTooltip content={tooltipContent.fullscreen}>
@@ -1331,21 +1679,6 @@ export default function PlayerInterface() {
                   </Button>
                 </ConditionalTooltip>
               )}
-              {mediaUrl && isAudio && (
-                <>
-                  <audio
-                    ref={mediaRef as React.RefObject<HTMLAudioElement>}
-                    src={mediaUrl}
-                    className="hidden"
-                    onPlay={() => setIsPlaying(true)}
-                    onPause={() => setIsPlaying(false)}
-                    onTimeUpdate={handleTimeUpdate}
-                    onLoadedMetadata={handleLoadedMetadata}
-                    preload="metadata"
-                    controls={false}
-                  />
-                </>
-              )}
               {mediaUrl && isAudio && (
                 <div className="flex items-center justify-center h-full">
                   <div className="text-center">
@@ -1357,56 +1690,86 @@ export default function PlayerInterface() {
                 </div>
               )}
             </Card>
+
+            {/* Recorded take, or the camera while recording, next to the original */}
+            <Card className={cn("aspect-video bg-black border-border shadow-card relative overflow-hidden", !showTakeVideo && "hidden")}>
+              {isRecording && recordVideo && (
+                <video ref={takePreviewRef} className="w-full h-full object-contain" muted autoPlay playsInline />
+              )}
+              {activeTakeUrl && (
+                <video
+                  ref={takeMediaRef}
+                  src={activeTakeUrl}
+                  className={cn("w-full h-full object-contain", isRecording && "hidden")}
+                  onEnded={handleTakeEnded}
+                  preload="auto"
+                  playsInline
+                />
+              )}
+            </Card>
+            </div>
           )}
 
           {/* Unified Waveform + Progress Display */}
           <Card className="p-4 bg-gradient-card border-border">
             <div className="space-y-2">
               <div className="flex items-center justify-between text-sm text-muted-foreground">
-                <span>{formatTime(currentTime)}</span>
-                <span>Waveform & Progress</span>
-                <span>{formatTime(duration)}</span>
+                <ConditionalTooltip content={tooltipContent.positionFormat}>
+                  <button
+                    type="button"
+                    onClick={() => setPositionFormat(positionFormat === 'bars' ? 'time' : 'bars')}
+                    disabled={!musicalGrid}
+                    className="tabular-nums disabled:cursor-default"
+                  >
+                    {formatPosition(currentTime)}
+                  </button>
+                </ConditionalTooltip>
+                <ConditionalTooltip content={tooltipContent.waveformView}>
+                  <div className="flex items-center gap-1">
+                    {(Object.keys(WAVEFORM_VIEW_LABELS) as WaveformViewMode[]).map(mode => (
+                      <Button
+                        key={mode}
+                        variant={waveformView === mode ? "default" : "outline"}
+                        size="sm"
+                        onClick={() => setWaveformView(mode)}
+                        disabled={!hasMedia}
+                        className="h-6 px-2 text-xs"
+                      >
+                        {WAVEFORM_VIEW_LABELS[mode]}
+                      </Button>
+                    ))}
+                  </div>
+                </ConditionalTooltip>
+                <span className="tabular-nums">{formatPosition(duration)}</span>
               </div>
               <WaveformProgressDisplay
                 audioBuffer={audioBuffer}
+                beatGrid={musicalGrid}
+                loopRegions={loopRegions}
+                activeLoopRegionId={activeLoopRegionId}
                 currentTime={currentTime}
                 duration={duration}
                 loopStart={loopStart}
                 loopEnd={loopEnd}
                 onSeek={hasMedia ? (time) => {
-                  if (isAudio) {
-                    const activeLooper = useWorkletAudio ? workletLooper.current : webAudioLooper.current;
-                    if (activeLooper) {
-                      activeLooper.seek(time);
-                    }
-                  } else if (mediaRef.current) {
-                    mediaRef.current.currentTime = time;
-                    setCurrentTime(time);
-                  }
+                  seekTo(time);
                 } : undefined}
                 onMarkerDrag={hasMedia ? (type, time) => {
                   // Handle marker dragging
                   if (type === 'start') {
                     const maxTime = loopEnd !== null ? loopEnd : duration;
-                    setLoopStart(Math.max(0, Math.min(time, maxTime)));
+                    placeMarker('start', Math.max(0, Math.min(time, maxTime)));
                   } else if (type === 'end') {
                     const minTime = loopStart !== null ? loopStart : 0;
-                    setLoopEnd(Math.max(minTime, Math.min(time, duration)));
+                    placeMarker('end', Math.max(minTime, Math.min(time, duration)));
                   }
                   
                   // Real-time scrubbing
-                  if (isAudio) {
-                    const activeLooper = useWorkletAudio ? workletLooper.current : webAudioLooper.current;
-                    if (activeLooper) {
-                      activeLooper.seek(time);
-                    }
-                  } else if (mediaRef.current) {
-                    mediaRef.current.currentTime = time;
-                    setCurrentTime(time);
-                  }
+                  seekTo(time);
                 } : undefined}
                 zoomToLoop={isWaveformZoomed}
-                isZoomed={isWaveformZoomed}
+                onZoomToLoopChange={setIsWaveformZoomed}
+                viewMode={waveformView}
               />
             </div>
           </Card>
@@ -1415,7 +1778,7 @@ export default function PlayerInterface() {
           <Card className="p-4 bg-gradient-card border-border">
             <div className="flex items-center justify-center gap-4 mb-4">
               <ConditionalTooltip content={tooltipContent.restart}>
-                <Button variant="outline" size="icon" className="w-12 h-12" disabled={!hasMedia}>
+                <Button variant="outline" size="icon" className="w-12 h-12" onClick={handleRestart} disabled={!hasMedia}>
                   <RotateCcw size={20} />
                 </Button>
               </ConditionalTooltip>
@@ -1592,7 +1955,282 @@ export default function PlayerInterface() {
                     </Button>
                   </ConditionalTooltip>
                 </div>
+
+                {/* Marker Snapping */}
+                <ConditionalTooltip content={tooltipContent.snapMode}>
+                  <div className={cn(
+                    "flex items-center gap-1",
+                    (!hasMedia || !isSnapReady) && "opacity-40 pointer-events-none"
+                  )}>
+                    <span className="text-xs text-muted-foreground mr-1">Snap</span>
+                    {([
+                      ["off", "Off"],
+                      ["zero-crossing", "Zero"],
+                      ["onset", "Onset"],
+                      ["beat", "Beat"]
+                    ] as const).map(([mode, label]) => (
+                      <Button
+                        key={mode}
+                        variant={snapMode === mode ? "default" : "outline"}
+                        size="sm"
+                        onClick={() => setSnapMode(mode)}
+                        disabled={!hasMedia || !isSnapReady}
+                        className="h-6 px-2 text-xs"
+                      >
+                        {label}
+                      </Button>
+                    ))}
+                  </div>
+                </ConditionalTooltip>
                 
+                {/* Bar-based Loop Editing */}
+                <div className={cn(
+                  "flex flex-wrap items-center justify-center gap-1",
+                  (!hasMedia || !musicalGrid) && "opacity-40 pointer-events-none"
+                )}>
+                  <span className="text-xs text-muted-foreground mr-1">Bars</span>
+                  <ConditionalTooltip content={tooltipContent.shiftLoop}>
+                    <Button
+                      variant="outline"
+                      size="icon"
+                      onClick={() => handleShiftLoopByBar('left')}
+                      disabled={!hasMedia || !musicalGrid || loopStart === null || loopEnd === null}
+                      className="w-6 h-6"
+                    >
+                      <ChevronLeft size={12} />
+                    </Button>
+                  </ConditionalTooltip>
+                  <ConditionalTooltip content={tooltipContent.loopBars}>
+                    <div className="flex gap-1">
+                      {[1, 2, 4, 8].map(bars => (
+                        <Button
+                          key={bars}
+                          variant="outline"
+                          size="sm"
+                          onClick={() => handleSetLoopBars(bars)}
+                          disabled={!hasMedia || !musicalGrid}
+                          className="h-6 px-2 text-xs"
+                        >
+                          {bars}
+                        </Button>
+                      ))}
+                    </div>
+                  </ConditionalTooltip>
+                  <ConditionalTooltip content={tooltipContent.shiftLoop}>
+                    <Button
+                      variant="outline"
+                      size="icon"
+                      onClick={() => handleShiftLoopByBar('right')}
+                      disabled={!hasMedia || !musicalGrid || loopStart === null || loopEnd === null}
+                      className="w-6 h-6"
+                    >
+                      <ChevronRight size={12} />
+                    </Button>
+                  </ConditionalTooltip>
+                  <ConditionalTooltip content={tooltipContent.scaleLoop}>
+                    <div className="flex gap-1 ml-1">
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => handleScaleLoop(0.5)}
+                        disabled={!hasMedia || !musicalGrid || loopStart === null || loopEnd === null}
+                        className="h-6 px-2 text-xs"
+                      >
+                        ÷2
+                      </Button>
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => handleScaleLoop(2)}
+                        disabled={!hasMedia || !musicalGrid || loopStart === null || loopEnd === null}
+                        className="h-6 px-2 text-xs"
+                      >
+                        ×2
+                      </Button>
+                    </div>
+                  </ConditionalTooltip>
+                </div>
+
+                {loopStart !== null && loopEnd !== null && (
+                  <div className="text-xs text-muted-foreground tabular-nums">
+                    A {formatPosition(loopStart)} – B {formatPosition(loopEnd)}
+                    {musicalGrid && ` · ${Math.round(((timeToBeatPosition(musicalGrid, loopEnd) - timeToBeatPosition(musicalGrid, loopStart)) / musicalGrid.beatsPerBar) * 100) / 100} bars`}
+                  </div>
+                )}
+
+                {/* Saved Loop Regions */}
+                <div className="w-full space-y-2">
+                  <div className="flex items-center justify-between">
+                    <span className="text-xs text-muted-foreground">Saved loops</span>
+                    <ConditionalTooltip content={tooltipContent.saveLoopRegion}>
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={handleSaveLoopRegion}
+                        disabled={!hasMedia || loopStart === null || loopEnd === null}
+                        className="h-6 px-2 text-xs"
+                      >
+                        <BookmarkPlus size={12} className="mr-1" />
+                        Save
+                      </Button>
+                    </ConditionalTooltip>
+                  </div>
+                  {loopRegions.map(region => (
+                    <div
+                      key={region.id}
+                      className={cn(
+                        "flex items-center gap-2 rounded-md border px-2 py-1",
+                        region.id === activeLoopRegionId ? "border-primary" : "border-border"
+                      )}
+                    >
+                      <ConditionalTooltip content={tooltipContent.loopRegionColor}>
+                        <button
+                          type="button"
+                          aria-label={`Change color of ${region.name}`}
+                          onClick={() => handleRecolorLoopRegion(region.id)}
+                          className="w-3 h-3 rounded-full shrink-0"
+                          style={{ backgroundColor: region.color }}
+                        />
+                      </ConditionalTooltip>
+                      <input
+                        key={`${region.id}-${region.name}`}
+                        defaultValue={region.name}
+                        onBlur={(e) => handleRenameLoopRegion(region.id, e.target.value)}
+                        onKeyDown={(e) => { if (e.key === 'Enter') e.currentTarget.blur(); }}
+                        aria-label="Loop name"
+                        className="flex-1 min-w-0 bg-transparent text-sm outline-none"
+                      />
+                      <span className="text-xs text-muted-foreground tabular-nums whitespace-nowrap">
+                        {formatPosition(region.start)}–{formatPosition(region.end)}
+                      </span>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        onClick={() => handleSelectLoopRegion(region)}
+                        aria-label={`Loop ${region.name}`}
+                        className="w-6 h-6"
+                      >
+                        <Play size={12} />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        onClick={() => handleDeleteLoopRegion(region.id)}
+                        aria-label={`Delete ${region.name}`}
+                        className="w-6 h-6"
+                      >
+                        <X size={12} />
+                      </Button>
+                    </div>
+                  ))}
+                </div>
+
+                {/* Recorded Takes */}
+                <div className="w-full space-y-2">
+                  <div className="flex items-center justify-between">
+                    <span className="text-xs text-muted-foreground">Takes</span>
+                    <div className="flex items-center gap-2">
+                      <ConditionalTooltip content={tooltipContent.recordVideo}>
+                        <div className="flex items-center gap-1">
+                          <Switch
+                            id="record-video"
+                            checked={recordVideo}
+                            onCheckedChange={setRecordVideo}
+                            disabled={!canRecordTakes || isRecording}
+                            className="data-[state=unchecked]:bg-gray-600"
+                          />
+                          <Label htmlFor="record-video" className="text-xs text-muted-foreground">Camera</Label>
+                        </div>
+                      </ConditionalTooltip>
+                      <ConditionalTooltip content={tooltipContent.recordTake}>
+                        <Button
+                          variant={isRecording ? "destructive" : "outline"}
+                          size="sm"
+                          onClick={handleRecordTake}
+                          disabled={!canRecordTakes}
+                          className="h-6 px-2 text-xs"
+                        >
+                          {isRecording ? <Square size={12} className="mr-1" /> : <Mic size={12} className="mr-1" />}
+                          {isRecording ? "Stop" : "Record"}
+                        </Button>
+                      </ConditionalTooltip>
+                    </div>
+                  </div>
+                  {hasMedia && !activeLoop && (
+                    <div className="text-xs text-muted-foreground">Set an A-B loop to record takes over it</div>
+                  )}
+                  {takes.map(take => (
+                    <div
+                      key={take.id}
+                      className={cn(
+                        "flex items-center gap-2 rounded-md border px-2 py-1",
+                        take.id === activeTake?.id ? "border-primary" : "border-border"
+                      )}
+                    >
+                      <input
+                        key={`${take.id}-${take.name}`}
+                        defaultValue={take.name}
+                        onBlur={(e) => renameTake(take.id, e.target.value)}
+                        onKeyDown={(e) => { if (e.key === 'Enter') e.currentTarget.blur(); }}
+                        aria-label="Take name"
+                        className="flex-1 min-w-0 bg-transparent text-sm outline-none"
+                      />
+                      <span className="text-xs text-muted-foreground tabular-nums whitespace-nowrap">
+                        {formatTime(take.duration)} · {Math.round(take.speed * 100)}%{take.hasVideo ? " · video" : ""}
+                      </span>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        onClick={() => handleSelectTake(take)}
+                        aria-label={`Select ${take.name}`}
+                        className={cn("w-6 h-6", take.id === activeTake?.id && "text-primary")}
+                      >
+                        <Play size={12} />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        onClick={() => removeTake(take.id)}
+                        aria-label={`Delete ${take.name}`}
+                        className="w-6 h-6"
+                      >
+                        <Trash2 size={12} />
+                      </Button>
+                    </div>
+                  ))}
+                  {activeTake && activeLoop && (
+                    <div className="flex items-center gap-3">
+                      <ConditionalTooltip content={tooltipContent.compareTake}>
+                        <Button
+                          variant={isComparing ? "default" : "outline"}
+                          size="sm"
+                          onClick={handleCompareTake}
+                          disabled={!activeTakeUrl || isRecording}
+                          className="h-6 px-2 text-xs"
+                        >
+                          {isComparing ? <Pause size={12} className="mr-1" /> : <Play size={12} className="mr-1" />}
+                          A/B
+                        </Button>
+                      </ConditionalTooltip>
+                      <span className="text-xs text-muted-foreground">Original</span>
+                      <ConditionalTooltip content={tooltipContent.takeBalance}>
+                        <div className="flex-1">
+                          <DraggableSlider
+                            value={Math.round(takeBalance * 100)}
+                            onChange={(v) => setTakeBalance(Math.round(v) / 100)}
+                            min={0}
+                            max={100}
+                            step={5}
+                            className="w-full"
+                            aria-label="Original and take balance"
+                          />
+                        </div>
+                      </ConditionalTooltip>
+                      <span className="text-xs text-muted-foreground">Take</span>
+                    </div>
+                  )}
+                </div>
+
                 {loopCount > 0 && (
                   <div className="text-xs text-muted-foreground">
                     Loop count: {loopCount}
@@ -1675,6 +2313,428 @@ export default function PlayerInterface() {
               </div>
             </div>
 
+            {engineNotice && (
+              <p className="mt-4 text-xs text-yellow-400">{engineNotice}</p>
+            )}
+
+            {/* Transpose Controls */}
+            <div className="mt-4 pt-4 border-t border-border">
+              <div className="flex items-center justify-between mb-3">
+                <label className="text-sm font-medium">Transpose</label>
+                <span className="text-primary font-bold">
+                  {transposeSemitones > 0 ? "+" : ""}{transposeSemitones} st{transposeCents !== 0 && ` ${transposeCents > 0 ? "+" : ""}${transposeCents}¢`}
+                </span>
+              </div>
+              <ConditionalTooltip content={tooltipContent.transpose}>
+                <div className={cn(
+                  "grid grid-cols-2 gap-4",
+                  (!hasMedia || !looperCapabilities?.pitchShift) && "opacity-40 pointer-events-none"
+                )}>
+                  <SpeedRampControl
+                    label="Semitones"
+                    value={transposeSemitones}
+                    onChange={setTransposeSemitones}
+                    min={-12}
+                    max={12}
+                    step={1}
+                    disabled={!hasMedia || !looperCapabilities?.pitchShift}
+                  />
+                  <SpeedRampControl
+                    label="Cents"
+                    value={transposeCents}
+                    onChange={setTransposeCents}
+                    min={-50}
+                    max={50}
+                    step={5}
+                    disabled={!hasMedia || !looperCapabilities?.pitchShift}
+                  />
+                </div>
+              </ConditionalTooltip>
+            </div>
+
+            {/* Video sound routing */}
+            {hasMedia && !isAudio && (
+              <div className="mt-4 pt-4 border-t border-border flex items-center gap-3">
+                <ConditionalTooltip content={tooltipContent.videoAudioEngine}>
+                  <Switch
+                    id="video-audio-engine"
+                    checked={videoAudioEngine}
+                    onCheckedChange={setVideoAudioEngine}
+                    className="data-[state=unchecked]:bg-gray-600"
+                  />
+                </ConditionalTooltip>
+                <Label htmlFor="video-audio-engine" className="text-sm font-medium">
+                  Seamless video sound
+                </Label>
+              </div>
+            )}
+
+            {/* Loop Seam Crossfade */}
+            <div className="mt-4 pt-4 border-t border-border">
+              <div className="flex items-center justify-between mb-3">
+                <label className="text-sm font-medium">Seam Crossfade</label>
+                <span className="text-primary font-bold">
+                  {crossfadeCurve === "none" ? "Off" : `${crossfadeMs} ms`}
+                </span>
+              </div>
+              <ConditionalTooltip content={tooltipContent.crossfade}>
+                <div className={cn(
+                  "grid grid-cols-2 gap-4",
+                  (!hasMedia || !looperCapabilities?.crossfade) && "opacity-40 pointer-events-none"
+                )}>
+                  <SpeedRampControl
+                    label="Length (ms)"
+                    value={crossfadeMs}
+                    onChange={setCrossfadeMs}
+                    min={1}
+                    max={50}
+                    step={1}
+                    disabled={!hasMedia || !looperCapabilities?.crossfade || crossfadeCurve === "none"}
+                  />
+                  <div className="flex flex-col items-center gap-1">
+                    <span className="text-xs text-muted-foreground">Curve</span>
+                    <div className="flex gap-1">
+                      {([
+                        ["none", "Off"],
+                        ["linear", "Linear"],
+                        ["equal-power", "Equal"]
+                      ] as const).map(([curve, label]) => (
+                        <Button
+                          key={curve}
+                          variant={crossfadeCurve === curve ? "default" : "outline"}
+                          size="sm"
+                          onClick={() => setCrossfadeCurve(curve)}
+                          disabled={!hasMedia || !looperCapabilities?.crossfade}
+                          className="h-6 px-2 text-xs"
+                        >
+                          {label}
+                        </Button>
+                      ))}
+                    </div>
+                  </div>
+                </div>
+              </ConditionalTooltip>
+            </div>
+
+            {/* Practice Filters */}
+            <div className="mt-4 pt-4 border-t border-border">
+              <div className="flex items-center justify-between mb-3">
+                <label className="text-sm font-medium">Practice Filters</label>
+                <span className="text-primary font-bold">{isPracticeFilterActive(filters) ? "On" : "Off"}</span>
+              </div>
+              <div className={cn(
+                "space-y-3",
+                (!hasMedia || !looperCapabilities?.filters) && "opacity-40 pointer-events-none"
+              )}>
+                <ConditionalTooltip content={tooltipContent.filterCenter}>
+                  <div className="flex items-center gap-1">
+                    <span className="text-xs text-muted-foreground mr-1">Center</span>
+                    {(Object.keys(CENTER_CHANNEL_LABELS) as CenterChannelMode[]).map(mode => (
+                      <Button
+                        key={mode}
+                        variant={filters.center === mode ? "default" : "outline"}
+                        size="sm"
+                        onClick={() => setFilters({ center: mode })}
+                        disabled={!hasMedia || !looperCapabilities?.filters}
+                        className="h-6 px-2 text-xs"
+                      >
+                        {CENTER_CHANNEL_LABELS[mode]}
+                      </Button>
+                    ))}
+                  </div>
+                </ConditionalTooltip>
+                <ConditionalTooltip content={tooltipContent.filterFocus}>
+                  <div className="space-y-2">
+                    <div className="flex items-center gap-2">
+                      <Switch
+                        id="filter-focus"
+                        checked={filters.focus.enabled}
+                        onCheckedChange={(enabled) => setFilters({ focus: { ...filters.focus, enabled } })}
+                        disabled={!hasMedia || !looperCapabilities?.filters}
+                        className="data-[state=unchecked]:bg-gray-600"
+                      />
+                      <Label htmlFor="filter-focus" className="text-xs text-muted-foreground">Frequency focus</Label>
+                    </div>
+                    <div className="grid grid-cols-2 gap-4">
+                      <SpeedRampControl
+                        label="Low (Hz)"
+                        value={filters.focus.lowHz}
+                        onChange={(lowHz) => setFilters({ focus: { ...filters.focus, lowHz } })}
+                        min={20}
+                        max={2000}
+                        step={10}
+                        disabled={!hasMedia || !looperCapabilities?.filters || !filters.focus.enabled}
+                      />
+                      <SpeedRampControl
+                        label="High (Hz)"
+                        value={filters.focus.highHz}
+                        onChange={(highHz) => setFilters({ focus: { ...filters.focus, highHz } })}
+                        min={200}
+                        max={16000}
+                        step={100}
+                        disabled={!hasMedia || !looperCapabilities?.filters || !filters.focus.enabled}
+                      />
+                    </div>
+                  </div>
+                </ConditionalTooltip>
+                <ConditionalTooltip content={tooltipContent.filterEq}>
+                  <div className="flex items-center gap-1">
+                    <span className="text-xs text-muted-foreground mr-1">EQ</span>
+                    {(Object.keys(EQ_PRESETS) as EqPreset[]).map(preset => (
+                      <Button
+                        key={preset}
+                        variant={filters.eq === preset ? "default" : "outline"}
+                        size="sm"
+                        onClick={() => setFilters({ eq: preset })}
+                        disabled={!hasMedia || !looperCapabilities?.filters}
+                        className="h-6 px-2 text-xs"
+                      >
+                        {EQ_PRESETS[preset].label}
+                      </Button>
+                    ))}
+                  </div>
+                </ConditionalTooltip>
+              </div>
+            </div>
+
+            {/* Metronome */}
+            <div className="mt-4 pt-4 border-t border-border">
+              <div className="flex items-center justify-between mb-3">
+                <div className="flex items-center gap-3">
+                  <ConditionalTooltip content={tooltipContent.metronome}>
+                    <Switch
+                      id="metronome"
+                      checked={metronomeEnabled}
+                      onCheckedChange={setMetronomeEnabled}
+                      disabled={!hasMedia}
+                      className="data-[state=unchecked]:bg-gray-600"
+                    />
+                  </ConditionalTooltip>
+                  <Label htmlFor="metronome" className="text-sm font-medium">
+                    Metronome
+                  </Label>
+                </div>
+                <div className="flex items-center gap-2">
+                  <ConditionalTooltip content={tooltipContent.countIn}>
+                    <Switch
+                      id="count-in"
+                      checked={countIn}
+                      onCheckedChange={setCountIn}
+                      disabled={!hasMedia}
+                      className="data-[state=unchecked]:bg-gray-600"
+                    />
+                  </ConditionalTooltip>
+                  <Label htmlFor="count-in" className="text-xs text-muted-foreground">
+                    Count-in
+                  </Label>
+                </div>
+              </div>
+              <div className={cn(
+                "grid grid-cols-3 gap-4",
+                (!hasMedia || !metronomeEnabled) && "opacity-40 pointer-events-none"
+              )}>
+                <SpeedRampControl
+                  label="Volume"
+                  value={metronomeVolume}
+                  onChange={setMetronomeVolume}
+                  min={0}
+                  max={100}
+                  step={5}
+                  disabled={!hasMedia || !metronomeEnabled}
+                />
+                <div className="flex flex-col items-center gap-1">
+                  <span className="text-xs text-muted-foreground">Subdivision</span>
+                  <ConditionalTooltip content={tooltipContent.subdivision}>
+                    <div className="flex gap-1">
+                      {([
+                        [1, "1/4"],
+                        [2, "1/8"],
+                        [3, "Trip"],
+                        [4, "1/16"]
+                      ] as const).map(([value, label]) => (
+                        <Button
+                          key={value}
+                          variant={subdivision === value ? "default" : "outline"}
+                          size="sm"
+                          onClick={() => setSubdivision(value)}
+                          disabled={!hasMedia || !metronomeEnabled}
+                          className="h-6 px-2 text-xs"
+                        >
+                          {label}
+                        </Button>
+                      ))}
+                    </div>
+                  </ConditionalTooltip>
+                </div>
+                <div className="flex flex-col items-center gap-1">
+                  <span className="text-xs text-muted-foreground">Accent</span>
+                  <ConditionalTooltip content={tooltipContent.accent}>
+                    <Button
+                      variant={accentDownbeats ? "default" : "outline"}
+                      size="sm"
+                      onClick={() => setAccentDownbeats(!accentDownbeats)}
+                      disabled={!hasMedia || !metronomeEnabled}
+                      className="h-6 px-2 text-xs"
+                    >
+                      Downbeats
+                    </Button>
+                  </ConditionalTooltip>
+                </div>
+              </div>
+            </div>
+
+            {/* Latency Calibration */}
+            <div className="mt-4 pt-4 border-t border-border">
+              <div className="flex items-center justify-between mb-3">
+                <label className="text-sm font-medium">Latency</label>
+                <span className="text-primary font-bold">
+                  {latency.profile ? `${latency.profile.roundTripMs} ms` : "Not calibrated"}
+                </span>
+              </div>
+              <div className="flex items-center justify-between gap-4">
+                <div className="text-xs text-muted-foreground min-w-0">
+                  {latency.isCalibrating
+                    ? "Listening for clicks…"
+                    : latency.error
+                      ? latency.error
+                      : latency.profile
+                        ? `${latency.profile.deviceLabel}: ${latency.profile.outputMs} ms out, ${latency.profile.inputMs} ms in`
+                        : `Measure the delay of ${latency.device?.label ?? "this device"} so recordings and clicks line up`}
+                </div>
+                <div className="flex items-center gap-1 shrink-0">
+                  <ConditionalTooltip content={tooltipContent.calibrateLatency}>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={latency.calibrate}
+                      disabled={latency.isCalibrating || isRecording}
+                      className="h-6 px-2 text-xs"
+                    >
+                      <Mic size={12} className="mr-1" />
+                      Calibrate
+                    </Button>
+                  </ConditionalTooltip>
+                  {latency.profile && (
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      onClick={latency.reset}
+                      aria-label="Forget calibration"
+                      className="w-6 h-6"
+                    >
+                      <X size={12} />
+                    </Button>
+                  )}
+                </div>
+              </div>
+              {latency.profile && (
+                <ConditionalTooltip content={tooltipContent.outputLatency}>
+                  <div className="mt-3">
+                    <SpeedRampControl
+                      label="Output (ms)"
+                      value={latency.profile.outputMs}
+                      onChange={latency.setOutputMs}
+                      min={0}
+                      max={500}
+                      step={5}
+                      disabled={latency.isCalibrating}
+                    />
+                  </div>
+                </ConditionalTooltip>
+              )}
+            </div>
+
+            {/* Play-along Scoring */}
+            <div className="mt-4 pt-4 border-t border-border">
+              <div className="flex items-center justify-between mb-3">
+                <div className="flex items-center gap-3">
+                  <ConditionalTooltip content={tooltipContent.playAlongScoring}>
+                    <Switch
+                      id="play-along-scoring"
+                      checked={scoringEnabled && canScore}
+                      onCheckedChange={setScoringEnabled}
+                      disabled={!canScore}
+                      className="data-[state=unchecked]:bg-gray-600"
+                    />
+                  </ConditionalTooltip>
+                  <Label htmlFor="play-along-scoring" className="text-sm font-medium">
+                    Accuracy
+                  </Label>
+                </div>
+                <span className="text-primary font-bold">
+                  {scoring.lastScore ? `${scoring.lastScore.accuracy}%` : "–"}
+                </span>
+              </div>
+              <div className="text-xs text-muted-foreground">
+                {hasMedia && !canScore
+                  ? "Scoring needs the Web Audio engine"
+                  : scoring.error
+                    ? scoring.error
+                    : !scoringEnabled
+                      ? "Score each pass of the loop from the microphone"
+                      : !activeLoop
+                        ? "Set an A-B loop to score it"
+                        : !scoring.isListening
+                          ? "Listens once the loop plays"
+                          : scoring.lastScore === undefined
+                            ? scoring.isReferenceReady ? "Listening – play along with the loop" : "Reading the loop…"
+                            : scoring.lastScore === null
+                              ? "Nothing heard on the last pass"
+                              : `Timing ${scoring.lastScore.timing}% · Pitch ${scoring.lastScore.pitch ?? "–"}% · ${scoring.lastScore.onTimeNotes}/${scoring.lastScore.playedNotes} notes on time${
+                                  scoring.lastScore.meanOffsetMs
+                                    ? ` · ${Math.abs(scoring.lastScore.meanOffsetMs)} ms ${scoring.lastScore.meanOffsetMs > 0 ? "late" : "early"}`
+                                    : ""
+                                }`}
+              </div>
+              {scoring.passes.length > 0 && (
+                <div className="flex items-center gap-3 mt-3">
+                  <div className="flex items-end gap-0.5 h-6 flex-1">
+                    {scoring.passes.slice(-24).map((score, index) => (
+                      <div
+                        key={index}
+                        className={cn(
+                          "w-2 rounded-sm",
+                          !score ? "bg-secondary" : score.accuracy >= accuracyThreshold ? "bg-green-500" : "bg-primary/50"
+                        )}
+                        style={{ height: `${score ? Math.max(8, score.accuracy) : 8}%` }}
+                      />
+                    ))}
+                  </div>
+                  {scoring.averageAccuracy !== null && (
+                    <span className="text-xs text-muted-foreground shrink-0">Average {scoring.averageAccuracy}%</span>
+                  )}
+                </div>
+              )}
+              <div className={cn(
+                "flex items-center gap-3 mt-3",
+                !(scoringEnabled && canScore) && "opacity-40 pointer-events-none"
+              )}>
+                <ConditionalTooltip content={tooltipContent.rampGate}>
+                  <Switch
+                    id="ramp-gate"
+                    checked={gateRamp}
+                    onCheckedChange={setGateRamp}
+                    disabled={!(scoringEnabled && canScore)}
+                    className="data-[state=unchecked]:bg-gray-600"
+                  />
+                </ConditionalTooltip>
+                <Label htmlFor="ramp-gate" className="text-xs text-muted-foreground flex-1">
+                  Ramp only on accurate loops
+                </Label>
+                <div className="w-32">
+                  <SpeedRampControl
+                    label="Threshold %"
+                    value={accuracyThreshold}
+                    onChange={setAccuracyThreshold}
+                    min={50}
+                    max={100}
+                    step={5}
+                    disabled={!(scoringEnabled && canScore) || !gateRamp}
+                  />
+                </div>
+              </div>
+            </div>
+
             {/* Auto-SpeedRamp Controls */}
             <div className="mt-4 pt-4 border-t border-border">
             <div className="flex items-center justify-start gap-3 mb-4">
@@ -1682,7 +2742,7 @@ export default function PlayerInterface() {
                 <Switch
                   id="auto-speed-ramp"
                   checked={autoSpeedRampEnabled}
-                  onCheckedChange={setAutoSpeedRampEnabled}
+                  onCheckedChange={handleAutoSpeedRampToggle}
                   disabled={!hasMedia}
                   className="data-[state=unchecked]:bg-gray-600"
                 />
@@ -1690,6 +2750,26 @@ export default function PlayerInterface() {
               <Label htmlFor="auto-speed-ramp" className="text-sm font-medium">
                 Auto-SpeedRamp
               </Label>
+              <ConditionalTooltip content={tooltipContent.rampProgram}>
+                <div>
+                  <Select
+                    value={rampProgramId ?? 'custom'}
+                    onValueChange={handleRampProgramChange}
+                    onOpenChange={open => open && speedRamp.reloadPrograms()}
+                    disabled={!hasMedia}
+                  >
+                    <SelectTrigger className="h-8 w-48 text-xs">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="custom" className="text-xs">Custom steps</SelectItem>
+                      {rampPrograms.map(program => (
+                        <SelectItem key={program.id} value={program.id} className="text-xs">{program.name}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              </ConditionalTooltip>
             </div>
               
               <div className="grid grid-cols-4 gap-4 transition-opacity duration-200">
@@ -1722,51 +2802,103 @@ export default function PlayerInterface() {
                   </div>
                 </div>
 
-                {/* AutoSpeedRamp Controls - Columns 2-4 */}
-                <div className={cn(
-                  !autoSpeedRampEnabled && "opacity-40 pointer-events-none"
-                )}>
-                  <SpeedRampControl
-                    label="Loops Before Increase"
-                    value={loopsBeforeIncrease}
-                    onChange={setLoopsBeforeIncrease}
-                    min={1}
-                    max={50}
-                    step={1}
-                    disabled={!hasMedia || !autoSpeedRampEnabled}
-                  />
-                </div>
+                {rampProgram ? (
+                  <div className={cn(
+                    "col-span-3 flex flex-col justify-center gap-2",
+                    !autoSpeedRampEnabled && !rampRun?.finished && "opacity-40"
+                  )}>
+                    <div className="text-xs text-muted-foreground">{describeProgram(rampProgram)}</div>
+                    <div className="flex items-center justify-between gap-3">
+                      <div className="text-xs">
+                        {rampStatus}
+                      </div>
+                      {rampProgram.mode === 'drop-back' && (
+                        <ConditionalTooltip content={tooltipContent.rampMiss}>
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            onClick={handleRampMiss}
+                            disabled={!autoSpeedRampEnabled || !rampRun}
+                            className="h-7 px-3 text-xs"
+                          >
+                            Missed
+                          </Button>
+                        </ConditionalTooltip>
+                      )}
+                    </div>
+                  </div>
+                ) : (
+                  <>
+                  {/* AutoSpeedRamp Controls - Columns 2-4 */}
+                  <div className={cn(
+                    !autoSpeedRampEnabled && "opacity-40 pointer-events-none"
+                  )}>
+                    <SpeedRampControl
+                      label="Loops Before Increase"
+                      value={loopsBeforeIncrease}
+                      onChange={setLoopsBeforeIncrease}
+                      min={1}
+                      max={50}
+                      step={1}
+                      disabled={!hasMedia || !autoSpeedRampEnabled}
+                    />
+                  </div>
                 
-                <div className={cn(
-                  !autoSpeedRampEnabled && "opacity-40 pointer-events-none"
-                )}>
-                  <SpeedRampControl
-                    label="Speed Increase %"
-                    value={speedIncreasePercent}
-                    onChange={setSpeedIncreasePercent}
-                    min={0.5}
-                    max={25}
-                    step={0.5}
-                    disabled={!hasMedia || !autoSpeedRampEnabled}
-                  />
-                </div>
+                  <div className={cn(
+                    !autoSpeedRampEnabled && "opacity-40 pointer-events-none"
+                  )}>
+                    <SpeedRampControl
+                      label="Speed Increase %"
+                      value={speedIncreasePercent}
+                      onChange={setSpeedIncreasePercent}
+                      min={0.5}
+                      max={25}
+                      step={0.5}
+                      disabled={!hasMedia || !autoSpeedRampEnabled}
+                    />
+                  </div>
                 
-                <div className={cn(
-                  !autoSpeedRampEnabled && "opacity-40 pointer-events-none"
-                )}>
-                  <SpeedRampControl
-                    label="Max Speed %"
-                    value={maxSpeedPercent}
-                    onChange={setMaxSpeedPercent}
-                    min={75}
-                    max={200}
-                    step={1}
-                    disabled={!hasMedia || !autoSpeedRampEnabled}
-                  />
-                </div>
+                  <div className={cn(
+                    !autoSpeedRampEnabled && "opacity-40 pointer-events-none"
+                  )}>
+                    <SpeedRampControl
+                      label="Max Speed %"
+                      value={maxSpeedPercent}
+                      onChange={setMaxSpeedPercent}
+                      min={75}
+                      max={200}
+                      step={1}
+                      disabled={!hasMedia || !autoSpeedRampEnabled}
+                    />
+                  </div>
+                  </>
+                )}
               </div>
             </div>
 
+            {/* Shortcuts */}
+            <div className="mt-4 pt-4 border-t border-border">
+              <div className="flex items-center justify-between">
+                <label className="text-sm font-medium">Shortcuts</label>
+                <ConditionalTooltip content={tooltipContent.shortcuts}>
+                  <Button
+                    variant={showShortcuts ? "default" : "outline"}
+                    size="sm"
+                    onClick={() => setShowShortcuts(!showShortcuts)}
+                    className="h-6 px-2 text-xs"
+                  >
+                    <Keyboard size={12} className="mr-1" />
+                    {showShortcuts ? "Done" : "Edit"}
+                  </Button>
+                </ConditionalTooltip>
+              </div>
+              {showShortcuts && (
+                <div className="mt-3">
+                  <ShortcutSettings commands={playerCommands} />
+                </div>
+              )}
+            </div>
+
             {/* BPM and Stats */}
             <div className="mt-4 pt-4 border-t border-border grid grid-cols-4 gap-4 text-center">
               <div>
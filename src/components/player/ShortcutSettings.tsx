@@ -0,0 +1,83 @@
+import { X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { cn } from "@/lib/utils";
+import { PLAYER_COMMANDS, describeBinding } from "@/lib/playerCommands";
+import type { usePlayerCommands } from "@/hooks/usePlayerCommands";
+
+interface ShortcutSettingsProps {
+  commands: ReturnType<typeof usePlayerCommands>;
+}
+
+export default function ShortcutSettings({ commands }: ShortcutSettingsProps) {
+  const { bindings, learning, startLearning, unbind, resetBindings, midiEnabled, setMidiEnabled, midiInputs, midiError } = commands;
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between gap-3">
+        <div className="flex items-center gap-3 min-w-0">
+          <Switch
+            id="midi-control"
+            checked={midiEnabled}
+            onCheckedChange={setMidiEnabled}
+            className="data-[state=unchecked]:bg-gray-600"
+          />
+          <Label htmlFor="midi-control" className="text-xs text-muted-foreground truncate">
+            {!midiEnabled
+              ? "MIDI foot controllers"
+              : midiError ?? (midiInputs.length ? `MIDI: ${midiInputs.join(", ")}` : "MIDI: no inputs connected")}
+          </Label>
+        </div>
+        <Button variant="ghost" size="sm" onClick={resetBindings} className="h-6 px-2 text-xs shrink-0">
+          Reset
+        </Button>
+      </div>
+
+      <div className="text-xs text-muted-foreground">
+        {learning
+          ? "Press a key, pedal or MIDI control to bind it, or Esc to cancel"
+          : "Page-turner pedals work as keys; choose Learn and press the pedal to bind it"}
+      </div>
+
+      <div className="space-y-1">
+        {PLAYER_COMMANDS.map(command => (
+          <div
+            key={command.id}
+            className={cn(
+              "flex items-center gap-2 py-1 px-2 rounded-md",
+              learning === command.id && "bg-primary/10"
+            )}
+          >
+            <span className="text-xs w-40 shrink-0">{command.label}</span>
+            <div className="flex flex-wrap gap-1 flex-1 min-w-0">
+              {bindings[command.id].map(binding => (
+                <span
+                  key={binding}
+                  className="inline-flex items-center gap-1 rounded border border-border bg-secondary/50 px-1.5 text-xs tabular-nums"
+                >
+                  {describeBinding(binding)}
+                  <button
+                    onClick={() => unbind(command.id, binding)}
+                    aria-label={`Remove ${describeBinding(binding)}`}
+                    className="text-muted-foreground hover:text-foreground"
+                  >
+                    <X size={10} />
+                  </button>
+                </span>
+              ))}
+            </div>
+            <Button
+              variant={learning === command.id ? "default" : "outline"}
+              size="sm"
+              onClick={() => startLearning(learning === command.id ? null : command.id)}
+              className="h-6 px-2 text-xs shrink-0"
+            >
+              {learning === command.id ? "Listening…" : "Learn"}
+            </Button>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
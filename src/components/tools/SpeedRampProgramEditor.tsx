@@ -0,0 +1,91 @@
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import SpeedRampControl from "@/components/ui/SpeedRampControl";
+import { cn } from "@/lib/utils";
+import { SPEED_RAMP_MODE_LABELS, type SpeedRampMode, type SpeedRampProgram } from "@/lib/speedRampPrograms";
+
+interface SpeedRampProgramEditorProps {
+  program: SpeedRampProgram;
+  onChange: (program: SpeedRampProgram) => void;
+  onSave: () => void;
+  onCancel: () => void;
+}
+
+const parseCycleSteps = (text: string) =>
+  text.split(/[\s,]+/).map(Number).filter(step => Number.isFinite(step) && step !== 0);
+
+export default function SpeedRampProgramEditor({ program, onChange, onSave, onCancel }: SpeedRampProgramEditorProps) {
+  const update = (patch: Partial<SpeedRampProgram>) => onChange({ ...program, ...patch });
+  const usesLoopSteps = program.mode !== 'time';
+  const usesFixedStep = program.mode === 'linear' || program.mode === 'drop-back';
+
+  return (
+    <div className="space-y-4">
+      <Input
+        value={program.name}
+        onChange={event => update({ name: event.target.value })}
+        placeholder="Program name"
+        className="h-8 text-sm"
+      />
+
+      <div className="grid grid-cols-2 gap-2">
+        {(Object.keys(SPEED_RAMP_MODE_LABELS) as SpeedRampMode[]).map(mode => (
+          <Button
+            key={mode}
+            variant={program.mode === mode ? "default" : "outline"}
+            size="sm"
+            onClick={() => update({ mode })}
+            className={cn("h-7 text-xs", program.mode === mode && "bg-gradient-primary")}
+          >
+            {SPEED_RAMP_MODE_LABELS[mode]}
+          </Button>
+        ))}
+      </div>
+
+      <div className="grid grid-cols-2 gap-4">
+        <SpeedRampControl label="Start %" value={program.startSpeed} onChange={startSpeed => update({ startSpeed })} min={25} max={200} step={5} />
+        <SpeedRampControl label="Target %" value={program.targetSpeed} onChange={targetSpeed => update({ targetSpeed })} min={25} max={200} step={5} />
+        {usesLoopSteps && (
+          <SpeedRampControl label="Loops Per Step" value={program.loopsPerStep} onChange={loopsPerStep => update({ loopsPerStep })} min={1} max={50} step={1} />
+        )}
+        {usesFixedStep && (
+          <SpeedRampControl label="Step %" value={program.stepPercent} onChange={stepPercent => update({ stepPercent })} min={0.5} max={25} step={0.5} />
+        )}
+        {program.mode === 'drop-back' && (
+          <SpeedRampControl label="Drop On Miss %" value={program.dropPercent} onChange={dropPercent => update({ dropPercent })} min={1} max={50} step={1} />
+        )}
+        {program.mode === 'time' && (
+          <SpeedRampControl label="Minutes" value={program.durationMinutes} onChange={durationMinutes => update({ durationMinutes })} min={1} max={120} step={1} />
+        )}
+        <SpeedRampControl label="Loops At Target" value={program.loopsAtTarget} onChange={loopsAtTarget => update({ loopsAtTarget })} min={0} max={100} step={1} />
+      </div>
+
+      {program.mode === 'cycle' && (
+        <div>
+          <span className="text-xs text-muted-foreground mb-1 block">Cycle steps (%)</span>
+          {/* Uncontrolled so partial input like "-" can be typed; parsed when focus leaves */}
+          <Input
+            key={program.id}
+            defaultValue={program.cycleSteps.join(', ')}
+            onBlur={event => {
+              const cycleSteps = parseCycleSteps(event.target.value);
+              if (cycleSteps.length > 0) update({ cycleSteps });
+              event.target.value = (cycleSteps.length > 0 ? cycleSteps : program.cycleSteps).join(', ');
+            }}
+            placeholder="10, -5"
+            className="h-8 text-sm"
+          />
+        </div>
+      )}
+
+      <div className="flex gap-2">
+        <Button variant="outline" size="sm" className="flex-1" onClick={onCancel}>
+          Cancel
+        </Button>
+        <Button size="sm" className="flex-1" onClick={onSave} disabled={!program.name.trim()}>
+          Save Program
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -12,25 +12,76 @@ import {
   Settings,
   Play,
   RotateCcw,
-  Trophy
+  Trophy,
+  Plus,
+  Pencil,
+  Copy,
+  Trash2
 } from "lucide-react";
 import { cn } from "@/lib/utils";
+import { usePracticeState } from "@/hooks/usePracticeState";
+import { formatPracticeDuration } from "@/lib/practiceSessions";
+import SpeedRampProgramEditor from "./SpeedRampProgramEditor";
+import TunerCard from "./TunerCard";
+import {
+  createProgram,
+  deleteProgram,
+  describeProgram,
+  loadPrograms,
+  saveProgram,
+  type SpeedRampProgram
+} from "@/lib/speedRampPrograms";
 
-export default function ToolsInterface() {
-  const [currentSpeed, setCurrentSpeed] = useState(50);
-  const [targetSpeed, setTargetSpeed] = useState(100);
-  const [sessionTime, setSessionTime] = useState(8);
-  const [accuracy, setAccuracy] = useState(92);
-  const [loopsCompleted, setLoopsCompleted] = useState(12);
-  const [isProgressiveMode, setIsProgressiveMode] = useState(false);
-  const [selectedPreset, setSelectedPreset] = useState("50% Speed");
+interface ToolsInterfaceProps {
+  onOpenPlayer?: () => void;
+}
+
+export default function ToolsInterface({ onOpenPlayer }: ToolsInterfaceProps) {
+  const { practice, controls } = usePracticeState();
+  const [rampPrograms, setRampPrograms] = useState<SpeedRampProgram[]>(loadPrograms);
+  const [selectedProgramId, setSelectedProgramId] = useState(practice.rampProgramId ?? rampPrograms[0].id);
+  const [editingProgram, setEditingProgram] = useState<SpeedRampProgram | null>(null);
+
+  const selectedProgram = rampPrograms.find(program => program.id === selectedProgramId) ?? rampPrograms[0];
+  const isRunningSelected = practice.rampEnabled && practice.rampProgramId === selectedProgram.id;
+  const targetSpeed = selectedProgram.targetSpeed;
+
+  const handleSaveProgram = () => {
+    if (!editingProgram) return;
+    const program = { ...editingProgram, name: editingProgram.name.trim() };
+    saveProgram(program);
+    setRampPrograms(loadPrograms());
+    setSelectedProgramId(program.id);
+    setEditingProgram(null);
+  };
+
+  // Built-in programs are edited as copies so the originals stay available
+  const handleEditProgram = (program: SpeedRampProgram) => {
+    setEditingProgram(program.builtIn
+      ? { ...program, id: crypto.randomUUID(), name: `${program.name} (copy)`, builtIn: false }
+      : program);
+  };
+
+  const handleDeleteProgram = (program: SpeedRampProgram) => {
+    if (!confirm(`Delete "${program.name}"?`)) return;
+    deleteProgram(program.id);
+    const programs = loadPrograms();
+    setRampPrograms(programs);
+    if (selectedProgramId === program.id) setSelectedProgramId(programs[0].id);
+  };
 
   const practicePresets = [
-    { name: "Slow Practice", speed: "50% BPM", icon: Clock, color: "bg-blue-500/20 text-blue-400" },
-    { name: "Medium Tempo", speed: "75% BPM", icon: Target, color: "bg-yellow-500/20 text-yellow-400" },
-    { name: "Performance", speed: "90% BPM", icon: TrendingUp, color: "bg-green-500/20 text-green-400" },
-    { name: "Full Speed", speed: "100% BPM", icon: Trophy, color: "bg-purple-500/20 text-purple-400" }
+    { name: "Slow Practice", speed: 50, icon: Clock, color: "bg-blue-500/20 text-blue-400" },
+    { name: "Medium Tempo", speed: 75, icon: Target, color: "bg-yellow-500/20 text-yellow-400" },
+    { name: "Performance", speed: 90, icon: TrendingUp, color: "bg-green-500/20 text-green-400" },
+    { name: "Full Speed", speed: 100, icon: Trophy, color: "bg-purple-500/20 text-purple-400" }
   ];
+  const activePreset = practicePresets.find(preset => preset.speed === practice.speed);
+
+  const handleRampToggle = () => {
+    if (isRunningSelected) controls()?.stopRamp();
+    else controls()?.runRampProgram(selectedProgram.id);
+  };
 
   const practiceTools = [
     {
@@ -78,23 +129,81 @@ export default function ToolsInterface() {
             <div className="flex items-center justify-between mb-4">
               <h3 className="text-lg font-semibold">Progressive Practice Mode</h3>
               <Button
-                variant={isProgressiveMode ? "default" : "outline"}
-                onClick={() => setIsProgressiveMode(!isProgressiveMode)}
+                variant={isRunningSelected ? "default" : "outline"}
+                onClick={handleRampToggle}
+                disabled={!practice.hasMedia || !!editingProgram}
                 className={cn(
-                  isProgressiveMode && "bg-gradient-primary shadow-glow"
+                  isRunningSelected && "bg-gradient-primary shadow-glow"
                 )}
               >
-                {isProgressiveMode ? "Stop" : "Start"}
+                {isRunningSelected ? "Stop" : "Start"}
               </Button>
             </div>
 
+            {!practice.hasMedia && (
+              <button onClick={onOpenPlayer} className="w-full text-left text-xs text-muted-foreground mb-4 underline-offset-2 hover:underline">
+                Load a track in the Player to run a program against it
+              </button>
+            )}
+
             <div className="space-y-4">
+              {editingProgram ? (
+                <SpeedRampProgramEditor
+                  program={editingProgram}
+                  onChange={setEditingProgram}
+                  onSave={handleSaveProgram}
+                  onCancel={() => setEditingProgram(null)}
+                />
+              ) : (
+                <>
+                  <div className="space-y-2">
+                    {rampPrograms.map(program => (
+                      <div
+                        key={program.id}
+                        onClick={() => setSelectedProgramId(program.id)}
+                        className={cn(
+                          "p-3 rounded-lg border transition-all duration-200 cursor-pointer active:brightness-95",
+                          program.id === selectedProgram.id
+                            ? "border-primary bg-primary/10 shadow-glow"
+                            : "border-border bg-secondary/50"
+                        )}
+                      >
+                        <div className="flex items-center justify-between gap-2">
+                          <span className="text-sm font-medium">{program.name}</span>
+                          <div className="flex items-center gap-1" onClick={event => event.stopPropagation()}>
+                            <Button variant="ghost" size="icon" className="h-6 w-6" onClick={() => handleEditProgram(program)}>
+                              {program.builtIn ? <Copy size={12} /> : <Pencil size={12} />}
+                            </Button>
+                            {!program.builtIn && (
+                              <Button variant="ghost" size="icon" className="h-6 w-6" onClick={() => handleDeleteProgram(program)}>
+                                <Trash2 size={12} />
+                              </Button>
+                            )}
+                          </div>
+                        </div>
+                        <div className="text-xs text-muted-foreground">{describeProgram(program)}</div>
+                      </div>
+                    ))}
+                  </div>
+
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    className="w-full"
+                    onClick={() => setEditingProgram(createProgram("My Program", "linear"))}
+                  >
+                    <Plus size={16} className="mr-2" />
+                    New Program
+                  </Button>
+                </>
+              )}
+
               <div>
                 <div className="flex justify-between text-sm mb-2">
                   <span>Current Speed</span>
-                  <span className="text-primary font-bold">{currentSpeed}% BPM</span>
+                  <span className="text-primary font-bold">{practice.speed}% BPM</span>
                 </div>
-                <Progress value={currentSpeed} className="h-2" />
+                <Progress value={Math.min(100, (practice.speed / targetSpeed) * 100)} className="h-2" />
               </div>
 
               <div>
@@ -102,26 +211,42 @@ export default function ToolsInterface() {
                   <span>Target Speed</span>
                   <span className="text-primary font-bold">{targetSpeed}% BPM</span>
                 </div>
-                <Progress value={targetSpeed} className="h-1 opacity-50" />
+                <Progress value={100} className="h-1 opacity-50" />
               </div>
 
-              <div className="grid grid-cols-3 gap-4 mt-6">
+              <div className="grid grid-cols-4 gap-4 mt-6">
                 <div className="text-center">
-                  <div className="text-2xl font-bold text-yellow-400">{loopsCompleted}</div>
+                  <div className="text-2xl font-bold text-yellow-400">{practice.loopCount}</div>
                   <div className="text-xs text-muted-foreground">Loops Completed</div>
                 </div>
                 <div className="text-center">
-                  <div className="text-2xl font-bold text-red-400">{sessionTime}m</div>
+                  <div className="text-2xl font-bold text-red-400">{formatPracticeDuration(practice.practiceSeconds)}</div>
                   <div className="text-xs text-muted-foreground">Session Time</div>
                 </div>
                 <div className="text-center">
-                  <div className="text-2xl font-bold text-green-400">{accuracy}%</div>
-                  <div className="text-xs text-muted-foreground">Accuracy</div>
+                  <div className="text-2xl font-bold text-green-400">
+                    {isRunningSelected && practice.rampRun ? practice.rampRun.loopsAtTarget : 0}
+                  </div>
+                  <div className="text-xs text-muted-foreground">Loops At Target</div>
+                </div>
+                <div className="text-center">
+                  <div className="text-2xl font-bold text-blue-400">
+                    {practice.lastAccuracy !== null ? `${practice.lastAccuracy}%` : "–"}
+                  </div>
+                  <div className="text-xs text-muted-foreground">
+                    {practice.averageAccuracy !== null ? `Accuracy (avg ${practice.averageAccuracy}%)` : "Accuracy"}
+                  </div>
                 </div>
               </div>
 
               <div className="flex gap-2 mt-4">
-                <Button variant="outline" size="sm" className="flex-1">
+                <Button
+                  variant="outline"
+                  size="sm"
+                  className="flex-1"
+                  onClick={() => controls()?.runRampProgram(selectedProgram.id)}
+                  disabled={!isRunningSelected}
+                >
                   <RotateCcw size={16} className="mr-2" />
                   Reset Progress
                 </Button>
@@ -140,14 +265,15 @@ export default function ToolsInterface() {
             <div className="grid grid-cols-2 gap-3 mb-4">
               {practicePresets.map((preset, index) => {
                 const Icon = preset.icon;
-                const isSelected = selectedPreset === preset.name;
+                const isSelected = practice.hasMedia && activePreset === preset;
                 
                 return (
                   <button
                     key={index}
-                    onClick={() => setSelectedPreset(preset.name)}
+                    onClick={() => controls()?.setSpeed(preset.speed)}
+                    disabled={!practice.hasMedia}
                     className={cn(
-                      "p-3 rounded-lg border transition-all duration-200 text-left active:brightness-95",
+                      "p-3 rounded-lg border transition-all duration-200 text-left active:brightness-95 disabled:opacity-50",
                       isSelected 
                         ? "border-primary bg-primary/10 shadow-glow" 
                         : "border-border bg-secondary/50"
@@ -157,7 +283,7 @@ export default function ToolsInterface() {
                       <Icon size={16} />
                     </div>
                     <div className="text-sm font-medium">{preset.name}</div>
-                    <div className="text-xs text-muted-foreground">{preset.speed}</div>
+                    <div className="text-xs text-muted-foreground">{preset.speed}% BPM</div>
                   </button>
                 );
               })}
@@ -167,13 +293,15 @@ export default function ToolsInterface() {
               <div className="flex justify-between items-center mb-2">
                 <span className="text-sm">Current Preset</span>
                 <Badge variant="secondary" className="bg-primary/20 text-primary">
-                  {selectedPreset}
+                  {practice.hasMedia ? activePreset?.name ?? `${practice.speed}% Speed` : "No track loaded"}
                 </Badge>
               </div>
             </div>
           </Card>
         </div>
 
+        <TunerCard />
+
         {/* Practice Tools */}
         <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
           {practiceTools.map((tool, index) => {
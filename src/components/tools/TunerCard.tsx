@@ -0,0 +1,164 @@
+import { useState } from "react";
+import { Mic, MicOff } from "lucide-react";
+import { Card } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import SpeedRampControl from "@/components/ui/SpeedRampControl";
+import { cn } from "@/lib/utils";
+import { usePitchDetector } from "@/hooks/usePitchDetector";
+import { usePracticeState } from "@/hooks/usePracticeState";
+import {
+  IN_TUNE_CENTS,
+  MAX_REFERENCE_HZ,
+  MIN_REFERENCE_HZ,
+  TUNINGS,
+  loadTunerSettings,
+  nearestString,
+  noteName,
+  readPitch,
+  referenceOffsetCents,
+  saveTunerSettings,
+  transposeForTuning,
+  type TunerSettings
+} from "@/lib/tuner";
+
+const formatTranspose = (semitones: number, cents: number) =>
+  `${semitones > 0 ? "+" : ""}${semitones} st${cents !== 0 ? ` ${cents > 0 ? "+" : ""}${cents}¢` : ""}`;
+
+export default function TunerCard() {
+  const { practice, controls } = usePracticeState();
+  const { isListening, error, frequency, level, measuredOffsetCents, start, stop, resetMeasuredOffset } = usePitchDetector();
+  const [settings, setSettings] = useState<TunerSettings>(loadTunerSettings);
+
+  const tuning = TUNINGS.find(candidate => candidate.id === settings.tuningId) ?? TUNINGS[0];
+  const reading = frequency !== null ? readPitch(frequency, settings.referenceHz) : null;
+  const target = frequency !== null ? nearestString(frequency, tuning, settings.referenceHz) : null;
+  const inTune = reading !== null && Math.abs(reading.cents) <= IN_TUNE_CENTS;
+
+  // A measured offset describes the instrument as actually tuned, so it wins over the reference setting
+  const offsetCents = measuredOffsetCents ?? referenceOffsetCents(settings.referenceHz);
+  const suggestion = transposeForTuning(tuning, offsetCents);
+  const matchesTrack = practice.transposeSemitones === suggestion.semitones && practice.transposeCents === suggestion.cents;
+
+  const updateSettings = (patch: Partial<TunerSettings>) => {
+    const next = { ...settings, ...patch };
+    setSettings(next);
+    saveTunerSettings(next);
+  };
+
+  return (
+    <Card className="p-6 bg-gradient-card border-border shadow-card">
+      <div className="flex items-center justify-between mb-4">
+        <h3 className="text-lg font-semibold">Tuner</h3>
+        <Button
+          variant={isListening ? "default" : "outline"}
+          onClick={isListening ? stop : start}
+          className={cn(isListening && "bg-gradient-primary shadow-glow")}
+        >
+          {isListening ? <MicOff size={16} className="mr-2" /> : <Mic size={16} className="mr-2" />}
+          {isListening ? "Stop" : "Start"}
+        </Button>
+      </div>
+
+      {error && <div className="text-xs text-destructive mb-4">{error}</div>}
+
+      {/* Note and needle */}
+      <div className="text-center mb-4">
+        <div className={cn("text-5xl font-bold tabular-nums", inTune ? "text-green-400" : reading ? "text-primary" : "text-muted-foreground")}>
+          {reading ? noteName(reading.midi) : "–"}
+        </div>
+        <div className="text-xs text-muted-foreground tabular-nums h-4">
+          {reading ? `${reading.frequency.toFixed(1)} Hz · ${reading.cents > 0 ? "+" : ""}${Math.round(reading.cents)}¢` : isListening ? "Play a single note" : ""}
+        </div>
+        <div className="relative h-3 mt-3 rounded-full bg-secondary/50 overflow-hidden">
+          <div className="absolute inset-y-0 left-1/2 w-px bg-border" />
+          <div
+            className="absolute inset-y-0 bg-green-500/20"
+            style={{ left: `${50 - IN_TUNE_CENTS}%`, width: `${IN_TUNE_CENTS * 2}%` }}
+          />
+          {reading && (
+            <div
+              className={cn("absolute inset-y-0 w-1 -ml-0.5 rounded-full transition-[left] duration-100", inTune ? "bg-green-400" : "bg-primary")}
+              style={{ left: `${50 + reading.cents}%` }}
+            />
+          )}
+        </div>
+        <div className="h-1 mt-2 rounded-full bg-secondary/50 overflow-hidden">
+          <div className="h-full bg-primary/60" style={{ width: `${Math.min(100, level * 400)}%` }} />
+        </div>
+      </div>
+
+      {/* Strings of the selected tuning */}
+      <div className="flex justify-center gap-1 mb-4">
+        {tuning.strings.map((midi, index) => {
+          const isTarget = target?.index === index;
+          const stringInTune = isTarget && Math.abs(target.cents) <= IN_TUNE_CENTS;
+          return (
+            <div
+              key={index}
+              className={cn(
+                "w-10 py-1 rounded-md border text-center text-xs tabular-nums",
+                stringInTune ? "border-green-400 text-green-400" : isTarget ? "border-primary text-primary" : "border-border text-muted-foreground"
+              )}
+            >
+              <div className="font-medium">{noteName(midi)}</div>
+              <div className="h-4">{isTarget ? `${target.cents > 0 ? "+" : ""}${Math.round(target.cents)}` : ""}</div>
+            </div>
+          );
+        })}
+      </div>
+
+      <div className="grid grid-cols-3 gap-2 mb-4">
+        {TUNINGS.map(candidate => (
+          <Button
+            key={candidate.id}
+            variant={candidate.id === tuning.id ? "default" : "outline"}
+            size="sm"
+            onClick={() => updateSettings({ tuningId: candidate.id })}
+            className={cn("h-7 text-xs", candidate.id === tuning.id && "bg-gradient-primary")}
+          >
+            {candidate.name}
+          </Button>
+        ))}
+      </div>
+
+      <SpeedRampControl
+        label="Reference A (Hz)"
+        value={settings.referenceHz}
+        onChange={referenceHz => updateSettings({ referenceHz })}
+        min={MIN_REFERENCE_HZ}
+        max={MAX_REFERENCE_HZ}
+        step={1}
+      />
+
+      {/* Track transpose to match the instrument */}
+      <div className="pt-4 mt-4 border-t border-border space-y-2">
+        <div className="flex justify-between items-center text-sm">
+          <span>Track offset</span>
+          <span className="text-primary font-bold">{formatTranspose(suggestion.semitones, suggestion.cents)}</span>
+        </div>
+        <div className="text-xs text-muted-foreground">
+          {measuredOffsetCents !== null
+            ? `Your instrument plays ${Math.abs(Math.round(measuredOffsetCents))}¢ ${measuredOffsetCents < 0 ? "flat of" : "sharp of"} A440${tuning.shift ? ` in ${tuning.name}` : ""}.`
+            : `From the ${settings.referenceHz} Hz reference${tuning.shift ? ` and ${tuning.name}` : ""}; tune a few strings to measure your instrument instead.`}
+          {practice.hasMedia && ` The track is at ${formatTranspose(practice.transposeSemitones, practice.transposeCents)}.`}
+        </div>
+        <div className="flex gap-2">
+          <Button
+            variant="outline"
+            size="sm"
+            className="flex-1"
+            onClick={() => controls()?.setTranspose(suggestion.semitones, suggestion.cents)}
+            disabled={!practice.canTranspose || matchesTrack}
+          >
+            Apply to Track
+          </Button>
+          {measuredOffsetCents !== null && (
+            <Button variant="outline" size="sm" onClick={resetMeasuredOffset}>
+              Re-measure
+            </Button>
+          )}
+        </div>
+      </div>
+    </Card>
+  );
+}
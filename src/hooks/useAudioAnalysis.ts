@@ -0,0 +1,96 @@
+import { useRef, useCallback, useEffect, useState } from 'react';
+import type { BeatGrid } from '@/lib/beatGrid';
+
+export type SnapMode = 'off' | 'zero-crossing' | 'onset' | 'beat';
+export type SnapDirection = 'nearest' | 'previous' | 'next';
+
+type PendingSnap = (time: number | null) => void;
+
+export const useAudioAnalysis = (audioBuffer: AudioBuffer | null) => {
+  const workerRef = useRef<Worker | null>(null);
+  const pendingRef = useRef(new Map<number, PendingSnap>());
+  const requestIdRef = useRef(0);
+  // Analysis replies for an earlier track are dropped, so a slow one cannot replace the current results
+  const analysisIdRef = useRef(0);
+  const [onsets, setOnsets] = useState<number[]>([]);
+  const [beatGrid, setBeatGrid] = useState<BeatGrid | null>(null);
+  const [isReady, setIsReady] = useState(false);
+
+  useEffect(() => {
+    // Create worker on mount
+    workerRef.current = new Worker(
+      new URL('../workers/AudioAnalysisWorker.ts', import.meta.url),
+      { type: 'module' }
+    );
+
+    const worker = workerRef.current;
+    const pending = pendingRef.current;
+
+    worker.onmessage = (e) => {
+      const { type, requestId, onsets: detectedOnsets, beatGrid: detectedGrid, time, error } = e.data;
+
+      switch (type) {
+        case 'analyzed':
+          if (requestId !== analysisIdRef.current) break;
+          setOnsets(detectedOnsets);
+          setBeatGrid(detectedGrid);
+          setIsReady(true);
+          break;
+        case 'snapped':
+          pending.get(requestId)?.(time);
+          pending.delete(requestId);
+          break;
+        case 'error':
+          console.warn('Audio analysis failed:', error);
+          if (requestId !== undefined) {
+            pending.get(requestId)?.(null);
+            pending.delete(requestId);
+          }
+          break;
+      }
+    };
+
+    // Cleanup on unmount
+    return () => {
+      worker.terminate();
+      workerRef.current = null;
+      pending.forEach(resolve => resolve(null));
+      pending.clear();
+    };
+  }, []);
+
+  useEffect(() => {
+    setIsReady(false);
+    setOnsets([]);
+    setBeatGrid(null);
+    // Snaps and analyses share the id sequence, so an analysis error never settles a pending snap
+    const requestId = ++requestIdRef.current;
+    analysisIdRef.current = requestId;
+    if (!audioBuffer || !workerRef.current) return;
+
+    // Copies are transferred so the worker owns its data and the AudioBuffer stays intact
+    const channels = Array.from({ length: audioBuffer.numberOfChannels }, (_, i) => audioBuffer.getChannelData(i).slice());
+    workerRef.current.postMessage(
+      { type: 'analyze', requestId, channels, sampleRate: audioBuffer.sampleRate },
+      channels.map(channel => channel.buffer)
+    );
+  }, [audioBuffer]);
+
+  /** Resolves with the snapped time, or null when snapping is off or nothing is in range */
+  const snap = useCallback((
+    time: number,
+    mode: SnapMode,
+    direction: SnapDirection = 'nearest'
+  ): Promise<number | null> => {
+    if (mode === 'off' || !isReady || !workerRef.current) return Promise.resolve(null);
+
+    const requestId = ++requestIdRef.current;
+    const worker = workerRef.current;
+    return new Promise(resolve => {
+      pendingRef.current.set(requestId, resolve);
+      worker.postMessage({ type: 'snap', requestId, time, mode, direction });
+    });
+  }, [isReady]);
+
+  return { snap, onsets, beatGrid, isReady };
+};
@@ -0,0 +1,86 @@
+import { useState, useEffect } from 'react';
+
+// One kind of result worked out from a whole decoded track in a worker
+export interface AudioBufferWorkerJob<T> {
+  /** Written out at each call site, as the bundler only finds `new Worker(new URL(...))` literally */
+  createWorker: () => Worker;
+  /** Message type the worker takes the channels with */
+  request: string;
+  /** Message type the worker answers with; it may send 'progress' messages before it */
+  response: string;
+  readResult: (data: Record<string, unknown>) => T;
+  /** Results per decoded track, so each is only worked out once */
+  cache: WeakMap<AudioBuffer, T>;
+}
+
+interface UseAudioBufferWorkerOptions {
+  /** Work only starts while enabled; a cached result is returned either way */
+  enabled?: boolean;
+  onError?: (error: string) => void;
+}
+
+/**
+ * Runs `job` over the track in a fresh worker the first time each AudioBuffer is seen. Progress
+ * is null while idle. A newer track, disabling or unmount terminates the worker and drops its work.
+ */
+export const useAudioBufferWorker = <T>(
+  job: AudioBufferWorkerJob<T>,
+  audioBuffer: AudioBuffer | null,
+  options: UseAudioBufferWorkerOptions = {}
+) => {
+  const [result, setResult] = useState<T | null>(() => (audioBuffer && job.cache.get(audioBuffer)) ?? null);
+  const [progress, setProgress] = useState<number | null>(null);
+  const { enabled = true, onError } = options;
+
+  useEffect(() => {
+    const cached = audioBuffer ? job.cache.get(audioBuffer) ?? null : null;
+    setResult(cached);
+    setProgress(null);
+    if (!audioBuffer || cached || !enabled) return;
+
+    setProgress(0);
+    const worker = job.createWorker();
+
+    worker.onmessage = (e) => {
+      const { type, progress: reportedProgress, error } = e.data;
+
+      switch (type) {
+        case 'progress':
+          setProgress(reportedProgress);
+          return;
+        case job.response: {
+          const computed = job.readResult(e.data);
+          job.cache.set(audioBuffer, computed);
+          setResult(computed);
+          setProgress(null);
+          break;
+        }
+        case 'error':
+          onError?.(error);
+          setProgress(null);
+          break;
+      }
+      worker.terminate();
+    };
+
+    worker.onerror = (error) => {
+      onError?.(`Worker error: ${error.message}`);
+      setProgress(null);
+    };
+
+    // The AudioBuffer's own channel memory can't be transferred, so each channel is copied once
+    const channels = Array.from({ length: audioBuffer.numberOfChannels }, (_, channel) => {
+      const data = new Float32Array(audioBuffer.length);
+      audioBuffer.copyFromChannel(data, channel);
+      return data;
+    });
+    worker.postMessage(
+      { type: job.request, channels, sampleRate: audioBuffer.sampleRate },
+      channels.map(data => data.buffer)
+    );
+
+    return () => worker.terminate();
+  }, [job, audioBuffer, enabled, onError]);
+
+  return { result, progress };
+};
@@ -0,0 +1,64 @@
+import { useState, useEffect, useCallback } from 'react';
+import {
+  deleteLatencyProfile, findLatencyProfile, getAudioDevice, measureLatency, saveLatencyProfile,
+  type AudioDeviceInfo, type LatencyProfile
+} from '@/lib/latencyCalibration';
+
+/** The calibrated latency of whichever audio devices are in use, following device changes */
+export const useLatencyProfile = () => {
+  const [device, setDevice] = useState<AudioDeviceInfo | null>(null);
+  const [profile, setProfile] = useState<LatencyProfile | null>(null);
+  const [isCalibrating, setIsCalibrating] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const refreshDevice = useCallback(async () => {
+    const current = await getAudioDevice();
+    setDevice(current);
+    setProfile(findLatencyProfile(current));
+  }, []);
+
+  useEffect(() => {
+    refreshDevice();
+    const mediaDevices = navigator.mediaDevices;
+    if (!mediaDevices) return;
+    mediaDevices.addEventListener('devicechange', refreshDevice);
+    return () => mediaDevices.removeEventListener('devicechange', refreshDevice);
+  }, [refreshDevice]);
+
+  const calibrate = useCallback(async () => {
+    setIsCalibrating(true);
+    setError(null);
+    try {
+      const measurement = await measureLatency();
+      // Device labels only appear once the microphone is allowed, so look again after measuring
+      const current = await getAudioDevice();
+      const measured: LatencyProfile = { ...measurement, deviceKey: current.key, deviceLabel: current.label, measuredAt: Date.now() };
+      saveLatencyProfile(measured);
+      setDevice(current);
+      setProfile(measured);
+    } catch (error) {
+      console.warn('Latency calibration failed:', error);
+      setError(error instanceof Error ? error.message : 'Calibration failed');
+    } finally {
+      setIsCalibrating(false);
+    }
+  }, []);
+
+  /** Fine-tunes the output share by ear; the measured round trip is kept */
+  const setOutputMs = useCallback((outputMs: number) => {
+    setProfile(prev => {
+      if (!prev) return prev;
+      const adjusted = { ...prev, outputMs, inputMs: Math.max(0, prev.roundTripMs - outputMs) };
+      saveLatencyProfile(adjusted);
+      return adjusted;
+    });
+  }, []);
+
+  const reset = useCallback(() => {
+    if (profile) deleteLatencyProfile(profile.deviceKey);
+    setProfile(null);
+    setError(null);
+  }, [profile]);
+
+  return { device, profile, isCalibrating, error, calibrate, setOutputMs, reset };
+};
@@ -0,0 +1,213 @@
+import { useState, useRef, useEffect, useCallback, useMemo } from 'react';
+import { deleteTake, getTakeBlob, isTakeForLoop, listTakes, renameTake, saveTake, type LoopTake } from '@/lib/loopTakes';
+
+// Instrument recordings should reach the take as played, not cleaned up for speech
+const MICROPHONE_CONSTRAINTS: MediaTrackConstraints = {
+  echoCancellation: false,
+  noiseSuppression: false,
+  autoGainControl: false
+};
+
+interface RecordingOptions {
+  video: boolean;
+  loopStart: number;
+  loopEnd: number;
+  speed: number;
+  /** Calibrated round-trip latency in seconds */
+  latency: number;
+}
+
+interface ActiveRecording {
+  recorder: MediaRecorder;
+  stream: MediaStream;
+  chunks: Blob[];
+  options: RecordingOptions;
+  startedAt: number;
+  leadIn: number;
+}
+
+/**
+ * Records takes over the current loop and keeps the library track's takes in step with storage.
+ * The player starts the loop itself and calls markLoopStart the moment it does, so each take
+ * knows where the loop began inside the recording.
+ */
+export const useLoopTakes = (trackId: string | null, loop: { start: number; end: number } | null) => {
+  const [takes, setTakes] = useState<LoopTake[]>([]);
+  const [recordingStream, setRecordingStream] = useState<MediaStream | null>(null);
+  const [activeTakeId, setActiveTakeId] = useState<string | null>(null);
+  const [activeTakeUrl, setActiveTakeUrl] = useState<string | null>(null);
+  const recordingRef = useRef<ActiveRecording | null>(null);
+  // Bumped on every discard, so a start still waiting on the microphone knows it was called off
+  const recordingGenerationRef = useRef(0);
+
+  // Stops the recorder without keeping what it captured
+  const discardRecording = useCallback(() => {
+    recordingGenerationRef.current++;
+    const recording = recordingRef.current;
+    recordingRef.current = null;
+    setRecordingStream(null);
+    if (!recording) return;
+
+    recording.recorder.ondataavailable = null;
+    recording.recorder.onstop = null;
+    if (recording.recorder.state !== 'inactive') recording.recorder.stop();
+    recording.stream.getTracks().forEach(track => track.stop());
+  }, []);
+
+  useEffect(() => {
+    setTakes([]);
+    setActiveTakeId(null);
+    discardRecording();
+    if (!trackId) return;
+
+    let cancelled = false;
+    listTakes(trackId)
+      .then(stored => { if (!cancelled) setTakes(stored); })
+      .catch(error => console.warn('Failed to load takes:', error));
+    return () => { cancelled = true; };
+  }, [trackId, discardRecording]);
+
+  useEffect(() => discardRecording, [discardRecording]);
+
+  // The selected take's media, loaded from storage on demand
+  useEffect(() => {
+    setActiveTakeUrl(null);
+    if (!activeTakeId) return;
+
+    let url: string | null = null;
+    let cancelled = false;
+    getTakeBlob(activeTakeId)
+      .then(blob => {
+        if (!blob || cancelled) return;
+        url = URL.createObjectURL(blob);
+        setActiveTakeUrl(url);
+      })
+      .catch(error => console.warn('Failed to load take:', error));
+
+    return () => {
+      cancelled = true;
+      if (url) URL.revokeObjectURL(url);
+    };
+  }, [activeTakeId]);
+
+  const loopTakes = useMemo(
+    () => (loop ? takes.filter(take => isTakeForLoop(take, loop.start, loop.end)) : []),
+    [takes, loop]
+  );
+
+  const activeTake = takes.find(take => take.id === activeTakeId) ?? null;
+
+  /**
+   * Resolves once the recorder is running; rejects if the microphone or camera is refused, or if
+   * the recording is discarded (track change, unmount) before it starts
+   */
+  const startRecording = useCallback(async (options: RecordingOptions) => {
+    discardRecording();
+    const generation = recordingGenerationRef.current;
+    const stream = await navigator.mediaDevices.getUserMedia({
+      audio: MICROPHONE_CONSTRAINTS,
+      video: options.video ? { facingMode: 'user' } : false
+    });
+
+    let recorder: MediaRecorder | null = null;
+    try {
+      if (generation !== recordingGenerationRef.current) throw new Error('The recording was cancelled');
+      const started = new MediaRecorder(stream);
+      recorder = started;
+      const recording: ActiveRecording = { recorder: started, stream, chunks: [], options, startedAt: 0, leadIn: 0 };
+      started.ondataavailable = (e) => {
+        if (e.data.size > 0) recording.chunks.push(e.data);
+      };
+
+      await new Promise<void>((resolve, reject) => {
+        started.onstart = () => resolve();
+        started.onerror = () => reject(new Error('The recorder could not start'));
+        started.start();
+      });
+      if (generation !== recordingGenerationRef.current) throw new Error('The recording was cancelled');
+
+      recording.startedAt = performance.now();
+      recordingRef.current = recording;
+      setRecordingStream(stream);
+    } catch (error) {
+      if (recorder && recorder.state !== 'inactive') {
+        recorder.ondataavailable = null;
+        recorder.stop();
+      }
+      stream.getTracks().forEach(track => track.stop());
+      throw error;
+    }
+  }, [discardRecording]);
+
+  const markLoopStart = useCallback(() => {
+    const recording = recordingRef.current;
+    if (recording) recording.leadIn = (performance.now() - recording.startedAt) / 1000;
+  }, []);
+
+  /** Stops and stores the take; resolves with it, or null when nothing was being recorded */
+  const stopRecording = useCallback(async (): Promise<LoopTake | null> => {
+    const recording = recordingRef.current;
+    if (!recording || !trackId) {
+      discardRecording();
+      return null;
+    }
+    recordingRef.current = null;
+    setRecordingStream(null);
+
+    const stopped = new Promise<void>(resolve => {
+      recording.recorder.onstop = () => resolve();
+    });
+    recording.recorder.stop();
+    await stopped;
+    recording.stream.getTracks().forEach(track => track.stop());
+
+    const { options } = recording;
+    const mimeType = recording.recorder.mimeType || recording.chunks[0]?.type || '';
+    const blob = new Blob(recording.chunks, { type: mimeType });
+    const take: LoopTake = {
+      id: crypto.randomUUID(),
+      trackId,
+      name: `Take ${takes.filter(other => isTakeForLoop(other, options.loopStart, options.loopEnd)).length + 1}`,
+      loopStart: options.loopStart,
+      loopEnd: options.loopEnd,
+      mimeType,
+      hasVideo: options.video,
+      duration: (performance.now() - recording.startedAt) / 1000,
+      leadIn: recording.leadIn,
+      speed: options.speed,
+      latency: options.latency,
+      createdAt: Date.now()
+    };
+
+    await saveTake(take, blob);
+    setTakes(prev => [...prev, take]);
+    return take;
+  }, [trackId, takes, discardRecording]);
+
+  const removeTake = useCallback((id: string) => {
+    setTakes(prev => prev.filter(take => take.id !== id));
+    setActiveTakeId(prev => (prev === id ? null : prev));
+    deleteTake(id).catch(error => console.error('Failed to delete take:', error));
+  }, []);
+
+  const changeTakeName = useCallback((id: string, name: string) => {
+    const trimmed = name.trim();
+    if (!trimmed) return;
+    setTakes(prev => prev.map(take => (take.id === id ? { ...take, name: trimmed } : take)));
+    renameTake(id, trimmed).catch(error => console.error('Failed to rename take:', error));
+  }, []);
+
+  return {
+    takes: loopTakes,
+    activeTake,
+    activeTakeUrl,
+    selectTake: setActiveTakeId,
+    isRecording: recordingStream !== null,
+    recordingStream,
+    startRecording,
+    markLoopStart,
+    stopRecording,
+    removeTake,
+    renameTake: changeTakeName
+  };
+};
@@ -0,0 +1,401 @@
+import { useState, useRef, useEffect, useCallback, type RefObject } from 'react';
+import { useThrottledState } from '@/hooks/useThrottledState';
+import {
+  createLooperEngine, describeBackendFailures, LOOPER_BACKEND_LABELS,
+  type BackendFailure, type CrossfadeSettings, type LooperBackend, type LooperCapabilities, type LooperEngine
+} from '@/lib/looperEngine';
+import { isFrameStepper, VideoFrameLooper, type FrameStepper } from '@/lib/VideoFrameLooper';
+import { SyncedVideoLooper } from '@/lib/SyncedVideoLooper';
+import { computePeaks, updateTrack } from '@/lib/mediaLibrary';
+import type { PracticeFilterSettings } from '@/lib/practiceFilters';
+
+// Decodes a file's sound, or resolves with null for media without decodable audio
+const decodeAudio = async (arrayBuffer: ArrayBuffer): Promise<AudioBuffer | null> => {
+  const audioContext = new AudioContext();
+  try {
+    return await audioContext.decodeAudioData(arrayBuffer.slice(0));
+  } catch (error) {
+    console.warn('Failed to decode audio for waveform:', error);
+    return null;
+  } finally {
+    audioContext.close();
+  }
+};
+
+interface PlaybackState {
+  isPlaying: boolean;
+  hasMedia: boolean;
+  duration: number;
+  isAudio: boolean;
+  looperBackend: LooperBackend | null;
+  looperCapabilities: LooperCapabilities | null;
+  /** Why the file isn't on its preferred engine; null when it is */
+  engineNotice: string | null;
+  audioBuffer: AudioBuffer | null;
+  mediaUrl: string;
+  mediaTitle: string;
+  /** Measured video frame rate; null for audio or until enough frames have played */
+  frameRate: number | null;
+  /** Library id of the loaded track; null for files that aren't kept in the library */
+  trackId: string | null;
+}
+
+interface UseLooperEngineOptions {
+  /** The rendered <video>, which video files play through */
+  mediaRef: RefObject<HTMLVideoElement>;
+  /** Play video sound through the audio engine, with the picture following it */
+  videoAudioEngine: boolean;
+  playbackRate: number;
+  /** Output gain from 0 to 1 */
+  volume: number;
+  /** A-B region; without one the engine loops the whole track while isLooping */
+  loop: { start: number; end: number } | null;
+  isLooping: boolean;
+  transposeSemitones: number;
+  transposeCents: number;
+  crossfade: CrossfadeSettings;
+  filters: PracticeFilterSettings;
+  /** Calibrated output latency in seconds; null uses what the browser reports */
+  outputLatency: number | null;
+  /** Told whenever an engine is attached or torn down, so whatever follows playback can follow it */
+  onEngineChange?: (engine: LooperEngine | null) => void;
+  /** Every wrap of the loop */
+  onLoop?: () => void;
+}
+
+/**
+ * Owns the player's engine: loads files into the best backend that takes them, swaps video between
+ * its own sound and an audio engine, and keeps the engine in step with the playback settings.
+ * Engines are replaced on every load, so callers reach the current one through looperRef.
+ */
+export const useLooperEngine = (options: UseLooperEngineOptions) => {
+  const { mediaRef, videoAudioEngine, playbackRate, volume, loop, isLooping } = options;
+  const [playbackState, setPlaybackState] = useState<PlaybackState>({
+    isPlaying: false,
+    hasMedia: false,
+    duration: 0,
+    isAudio: false,
+    looperBackend: null,
+    looperCapabilities: null,
+    engineNotice: null,
+    audioBuffer: null,
+    mediaUrl: "",
+    mediaTitle: "",
+    frameRate: null,
+    trackId: null
+  });
+  const { isPlaying, duration, looperCapabilities, mediaUrl } = playbackState;
+
+  // Throttled time updates for performance
+  const [currentTime, setCurrentTimeThrottled] = useThrottledState(0, { throttleMs: 100 });
+
+  const optionsRef = useRef(options);
+  optionsRef.current = options;
+  const looperRef = useRef<LooperEngine | null>(null);
+  const loadedTrackIdRef = useRef<string | null>(null);
+  const pendingResumeRef = useRef<number | null>(null);
+  const mediaBlobRef = useRef<Blob | null>(null);
+  // The current file decoded once, shared by the waveform, analysis and the video's audio engine
+  const decodedAudioRef = useRef<Promise<AudioBuffer | null>>(Promise.resolve(null));
+
+  const setIsPlaying = useCallback((value: boolean) => {
+    setPlaybackState(prev => ({ ...prev, isPlaying: value }));
+  }, []);
+
+  const setDuration = useCallback((value: number) => {
+    setPlaybackState(prev => ({ ...prev, duration: value }));
+  }, []);
+
+  const setIsAudio = useCallback((value: boolean) => {
+    setPlaybackState(prev => ({ ...prev, isAudio: value }));
+  }, []);
+
+  const setLooperInfo = useCallback((looper: LooperEngine | null) => {
+    setPlaybackState(prev => ({
+      ...prev,
+      looperBackend: looper?.backend ?? null,
+      looperCapabilities: looper?.capabilities ?? null
+    }));
+  }, []);
+
+  const setEngineNotice = useCallback((value: string | null) => {
+    setPlaybackState(prev => ({ ...prev, engineNotice: value }));
+  }, []);
+
+  const setFrameRate = useCallback((value: number | null) => {
+    setPlaybackState(prev => ({ ...prev, frameRate: value }));
+  }, []);
+
+  const setCurrentTime = useCallback((value: number) => {
+    setCurrentTimeThrottled(value);
+  }, [setCurrentTimeThrottled]);
+
+  const seekTo = useCallback((time: number) => {
+    looperRef.current?.seek(time);
+    setCurrentTime(time);
+  }, [setCurrentTime]);
+
+  // Whether media is still the file being shown, so a load another one overtook can bail out
+  const isCurrentMedia = useCallback((media: Blob) => mediaBlobRef.current === media, []);
+
+  // Remember where each library track was left; runs before the engine is torn down on unmount
+  const saveLastPosition = useCallback(() => {
+    const id = loadedTrackIdRef.current;
+    const looper = looperRef.current;
+    if (!id || !looper) return;
+    updateTrack(id, { lastPosition: looper.getCurrentTime() }).catch(error => {
+      console.warn('Failed to save playback position:', error);
+    });
+  }, []);
+
+  useEffect(() => {
+    return () => saveLastPosition();
+  }, [saveLastPosition]);
+
+  useEffect(() => {
+    if (!isPlaying) return;
+    const interval = setInterval(saveLastPosition, 5000);
+    return () => clearInterval(interval);
+  }, [isPlaying, saveLastPosition]);
+
+  // Cleanup previous media URL when component unmounts
+  useEffect(() => {
+    return () => {
+      if (mediaUrl) {
+        URL.revokeObjectURL(mediaUrl);
+      }
+      if (looperRef.current) {
+        looperRef.current.destroy();
+        looperRef.current = null;
+        optionsRef.current.onEngineChange?.(null);
+      }
+    };
+  }, [mediaUrl]);
+
+  // Push playback settings to the active engine when state changes
+  useEffect(() => {
+    const looper = looperRef.current;
+    if (!looper) return;
+
+    looper.setPlaybackRate(playbackRate);
+    looper.setVolume(volume);
+
+    // A-B region takes precedence; otherwise the repeat toggle loops the whole track
+    if (loop) {
+      looper.setLoopPoints(loop.start, loop.end);
+      looper.setLooping(true);
+    } else {
+      looper.setLoopPoints(0, duration);
+      looper.setLooping(isLooping);
+    }
+  }, [playbackRate, volume, isLooping, loop, duration, looperCapabilities]);
+
+  // Transpose separately so speed and loop edits don't re-trigger pitch processing
+  const { transposeSemitones, transposeCents } = options;
+  useEffect(() => {
+    if (!looperCapabilities?.pitchShift) return;
+    looperRef.current?.setPitch(transposeSemitones, transposeCents);
+  }, [transposeSemitones, transposeCents, looperCapabilities, duration]);
+
+  const { durationMs: crossfadeMs, curve: crossfadeCurve } = options.crossfade;
+  useEffect(() => {
+    if (!looperCapabilities?.crossfade) return;
+    looperRef.current?.setCrossfade({ durationMs: crossfadeMs, curve: crossfadeCurve });
+  }, [crossfadeMs, crossfadeCurve, looperCapabilities]);
+
+  const { filters } = options;
+  useEffect(() => {
+    if (!looperCapabilities?.filters) return;
+    looperRef.current?.setFilters?.(filters);
+  }, [filters, looperCapabilities]);
+
+  // Engines allow for the calibrated latency, or what the browser reports without one
+  const { outputLatency } = options;
+  useEffect(() => {
+    looperRef.current?.setOutputLatency?.(outputLatency);
+  }, [outputLatency, looperCapabilities]);
+
+  const attachLooper = (looper: LooperEngine) => {
+    looperRef.current = looper;
+    optionsRef.current.onEngineChange?.(looper);
+    setLooperInfo(looper);
+
+    looper.setTimeUpdateCallback((time: number) => {
+      setCurrentTime(time);
+    });
+    looper.setEndedCallback(() => {
+      setIsPlaying(false);
+      setCurrentTime(0);
+    });
+    // Loop wraps go through the options ref so engine callbacks always see current state
+    looper.setLoopCallback(() => optionsRef.current.onLoop?.());
+  };
+
+  const resumePendingPosition = () => {
+    if (pendingResumeRef.current === null) return;
+    seekTo(pendingResumeRef.current);
+    pendingResumeRef.current = null;
+  };
+
+  // Loads an imported file or a stored library blob; resumeAt is applied once an engine is attached
+  const loadMedia = async (media: Blob, libraryTrackId: string | null, title: string, resumeAt: number = 0) => {
+    saveLastPosition();
+    looperRef.current?.pause();
+    setIsPlaying(false);
+    loadedTrackIdRef.current = libraryTrackId;
+    mediaBlobRef.current = media;
+    pendingResumeRef.current = resumeAt > 0 ? resumeAt : null;
+
+    // Clean up previous URL
+    if (mediaUrl) {
+      URL.revokeObjectURL(mediaUrl);
+    }
+
+    const isAudioFile = media.type.startsWith('audio/');
+    setPlaybackState(prev => ({
+      ...prev,
+      trackId: libraryTrackId,
+      mediaUrl: URL.createObjectURL(media),
+      mediaTitle: title,
+      frameRate: null,
+      engineNotice: null,
+      isAudio: isAudioFile,
+      hasMedia: true,
+      duration: 0
+    }));
+    setCurrentTime(0);
+
+    // Initialize audio processing for all files; a video's engine may start waiting on the decode before it ends
+    const reading = media.arrayBuffer();
+    const decoding = reading.then(decodeAudio);
+    decodedAudioRef.current = decoding;
+    const arrayBuffer = await reading;
+    // Another file may have been opened while this one was read; that load owns the engine now
+    if (mediaBlobRef.current !== media) return;
+
+    // Clean up existing looper
+    if (looperRef.current) {
+      looperRef.current.destroy();
+      looperRef.current = null;
+      optionsRef.current.onEngineChange?.(null);
+      setLooperInfo(null);
+    }
+
+    // Extract audio buffer for waveform display (for both audio and video files)
+    const decodedBuffer = await decoding;
+    if (mediaBlobRef.current !== media) return;
+    setPlaybackState(prev => ({ ...prev, audioBuffer: decodedBuffer }));
+    if (decodedBuffer && libraryTrackId) {
+      updateTrack(libraryTrackId, { duration: decodedBuffer.duration, peaks: computePeaks(decodedBuffer) }).catch(error => {
+        console.warn('Failed to save track details:', error);
+      });
+    }
+
+    // Initialize audio looping for audio files; video engines attach once metadata loads
+    if (isAudioFile) {
+      const failures: BackendFailure[] = [];
+      try {
+        const looper = await createLooperEngine(arrayBuffer, { onBackendFailure: failure => failures.push(failure) });
+        if (mediaBlobRef.current !== media) {
+          looper.destroy();
+          return;
+        }
+        attachLooper(looper);
+        setDuration(looper.getDuration());
+        setEngineNotice(describeBackendFailures(failures, `the ${LOOPER_BACKEND_LABELS[looper.backend]} engine`));
+        resumePendingPosition();
+        console.log(`Looper engine initialized: ${looper.backend}`);
+      } catch (error) {
+        console.error('Failed to initialize a looper engine:', error);
+        if (mediaBlobRef.current !== media) return;
+        setEngineNotice(describeBackendFailures(failures, "the browser's media player"));
+        // Fallback to the video element path
+        setIsAudio(false);
+      }
+    }
+  };
+
+  // Video either plays its own sound, or is muted and follows an audio engine playing the decoded track
+  const attachVideoEngine = async (useAudioEngine: boolean) => {
+    const video = mediaRef.current;
+    const media = mediaBlobRef.current;
+    const decoding = decodedAudioRef.current;
+    if (!video || !media) return;
+
+    const previous = looperRef.current;
+    const resumeAt = previous ? previous.getCurrentTime() : null;
+    if (previous) {
+      previous.pause();
+      previous.destroy();
+      looperRef.current = null;
+      optionsRef.current.onEngineChange?.(null);
+      setIsPlaying(false);
+    }
+
+    let looper: (LooperEngine & FrameStepper) | null = null;
+    const failures: BackendFailure[] = [];
+    if (useAudioEngine) {
+      try {
+        const decoded = await decoding;
+        if (!decoded) throw new Error('The video has no decodable audio');
+        const audio = await createLooperEngine(decoded, {
+          backends: ['worklet', 'webaudio'],
+          onBackendFailure: failure => failures.push(failure)
+        });
+        // Another file may have been opened while this one decoded
+        if (mediaBlobRef.current !== media || mediaRef.current !== video) {
+          audio.destroy();
+          return;
+        }
+        looper = new SyncedVideoLooper(audio, video);
+      } catch (error) {
+        console.warn('Audio engine unavailable for video, using the video element:', error);
+      }
+    }
+
+    // Drive the rendered <video> through the same engine interface as audio
+    looper ??= new VideoFrameLooper(video);
+    looper.setFrameRateCallback(setFrameRate);
+    setEngineNotice(describeBackendFailures(
+      failures,
+      looper instanceof SyncedVideoLooper ? `the ${LOOPER_BACKEND_LABELS[looper.backend]} engine` : "the video's own sound"
+    ));
+    attachLooper(looper);
+    setDuration(looper.getDuration());
+    if (resumeAt !== null) seekTo(resumeAt);
+    resumePendingPosition();
+  };
+  const attachVideoEngineRef = useRef(attachVideoEngine);
+  attachVideoEngineRef.current = attachVideoEngine;
+
+  const handleLoadedMetadata = () => {
+    attachVideoEngineRef.current(videoAudioEngine).catch(error => {
+      console.error('Failed to attach a video engine:', error);
+    });
+  };
+
+  // Switching the option swaps engines in place, keeping the position
+  useEffect(() => {
+    const looper = looperRef.current;
+    if (!looper || !isFrameStepper(looper)) return;
+    if ((looper instanceof SyncedVideoLooper) === videoAudioEngine) return;
+    attachVideoEngineRef.current(videoAudioEngine).catch(error => {
+      console.error('Failed to switch the video engine:', error);
+    });
+  }, [videoAudioEngine]);
+
+  return {
+    playbackState,
+    setIsPlaying,
+    currentTime,
+    setCurrentTime,
+    seekTo,
+    looperRef,
+    /** Library id of the track being loaded or shown, ahead of the state update */
+    loadedTrackIdRef,
+    isCurrentMedia,
+    saveLastPosition,
+    loadMedia,
+    handleLoadedMetadata
+  };
+};
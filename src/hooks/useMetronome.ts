@@ -0,0 +1,143 @@
+import { useState, useRef, useEffect, useCallback, useMemo } from 'react';
+import { Metronome, type MetronomeSubdivision } from '@/lib/Metronome';
+import { createUniformGrid, type BeatGrid } from '@/lib/beatGrid';
+import type { LooperEngine } from '@/lib/looperEngine';
+
+interface MetronomeState {
+  enabled: boolean;
+  volume: number;
+  subdivision: MetronomeSubdivision;
+  accentDownbeats: boolean;
+  /** One bar of clicks with the track held before each loop pass */
+  countIn: boolean;
+}
+
+interface UseMetronomeOptions {
+  /** Engine playing when the metronome is created; later engines arrive through setEngine */
+  getEngine: () => LooperEngine | null;
+  /** Detected or tapped grid; without one the metronome clicks bpm from the top of the track */
+  grid: BeatGrid | null;
+  bpm: number;
+  duration: number;
+  playbackRate: number;
+  /** A-B region; without one the clicks follow the whole track while isLooping */
+  loop: { start: number; end: number } | null;
+  isLooping: boolean;
+  isPlaying: boolean;
+  /** Calibrated output latency in seconds; null uses what the browser reports */
+  outputLatency: number | null;
+}
+
+/** The metronome outlives engines; it follows the same speed, loop and grid as playback */
+export const useMetronome = (options: UseMetronomeOptions) => {
+  const { grid, bpm, duration, playbackRate, loop, isLooping, isPlaying, outputLatency } = options;
+  const [metronomeState, setMetronomeState] = useState<MetronomeState>({
+    enabled: false,
+    volume: 80,
+    subdivision: 1,
+    accentDownbeats: true,
+    countIn: false
+  });
+  const { enabled, volume, subdivision, accentDownbeats } = metronomeState;
+
+  const optionsRef = useRef(options);
+  optionsRef.current = options;
+  const metronomeRef = useRef<Metronome | null>(null);
+
+  const setEnabled = useCallback((value: boolean) => {
+    setMetronomeState(prev => ({ ...prev, enabled: value }));
+  }, []);
+
+  const setVolume = useCallback((value: number) => {
+    setMetronomeState(prev => ({ ...prev, volume: value }));
+  }, []);
+
+  const setSubdivision = useCallback((value: MetronomeSubdivision) => {
+    setMetronomeState(prev => ({ ...prev, subdivision: value }));
+  }, []);
+
+  const setAccentDownbeats = useCallback((value: boolean) => {
+    setMetronomeState(prev => ({ ...prev, accentDownbeats: value }));
+  }, []);
+
+  const setCountIn = useCallback((value: boolean) => {
+    setMetronomeState(prev => ({ ...prev, countIn: value }));
+  }, []);
+
+  useEffect(() => {
+    const metronome = new Metronome();
+    metronome.setEngine(optionsRef.current.getEngine());
+    metronomeRef.current = metronome;
+    metronome.setOutputLatency(optionsRef.current.outputLatency);
+    return () => {
+      metronome.destroy();
+      metronomeRef.current = null;
+    };
+  }, []);
+
+  const metronomeGrid = useMemo(
+    () => grid ?? (duration > 0 ? createUniformGrid(bpm, 0, duration) : null),
+    [grid, bpm, duration]
+  );
+
+  useEffect(() => {
+    metronomeRef.current?.setGrid(metronomeGrid);
+  }, [metronomeGrid]);
+
+  useEffect(() => {
+    metronomeRef.current?.setPlaybackRate(playbackRate);
+  }, [playbackRate]);
+
+  useEffect(() => {
+    const metronome = metronomeRef.current;
+    if (!metronome) return;
+    if (loop) {
+      metronome.setLoop(loop.start, loop.end, true);
+    } else {
+      metronome.setLoop(0, duration, isLooping);
+    }
+  }, [isLooping, loop, duration]);
+
+  useEffect(() => {
+    const metronome = metronomeRef.current;
+    if (!metronome) return;
+    metronome.setVolume(volume / 100);
+    metronome.setSubdivision(subdivision);
+    metronome.setAccentDownbeats(accentDownbeats);
+  }, [volume, subdivision, accentDownbeats]);
+
+  useEffect(() => {
+    if (enabled && isPlaying) metronomeRef.current?.start();
+    else metronomeRef.current?.stop();
+  }, [enabled, isPlaying]);
+
+  useEffect(() => {
+    metronomeRef.current?.setOutputLatency(outputLatency);
+  }, [outputLatency]);
+
+  const setEngine = useCallback((engine: LooperEngine | null) => {
+    metronomeRef.current?.setEngine(engine);
+  }, []);
+
+  // Resolves true once the bar has been clicked, false when it was cancelled
+  const playCountIn = useCallback(async (beats: number, beatSeconds: number) => {
+    const metronome = metronomeRef.current;
+    return metronome ? metronome.playCountIn(beats, beatSeconds) : false;
+  }, []);
+
+  const cancelCountIn = useCallback(() => {
+    metronomeRef.current?.cancelCountIn();
+  }, []);
+
+  return {
+    metronomeState,
+    setEnabled,
+    setVolume,
+    setSubdivision,
+    setAccentDownbeats,
+    setCountIn,
+    setEngine,
+    playCountIn,
+    cancelCountIn
+  };
+};
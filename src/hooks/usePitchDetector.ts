@@ -0,0 +1,112 @@
+import { useState, useRef, useEffect, useCallback } from 'react';
+import { readPitch } from '@/lib/tuner';
+
+// Readings less periodic than this are noise or a chord, and are ignored
+const MIN_CLARITY = 0.85;
+// The displayed frequency is the median of this many recent readings, which hides octave slips
+const SMOOTHING_READINGS = 5;
+// Steady readings kept for measuring how far the instrument sits from A440
+const OFFSET_READINGS = 120;
+const MIN_OFFSET_READINGS = 20;
+// Low enough for a bass's low E (41.2 Hz), even tuned down a step
+const MIN_FREQUENCY = 35;
+
+interface PitchMessage {
+  frequency: number | null;
+  clarity: number;
+  level: number;
+}
+
+const median = (values: number[]) => {
+  const sorted = [...values].sort((a, b) => a - b);
+  return sorted[Math.floor(sorted.length / 2)];
+};
+
+/** Listens to the microphone through the YIN worklet while started */
+export const usePitchDetector = () => {
+  const [isListening, setIsListening] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [frequency, setFrequency] = useState<number | null>(null);
+  const [level, setLevel] = useState(0);
+  const [measuredOffsetCents, setMeasuredOffsetCents] = useState<number | null>(null);
+
+  const sessionRef = useRef<{ context: AudioContext; stream: MediaStream } | null>(null);
+  const recentRef = useRef<number[]>([]);
+  const offsetsRef = useRef<number[]>([]);
+
+  const stop = useCallback(() => {
+    const session = sessionRef.current;
+    sessionRef.current = null;
+    if (session) {
+      session.stream.getTracks().forEach(track => track.stop());
+      session.context.close();
+    }
+    recentRef.current = [];
+    setIsListening(false);
+    setFrequency(null);
+    setLevel(0);
+  }, []);
+
+  const handleMessage = useCallback((message: PitchMessage) => {
+    setLevel(message.level);
+    if (message.frequency === null || message.clarity < MIN_CLARITY) {
+      recentRef.current = [];
+      setFrequency(null);
+      return;
+    }
+
+    const recent = recentRef.current;
+    recent.push(message.frequency);
+    if (recent.length > SMOOTHING_READINGS) recent.shift();
+    const smoothed = median(recent);
+    setFrequency(smoothed);
+
+    // Offsets are measured against A440 so they stay meaningful whatever reference is chosen
+    const offsets = offsetsRef.current;
+    offsets.push(readPitch(smoothed).cents);
+    if (offsets.length > OFFSET_READINGS) offsets.shift();
+    if (offsets.length >= MIN_OFFSET_READINGS) setMeasuredOffsetCents(median(offsets));
+  }, []);
+
+  const start = useCallback(async () => {
+    if (sessionRef.current) return;
+    setError(null);
+    try {
+      const stream = await navigator.mediaDevices.getUserMedia({
+        audio: { echoCancellation: false, noiseSuppression: false, autoGainControl: false }
+      });
+      const context = new AudioContext();
+      sessionRef.current = { context, stream };
+      await context.audioWorklet.addModule('/pitch-processor.js');
+      if (sessionRef.current?.context !== context) return;
+
+      // The detector only runs while connected, so it feeds a muted gain
+      const detector = new AudioWorkletNode(context, 'pitch-processor', {
+        processorOptions: { minFrequency: MIN_FREQUENCY }
+      });
+      const muted = context.createGain();
+      muted.gain.value = 0;
+      context.createMediaStreamSource(stream).connect(detector);
+      detector.connect(muted).connect(context.destination);
+      detector.port.onmessage = (e) => handleMessage(e.data);
+
+      if (context.state === 'suspended') await context.resume();
+      setIsListening(true);
+    } catch (error) {
+      console.warn('Tuner failed to start:', error);
+      setError(error instanceof Error && error.name === 'NotAllowedError'
+        ? 'Microphone access was refused'
+        : 'The microphone could not be opened');
+      stop();
+    }
+  }, [handleMessage, stop]);
+
+  const resetMeasuredOffset = useCallback(() => {
+    offsetsRef.current = [];
+    setMeasuredOffsetCents(null);
+  }, []);
+
+  useEffect(() => stop, [stop]);
+
+  return { isListening, error, frequency, level, measuredOffsetCents, start, stop, resetMeasuredOffset };
+};
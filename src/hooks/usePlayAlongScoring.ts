@@ -0,0 +1,342 @@
+import { useState, useRef, useEffect, useCallback, useMemo } from 'react';
+import { reportedOutputLatency, type MediaClock } from '@/lib/looperEngine';
+import type { LoopScore } from '@/lib/playAlongScoring';
+
+const MICROPHONE_CONSTRAINTS: MediaTrackConstraints = {
+  echoCancellation: false,
+  noiseSuppression: false,
+  autoGainControl: false
+};
+
+// Audio kept either side of a pass so onsets at its edges have context to be detected in
+const PASS_MARGIN_SECONDS = 0.15;
+// A pass whose clock drifted further than this from continuous playback was seeked, paused or sped up
+const CONTINUITY_TOLERANCE_SECONDS = 0.05;
+const MAX_PASSES = 50;
+
+const roundTripFor = (roundTrip: number | null, context: AudioContext) => roundTrip ?? reportedOutputLatency(context);
+
+interface UsePlayAlongScoringOptions {
+  enabled: boolean;
+  isPlaying: boolean;
+  audioBuffer: AudioBuffer | null;
+  loop: { start: number; end: number } | null;
+  /** Calibrated round trip in seconds; null falls back to the output latency the browser reports */
+  roundTrip: number | null;
+  /** Semitones the track is transposed by, so played pitches are compared with what was heard */
+  semitoneShift: number;
+  getClock: () => MediaClock | null;
+  /** Every pass once scored; null when nothing was played over it */
+  onScore?: (score: LoopScore | null) => void;
+}
+
+interface CaptureSession {
+  context: AudioContext;
+  stream: MediaStream;
+  source: MediaStreamAudioSourceNode;
+  capture: AudioWorkletNode;
+  blocks: { frame: number; samples: Float32Array }[];
+}
+
+// The pass being played: when its first sample was rendered and where in the loop that was
+interface OpenPass {
+  renderStart: number;
+  startPosition: number;
+  playbackRate: number;
+}
+
+interface PendingPass {
+  inputStart: number;
+  inputEnd: number;
+  startPosition: number;
+  loopLength: number;
+  playbackRate: number;
+  semitoneShift: number;
+}
+
+/**
+ * Scores each pass of the loop against the reference while enabled. The microphone is captured on
+ * the engine's own audio clock, so every input sample maps to the loop position that was rendered
+ * one round trip earlier; the player reports wraps through passCompleted.
+ */
+export const usePlayAlongScoring = (options: UsePlayAlongScoringOptions) => {
+  const { enabled, isPlaying, audioBuffer, loop } = options;
+  const [isListening, setIsListening] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [isReferenceReady, setIsReferenceReady] = useState(false);
+  const [passes, setPasses] = useState<(LoopScore | null)[]>([]);
+
+  const optionsRef = useRef(options);
+  optionsRef.current = options;
+  const workerRef = useRef<Worker | null>(null);
+  const sessionRef = useRef<CaptureSession | null>(null);
+  const openPassRef = useRef<OpenPass | null>(null);
+  const pendingRef = useRef<PendingPass[]>([]);
+  const requestIdRef = useRef(0);
+  // Scores of passes requested before the loop last changed belong to the old loop
+  const staleUntilRef = useRef(0);
+  // The context a microphone is being opened on, so a quick pause and play does not open two
+  const openingRef = useRef<AudioContext | null>(null);
+
+  const closeSession = useCallback(() => {
+    const session = sessionRef.current;
+    sessionRef.current = null;
+    openPassRef.current = null;
+    pendingRef.current = [];
+    setIsListening(false);
+    if (!session) return;
+
+    // The context belongs to the engine, so only this hook's nodes are taken down
+    session.capture.port.onmessage = null;
+    session.source.disconnect();
+    session.capture.disconnect();
+    session.stream.getTracks().forEach(track => track.stop());
+  }, []);
+
+  // Sends every pending pass whose audio has fully arrived to the worker
+  const flushPending = useCallback(() => {
+    const session = sessionRef.current;
+    const worker = workerRef.current;
+    if (!session || !worker || !session.blocks.length) return;
+
+    const { blocks, context } = session;
+    const sampleRate = context.sampleRate;
+    const last = blocks[blocks.length - 1];
+    const capturedUntil = (last.frame + last.samples.length) / sampleRate;
+
+    pendingRef.current = pendingRef.current.filter(pass => {
+      const windowEnd = pass.inputEnd + PASS_MARGIN_SECONDS;
+      if (capturedUntil < windowEnd) return true;
+
+      const firstFrame = Math.max(blocks[0].frame, Math.round((pass.inputStart - PASS_MARGIN_SECONDS) * sampleRate));
+      const endFrame = Math.round(windowEnd * sampleRate);
+      if (endFrame <= firstFrame) return false;
+
+      const samples = new Float32Array(endFrame - firstFrame);
+      blocks.forEach(block => {
+        const offset = block.frame - firstFrame;
+        if (offset >= samples.length || offset + block.samples.length <= 0) return;
+        const from = Math.max(0, -offset);
+        const to = Math.min(block.samples.length, samples.length - offset);
+        samples.set(block.samples.subarray(from, to), offset + from);
+      });
+
+      worker.postMessage({
+        type: 'scorePass',
+        requestId: ++requestIdRef.current,
+        samples,
+        sampleRate,
+        startPosition: pass.startPosition + (firstFrame / sampleRate - pass.inputStart) * pass.playbackRate,
+        loopLength: pass.loopLength,
+        playbackRate: pass.playbackRate,
+        semitoneShift: pass.semitoneShift
+      }, [samples.buffer]);
+      return false;
+    });
+
+    // Nothing before the earliest audio still needed is kept
+    const openPass = openPassRef.current;
+    const needed = [
+      ...pendingRef.current.map(pass => pass.inputStart),
+      ...(openPass ? [openPass.renderStart + roundTripFor(optionsRef.current.roundTrip, context)] : [])
+    ];
+    const keepFrom = (needed.length ? Math.min(...needed) - PASS_MARGIN_SECONDS : capturedUntil - PASS_MARGIN_SECONDS) * sampleRate;
+    while (blocks.length > 1 && blocks[0].frame + blocks[0].samples.length < keepFrom) blocks.shift();
+  }, []);
+
+  const openSession = useCallback(async (context: AudioContext) => {
+    setError(null);
+    openingRef.current = context;
+    let stream: MediaStream | null = null;
+    try {
+      stream = await navigator.mediaDevices.getUserMedia({ audio: MICROPHONE_CONSTRAINTS });
+      await context.audioWorklet.addModule('/capture-processor.js');
+      if (!optionsRef.current.enabled) {
+        stream.getTracks().forEach(track => track.stop());
+        return;
+      }
+
+      // The capture node only runs while connected, so it feeds a muted gain
+      const source = context.createMediaStreamSource(stream);
+      const capture = new AudioWorkletNode(context, 'capture-processor');
+      const muted = context.createGain();
+      muted.gain.value = 0;
+      source.connect(capture);
+      capture.connect(muted).connect(context.destination);
+
+      const session: CaptureSession = { context, stream, source, capture, blocks: [] };
+      capture.port.onmessage = (e) => {
+        session.blocks.push(e.data);
+        flushPending();
+      };
+      sessionRef.current = session;
+      setIsListening(true);
+    } catch (error) {
+      console.warn('Play-along scoring failed to start:', error);
+      stream?.getTracks().forEach(track => track.stop());
+      setError(error instanceof Error && error.name === 'NotAllowedError'
+        ? 'Microphone access was refused'
+        : 'The microphone could not be opened');
+    } finally {
+      openingRef.current = null;
+    }
+  }, [flushPending]);
+
+  // Starts a pass from wherever in the loop the clock says playback is
+  const openPassFromClock = useCallback(() => {
+    const { loop: currentLoop, getClock } = optionsRef.current;
+    const clock = getClock();
+    if (!clock || !currentLoop || clock.mediaTime < currentLoop.start || clock.mediaTime >= currentLoop.end) {
+      openPassRef.current = null;
+      return;
+    }
+    openPassRef.current = {
+      renderStart: clock.contextTime,
+      startPosition: clock.mediaTime - currentLoop.start,
+      playbackRate: clock.playbackRate
+    };
+  }, []);
+
+  const passCompleted = useCallback(() => {
+    const session = sessionRef.current;
+    const { loop: currentLoop, getClock, semitoneShift } = optionsRef.current;
+    const clock = getClock();
+    const openPass = openPassRef.current;
+    if (!session || !currentLoop || !clock || clock.context !== session.context) return;
+
+    const loopLength = currentLoop.end - currentLoop.start;
+    const rate = clock.playbackRate;
+    // The wrap is reported from the main thread, so the clock may sit on either side of it
+    const sinceStart = clock.mediaTime - currentLoop.start;
+    const wrapAt = sinceStart < loopLength / 2
+      ? clock.contextTime - sinceStart / rate
+      : clock.contextTime + (currentLoop.end - clock.mediaTime) / rate;
+
+    if (openPass && openPass.playbackRate === rate) {
+      const played = (wrapAt - openPass.renderStart) * rate;
+      if (Math.abs(played - (loopLength - openPass.startPosition)) < CONTINUITY_TOLERANCE_SECONDS) {
+        const roundTrip = roundTripFor(optionsRef.current.roundTrip, session.context);
+        pendingRef.current.push({
+          inputStart: openPass.renderStart + roundTrip,
+          inputEnd: wrapAt + roundTrip,
+          startPosition: openPass.startPosition,
+          loopLength,
+          playbackRate: rate,
+          semitoneShift
+        });
+      }
+    }
+    openPassRef.current = { renderStart: wrapAt, startPosition: 0, playbackRate: rate };
+    flushPending();
+  }, [flushPending]);
+
+  // The worker lives while scoring is on
+  useEffect(() => {
+    if (!enabled) return;
+
+    const worker = new Worker(
+      new URL('../workers/PlayAlongWorker.ts', import.meta.url),
+      { type: 'module' }
+    );
+    worker.onmessage = (e) => {
+      const { type, requestId, score, error: workerError } = e.data;
+      switch (type) {
+        case 'referenceReady':
+          setIsReferenceReady(true);
+          break;
+        case 'scored':
+          if (requestId <= staleUntilRef.current) break;
+          setPasses(prev => [...prev, score].slice(-MAX_PASSES));
+          optionsRef.current.onScore?.(score);
+          break;
+        case 'error':
+          console.warn('Play-along scoring failed:', workerError);
+          break;
+      }
+    };
+    workerRef.current = worker;
+
+    return () => {
+      worker.terminate();
+      workerRef.current = null;
+      setIsReferenceReady(false);
+    };
+  }, [enabled]);
+
+  // A new loop or track starts the history afresh and replaces the reference
+  const loopStart = loop?.start ?? null;
+  const loopEnd = loop?.end ?? null;
+  useEffect(() => {
+    setPasses([]);
+    setIsReferenceReady(false);
+    pendingRef.current = [];
+    openPassRef.current = null;
+    staleUntilRef.current = requestIdRef.current;
+    const worker = workerRef.current;
+    if (!enabled || !worker || !audioBuffer || loopStart === null || loopEnd === null) return;
+
+    const first = Math.max(0, Math.floor(loopStart * audioBuffer.sampleRate));
+    const last = Math.min(audioBuffer.length, Math.ceil(loopEnd * audioBuffer.sampleRate));
+    if (last <= first) return;
+    const channels = Array.from({ length: audioBuffer.numberOfChannels }, (_, channel) => {
+      const data = new Float32Array(last - first);
+      audioBuffer.copyFromChannel(data, channel, first);
+      return data;
+    });
+    worker.postMessage(
+      { type: 'setReference', channels, sampleRate: audioBuffer.sampleRate },
+      channels.map(data => data.buffer)
+    );
+  }, [enabled, audioBuffer, loopStart, loopEnd]);
+
+  // The microphone opens on the engine's context the first time its clock runs, and is reopened
+  // only when a new track brings a new engine
+  const listenFromClock = useCallback(() => {
+    const clock = optionsRef.current.getClock();
+    if (!optionsRef.current.enabled || !clock) {
+      openPassRef.current = null;
+      return;
+    }
+    if (openingRef.current === clock.context) return;
+    if (sessionRef.current?.context !== clock.context) {
+      closeSession();
+      openSession(clock.context).then(openPassFromClock);
+    } else {
+      openPassFromClock();
+    }
+  }, [closeSession, openSession, openPassFromClock]);
+
+  // A count-in keeps the clock stopped after isPlaying turns on; restartPass picks up from there
+  useEffect(() => {
+    if (!enabled) {
+      closeSession();
+      setError(null);
+      return;
+    }
+    if (!isPlaying) {
+      openPassRef.current = null;
+      return;
+    }
+    listenFromClock();
+  }, [enabled, isPlaying, closeSession, listenFromClock]);
+
+  useEffect(() => closeSession, [closeSession]);
+
+  const scores = useMemo(() => passes.filter((score): score is LoopScore => score !== null), [passes]);
+  const averageAccuracy = scores.length
+    ? Math.round(scores.reduce((sum, score) => sum + score.accuracy, 0) / scores.length)
+    : null;
+
+  return {
+    isListening,
+    error,
+    isReferenceReady,
+    /** Oldest first; null entries are passes with nothing played */
+    passes,
+    lastScore: passes.length ? passes[passes.length - 1] : undefined,
+    averageAccuracy,
+    passCompleted,
+    /** For when playback resumes without the player pausing, as after a count-in */
+    restartPass: listenFromClock
+  };
+};
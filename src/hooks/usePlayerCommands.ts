@@ -0,0 +1,171 @@
+import { useState, useRef, useEffect, useCallback } from 'react';
+import {
+  DEFAULT_BINDINGS,
+  PLAYER_COMMANDS,
+  assignBinding,
+  findCommand,
+  keyBindingFromEvent,
+  loadCommandSettings,
+  midiBindingFromMessage,
+  removeBinding,
+  saveCommandSettings,
+  type PlayerCommand,
+  type PlayerCommandSettings
+} from '@/lib/playerCommands';
+
+// Keys a focused control handles itself: a button presses on Space, a slider moves on the arrows
+const WIDGET_KEYS = [' ', 'Enter', 'ArrowLeft', 'ArrowRight', 'ArrowUp', 'ArrowDown', 'Home', 'End', 'PageUp', 'PageDown'];
+
+const isTextEntry = (target: EventTarget | null) =>
+  target instanceof HTMLElement && (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName));
+
+const isWidget = (target: EventTarget | null) =>
+  target instanceof HTMLElement && (target.tagName === 'BUTTON' || target.hasAttribute('role'));
+
+interface UsePlayerCommandsOptions {
+  enabled: boolean;
+  onCommand: (command: PlayerCommand) => void;
+}
+
+/**
+ * Runs player commands from the keyboard (page-turner pedals included, as they type keys) and
+ * from MIDI inputs, with bindings the player can relearn. While learning, the next key or MIDI
+ * control pressed is bound to that command instead; Escape cancels.
+ */
+export const usePlayerCommands = ({ enabled, onCommand }: UsePlayerCommandsOptions) => {
+  const [settings, setSettings] = useState<PlayerCommandSettings>(loadCommandSettings);
+  const [learning, setLearning] = useState<PlayerCommand | null>(null);
+  const [midiInputs, setMidiInputs] = useState<string[]>([]);
+  const [midiError, setMidiError] = useState<string | null>(null);
+
+  const settingsRef = useRef(settings);
+  settingsRef.current = settings;
+  const learningRef = useRef(learning);
+  learningRef.current = learning;
+  const onCommandRef = useRef(onCommand);
+  onCommandRef.current = onCommand;
+  const enabledRef = useRef(enabled);
+  enabledRef.current = enabled;
+
+  const updateSettings = useCallback((update: (prev: PlayerCommandSettings) => PlayerCommandSettings) => {
+    setSettings(prev => {
+      const next = update(prev);
+      saveCommandSettings(next);
+      return next;
+    });
+  }, []);
+
+  // Returns whether the binding was used, so the event can be kept from the page
+  const handleBinding = useCallback((binding: string, isRepeat: boolean) => {
+    const command = learningRef.current;
+    if (command) {
+      updateSettings(prev => ({ ...prev, bindings: assignBinding(prev.bindings, command, binding) }));
+      setLearning(null);
+      return true;
+    }
+
+    const bound = findCommand(settingsRef.current.bindings, binding);
+    if (!bound || !enabledRef.current) return false;
+    if (!isRepeat || PLAYER_COMMANDS.find(info => info.id === bound)?.repeats) onCommandRef.current(bound);
+    return true;
+  }, [updateSettings]);
+
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (learningRef.current && event.key === 'Escape') {
+        event.preventDefault();
+        setLearning(null);
+        return;
+      }
+      if (!learningRef.current) {
+        if (event.defaultPrevented || isTextEntry(event.target)) return;
+        if (isWidget(event.target) && WIDGET_KEYS.includes(event.key)) return;
+      }
+
+      const binding = keyBindingFromEvent(event);
+      if (binding && handleBinding(binding, event.repeat)) event.preventDefault();
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [handleBinding]);
+
+  // MIDI inputs are listened to while enabled, including controllers plugged in later
+  const midiEnabled = settings.midiEnabled;
+  useEffect(() => {
+    setMidiInputs([]);
+    setMidiError(null);
+    if (!midiEnabled) return;
+    if (!navigator.requestMIDIAccess) {
+      setMidiError('MIDI is not supported in this browser');
+      return;
+    }
+
+    let access: MIDIAccess | null = null;
+    let cancelled = false;
+    const controlValues = new Map<string, number>();
+
+    const handleMessage = (event: MIDIMessageEvent) => {
+      const data = event.data;
+      if (!data || data.length < 2) return;
+      const controlKey = `${data[0] & 0x0f}:${data[1]}`;
+      const binding = midiBindingFromMessage(data, controlValues.get(controlKey) ?? 0);
+      if ((data[0] & 0xf0) === 0xb0) controlValues.set(controlKey, data[2]);
+      if (binding) handleBinding(binding, false);
+    };
+
+    const attachInputs = () => {
+      if (!access) return;
+      const names: string[] = [];
+      access.inputs.forEach(input => {
+        input.onmidimessage = handleMessage;
+        names.push(input.name ?? 'MIDI input');
+      });
+      setMidiInputs(names);
+    };
+
+    navigator.requestMIDIAccess()
+      .then(granted => {
+        if (cancelled) return;
+        access = granted;
+        access.onstatechange = attachInputs;
+        attachInputs();
+      })
+      .catch(error => {
+        console.warn('MIDI access failed:', error);
+        if (!cancelled) setMidiError('MIDI access was refused');
+      });
+
+    return () => {
+      cancelled = true;
+      if (!access) return;
+      access.onstatechange = null;
+      access.inputs.forEach(input => { input.onmidimessage = null; });
+    };
+  }, [midiEnabled, handleBinding]);
+
+  const setMidiEnabled = useCallback((value: boolean) => {
+    updateSettings(prev => ({ ...prev, midiEnabled: value }));
+  }, [updateSettings]);
+
+  const unbind = useCallback((command: PlayerCommand, binding: string) => {
+    updateSettings(prev => ({ ...prev, bindings: removeBinding(prev.bindings, command, binding) }));
+  }, [updateSettings]);
+
+  const resetBindings = useCallback(() => {
+    updateSettings(prev => ({ ...prev, bindings: DEFAULT_BINDINGS }));
+    setLearning(null);
+  }, [updateSettings]);
+
+  return {
+    bindings: settings.bindings,
+    learning,
+    startLearning: setLearning,
+    unbind,
+    resetBindings,
+    midiEnabled,
+    setMidiEnabled,
+    midiInputs,
+    midiError
+  };
+};
@@ -0,0 +1,98 @@
+import { useRef, useCallback, useEffect } from 'react';
+import { saveSession, type PracticeSession } from '@/lib/practiceSessions';
+
+// Sessions shorter than this are accidental plays and are not kept
+const MIN_SESSION_SECONDS = 10;
+
+interface UsePracticeSessionRecorderOptions {
+  trackId: string | null;
+  trackTitle: string;
+  isPlaying: boolean;
+  speed: number;
+  /** Current A-B region while looping, used to attribute completed loops */
+  loopRegion: { start: number; end: number; name?: string } | null;
+}
+
+export const usePracticeSessionRecorder = (options: UsePracticeSessionRecorderOptions) => {
+  const sessionRef = useRef<PracticeSession | null>(null);
+  const speedSecondsRef = useRef(0);
+  const optionsRef = useRef(options);
+  optionsRef.current = options;
+
+  /** Saves the session in progress (if long enough) and starts fresh on the next play */
+  const endSession = useCallback(() => {
+    const session = sessionRef.current;
+    sessionRef.current = null;
+    if (!session || session.practiceSeconds < MIN_SESSION_SECONDS) return;
+
+    saveSession({
+      ...session,
+      endedAt: Date.now(),
+      averageSpeed: Math.round((speedSecondsRef.current / session.practiceSeconds) * 10) / 10
+    });
+  }, []);
+
+  const recordLoop = useCallback(() => {
+    const session = sessionRef.current;
+    const region = optionsRef.current.loopRegion;
+    if (!session || !region) return;
+
+    session.loopCount++;
+    const usage = session.loopsUsed.find(loop => loop.start === region.start && loop.end === region.end);
+    if (usage) {
+      usage.loops++;
+      if (region.name) usage.name = region.name;
+    } else {
+      session.loopsUsed.push({ ...region, loops: 1 });
+    }
+  }, []);
+
+  // Accumulate playing time once a second; the session begins on the first play
+  useEffect(() => {
+    if (!options.isPlaying) return;
+
+    const interval = setInterval(() => {
+      const { trackId, trackTitle, speed } = optionsRef.current;
+      if (!sessionRef.current) {
+        const now = Date.now();
+        sessionRef.current = {
+          id: crypto.randomUUID(),
+          trackId,
+          trackTitle,
+          startedAt: now,
+          endedAt: now,
+          practiceSeconds: 0,
+          loopCount: 0,
+          loopsUsed: [],
+          startSpeed: speed,
+          maxSpeed: speed,
+          averageSpeed: speed
+        };
+        speedSecondsRef.current = 0;
+      }
+
+      const session = sessionRef.current;
+      session.practiceSeconds++;
+      session.maxSpeed = Math.max(session.maxSpeed, speed);
+      speedSecondsRef.current += speed;
+    }, 1000);
+
+    return () => clearInterval(interval);
+  }, [options.isPlaying]);
+
+  // Switching media closes the session for the previous track
+  useEffect(() => {
+    endSession();
+  }, [options.trackId, options.trackTitle, endSession]);
+
+  // Leaving the page or this tab closes the session
+  useEffect(() => {
+    window.addEventListener('pagehide', endSession);
+    return () => {
+      window.removeEventListener('pagehide', endSession);
+      endSession();
+    };
+  }, [endSession]);
+
+  return { recordLoop, endSession };
+};
@@ -0,0 +1,8 @@
+import { useSyncExternalStore } from 'react';
+import { getPracticeControls, getPracticeSnapshot, subscribeToPractice } from '@/lib/practiceStore';
+
+/** Live player state for screens outside the player, plus the controls it has registered */
+export const usePracticeState = () => {
+  const practice = useSyncExternalStore(subscribeToPractice, getPracticeSnapshot);
+  return { practice, controls: getPracticeControls };
+};
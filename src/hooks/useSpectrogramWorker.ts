@@ -0,0 +1,21 @@
+import type { Spectrogram } from '@/lib/spectrogram';
+import { useAudioBufferWorker, type AudioBufferWorkerJob } from './useAudioBufferWorker';
+
+// Computed once per decoded track, the first time a spectral view is shown
+const spectrogramJob: AudioBufferWorkerJob<Spectrogram> = {
+  createWorker: () => new Worker(new URL('../workers/SpectrogramWorker.ts', import.meta.url), { type: 'module' }),
+  request: 'computeSpectrogram',
+  response: 'spectrogramComputed',
+  readResult: data => data.spectrogram as Spectrogram,
+  cache: new WeakMap()
+};
+
+interface UseSpectrogramWorkerOptions {
+  onError?: (error: string) => void;
+}
+
+/** The track's spectrogram, computed in a worker while `enabled` and kept for later */
+export const useSpectrogramWorker = (audioBuffer: AudioBuffer | null, enabled: boolean, options: UseSpectrogramWorkerOptions = {}) => {
+  const { result, progress } = useAudioBufferWorker(spectrogramJob, audioBuffer, { ...options, enabled });
+  return { spectrogram: result, progress };
+};
@@ -0,0 +1,202 @@
+import { useState, useRef, useEffect, useCallback, useMemo } from 'react';
+import { advanceOnLoop, advanceOnTick, loadPrograms, registerMiss, startRun, type SpeedRampProgram, type SpeedRampRun } from '@/lib/speedRampPrograms';
+import type { LoopScore } from '@/lib/playAlongScoring';
+
+interface AutoSpeedRampState {
+  enabled: boolean;
+  loopsBeforeIncrease: number;
+  speedIncreasePercent: number;
+  maxSpeedPercent: number;
+  originalSpeed: number;
+  /** Saved ramp program to run; null uses the step controls above */
+  programId: string | null;
+  run: SpeedRampRun | null;
+}
+
+interface UseSpeedRampOptions {
+  /** Playback speed in percent */
+  speed: number;
+  setSpeed: (value: number[]) => void;
+  isPlaying: boolean;
+  /** The ramp only runs while the A-B loop does */
+  isABLooping: boolean;
+  /** Passes are being scored and must reach the threshold to count */
+  isGated: boolean;
+  accuracyThreshold: number;
+  /** A program reached its end; playback should stop there */
+  onFinished: () => void;
+}
+
+const describeRampRun = (program: SpeedRampProgram, run: SpeedRampRun | null) => {
+  if (!run) return `Starts at ${program.startSpeed}%`;
+  if (run.finished) return `Finished at ${run.speed}%`;
+  if (run.loopsAtTarget === 0) {
+    return program.mode === 'time'
+      ? `${run.speed}% · ${Math.floor(run.elapsedSeconds / 60)} of ${program.durationMinutes} min`
+      : `${run.speed}% · step ${run.stepIndex + 1}`;
+  }
+  const goal = program.loopsAtTarget > 0 ? `/${program.loopsAtTarget}` : '';
+  return `${run.speed}% · ${run.loopsAtTarget}${goal} loops at target`;
+};
+
+/**
+ * Raises the speed as the loop is practised, either in fixed steps every few loops or by running a
+ * saved program. The player reports each wrap through loopCompleted and each score through passScored.
+ */
+export const useSpeedRamp = (options: UseSpeedRampOptions) => {
+  const { speed, setSpeed, isPlaying, isABLooping, accuracyThreshold, onFinished } = options;
+  const [autoSpeedRampState, setAutoSpeedRampState] = useState<AutoSpeedRampState>({
+    enabled: false,
+    loopsBeforeIncrease: 5,
+    speedIncreasePercent: 5.0,
+    maxSpeedPercent: 120,
+    originalSpeed: 100,
+    programId: null,
+    run: null
+  });
+  const { enabled, loopsBeforeIncrease, speedIncreasePercent, maxSpeedPercent, programId, run } = autoSpeedRampState;
+
+  const setLoopsBeforeIncrease = useCallback((value: number) => {
+    setAutoSpeedRampState(prev => ({ ...prev, loopsBeforeIncrease: value }));
+  }, []);
+
+  const setSpeedIncreasePercent = useCallback((value: number) => {
+    setAutoSpeedRampState(prev => ({ ...prev, speedIncreasePercent: value }));
+  }, []);
+
+  const setMaxSpeedPercent = useCallback((value: number) => {
+    setAutoSpeedRampState(prev => ({ ...prev, maxSpeedPercent: value }));
+  }, []);
+
+  const setProgramId = useCallback((value: string | null) => {
+    setAutoSpeedRampState(prev => ({ ...prev, programId: value, run: null }));
+  }, []);
+
+  // Programs are edited in the Tools tab, so the list is reread whenever one is picked
+  const [programs, setPrograms] = useState<SpeedRampProgram[]>(loadPrograms);
+  const program = useMemo(
+    () => programs.find(candidate => candidate.id === programId) ?? null,
+    [programs, programId]
+  );
+
+  const reloadPrograms = useCallback(() => {
+    const loaded = loadPrograms();
+    setPrograms(loaded);
+    return loaded;
+  }, []);
+
+  const status = program ? describeRampRun(program, run) : '';
+  // Passes at or above the accuracy threshold since the ramp started, for gated custom steps
+  const accuratePassesRef = useRef(0);
+
+  const applyRun = (next: SpeedRampRun) => {
+    setAutoSpeedRampState(prev => ({ ...prev, run: next }));
+    if (next.speed !== speed) setSpeed([next.speed]);
+    if (next.finished) {
+      // The program ends at target; stop so the last loop is not followed by free play
+      onFinished();
+      setAutoSpeedRampState(prev => ({ ...prev, enabled: false }));
+    }
+  };
+
+  const startProgram = (selected: SpeedRampProgram) => {
+    setAutoSpeedRampState(prev => ({ ...prev, enabled: true, programId: selected.id, run: startRun(selected) }));
+    setSpeed([selected.startSpeed]);
+  };
+
+  const toggle = (value: boolean) => {
+    accuratePassesRef.current = 0;
+    if (value && program) {
+      startProgram(program);
+      return;
+    }
+    setAutoSpeedRampState(prev => ({ ...prev, enabled: value, run: null }));
+  };
+
+  const selectProgram = (value: string) => {
+    const selected = programs.find(candidate => candidate.id === value);
+    if (selected && enabled) startProgram(selected);
+    else setProgramId(selected ? selected.id : null);
+  };
+
+  const registerLoopMiss = () => {
+    if (!program || !run) return;
+    applyRun(registerMiss(program, run));
+  };
+
+  // Time-based programs advance with playing time rather than loop count
+  const tickRef = useRef<() => void>(() => {});
+  tickRef.current = () => {
+    if (!program || !run) return;
+    applyRun(advanceOnTick(program, run, 1));
+  };
+
+  // Like loop-count programs, timed ones only run while the A-B loop is
+  const isTimedRunning = enabled && program?.mode === 'time' && isPlaying && isABLooping;
+  useEffect(() => {
+    if (!isTimedRunning) return;
+    const interval = setInterval(() => tickRef.current(), 1000);
+    return () => clearInterval(interval);
+  }, [isTimedRunning]);
+
+  const stepCustomRamp = () => {
+    // Only increase if we haven't reached max speed
+    if (speed < maxSpeedPercent) {
+      setSpeed([Math.min(maxSpeedPercent, speed + speedIncreasePercent)]);
+    }
+  };
+
+  // With the gate on, loops count toward the ramp when their score arrives instead of when they wrap
+  const isRampGated = enabled && options.isGated;
+
+  const loopCompleted = (loopCount: number) => {
+    if (!enabled || !isABLooping || isRampGated) return;
+
+    if (program && run) {
+      applyRun(advanceOnLoop(program, run));
+      return;
+    }
+
+    // Check if we've reached the threshold for speed increase
+    if (loopCount % loopsBeforeIncrease === 0) {
+      stepCustomRamp();
+    }
+  };
+
+  // A pass with nothing played neither counts nor misses, so stopping to rest is not punished
+  const passScored = (score: LoopScore | null) => {
+    if (!isRampGated || !isABLooping || !score) return;
+    const passed = score.accuracy >= accuracyThreshold;
+
+    if (program && run) {
+      // Only drop-back programs act on a miss
+      applyRun(passed ? advanceOnLoop(program, run) : registerMiss(program, run));
+      return;
+    }
+
+    if (!passed) return;
+    accuratePassesRef.current++;
+    if (accuratePassesRef.current % loopsBeforeIncrease === 0) {
+      stepCustomRamp();
+    }
+  };
+
+  return {
+    autoSpeedRampState,
+    setLoopsBeforeIncrease,
+    setSpeedIncreasePercent,
+    setMaxSpeedPercent,
+    setProgramId,
+    programs,
+    reloadPrograms,
+    program,
+    /** One line on where the running program has got to */
+    status,
+    toggle,
+    selectProgram,
+    startProgram,
+    registerLoopMiss,
+    loopCompleted,
+    passScored
+  };
+};
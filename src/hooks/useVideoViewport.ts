@@ -0,0 +1,129 @@
+import { useState, useRef, useEffect, useCallback } from 'react';
+import { DEFAULT_VIDEO_VIEWPORT, panViewport, zoomViewportAt, type VideoViewport } from '@/lib/videoViewport';
+
+const WHEEL_ZOOM_SENSITIVITY = 0.002;
+const DOUBLE_CLICK_ZOOM = 2.5;
+
+interface PinchGesture {
+  startViewport: VideoViewport;
+  startDistance: number;
+  startMidX: number;
+  startMidY: number;
+}
+
+/**
+ * Pinch or ctrl+wheel to zoom, drag to pan while zoomed, double-click to zoom in or back out.
+ * Gestures start only on the <video> itself so overlay buttons inside the container keep working.
+ */
+export const useVideoViewport = (containerRef: React.RefObject<HTMLElement>, enabled: boolean) => {
+  const [viewport, setViewport] = useState<VideoViewport>(DEFAULT_VIDEO_VIEWPORT);
+  const viewportRef = useRef(viewport);
+  viewportRef.current = viewport;
+
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container || !enabled) return;
+
+    const pointers = new Map<number, { x: number; y: number }>();
+    let pinch: PinchGesture | null = null;
+
+    // Positions as fractions of the box, measured from its center
+    const toBox = (clientX: number, clientY: number) => {
+      const rect = container.getBoundingClientRect();
+      return {
+        x: (clientX - rect.left) / rect.width - 0.5,
+        y: (clientY - rect.top) / rect.height - 0.5
+      };
+    };
+
+    const startPinch = () => {
+      const [a, b] = [...pointers.values()];
+      const mid = toBox((a.x + b.x) / 2, (a.y + b.y) / 2);
+      pinch = {
+        startViewport: viewportRef.current,
+        startDistance: Math.hypot(a.x - b.x, a.y - b.y) || 1,
+        startMidX: mid.x,
+        startMidY: mid.y
+      };
+    };
+
+    const handlePointerDown = (event: PointerEvent) => {
+      if (!(event.target instanceof HTMLVideoElement)) return;
+      container.setPointerCapture(event.pointerId);
+      pointers.set(event.pointerId, { x: event.clientX, y: event.clientY });
+      if (pointers.size === 2) startPinch();
+    };
+
+    const handlePointerMove = (event: PointerEvent) => {
+      const previous = pointers.get(event.pointerId);
+      if (!previous) return;
+      pointers.set(event.pointerId, { x: event.clientX, y: event.clientY });
+
+      if (pinch && pointers.size >= 2) {
+        const [a, b] = [...pointers.values()];
+        const mid = toBox((a.x + b.x) / 2, (a.y + b.y) / 2);
+        const scale = Math.hypot(a.x - b.x, a.y - b.y) / pinch.startDistance;
+        const zoomed = zoomViewportAt(pinch.startViewport, pinch.startViewport.zoom * scale, pinch.startMidX, pinch.startMidY);
+        setViewport(panViewport(zoomed, mid.x - pinch.startMidX, mid.y - pinch.startMidY));
+        return;
+      }
+
+      if (viewportRef.current.zoom <= 1) return;
+      const rect = container.getBoundingClientRect();
+      setViewport(current => panViewport(
+        current,
+        (event.clientX - previous.x) / rect.width,
+        (event.clientY - previous.y) / rect.height
+      ));
+    };
+
+    const handlePointerUp = (event: PointerEvent) => {
+      if (!pointers.delete(event.pointerId)) return;
+      if (container.hasPointerCapture(event.pointerId)) container.releasePointerCapture(event.pointerId);
+      pinch = null;
+      // A finger left on the glass carries on as a drag
+    };
+
+    const handleWheel = (event: WheelEvent) => {
+      // Plain wheel keeps scrolling the page; trackpad pinches arrive with ctrlKey set
+      if (!(event.ctrlKey || event.metaKey) || !(event.target instanceof HTMLVideoElement)) return;
+      event.preventDefault();
+      const focus = toBox(event.clientX, event.clientY);
+      setViewport(current => zoomViewportAt(current, current.zoom * Math.exp(-event.deltaY * WHEEL_ZOOM_SENSITIVITY), focus.x, focus.y));
+    };
+
+    const handleDoubleClick = (event: MouseEvent) => {
+      if (!(event.target instanceof HTMLVideoElement)) return;
+      const focus = toBox(event.clientX, event.clientY);
+      setViewport(current => current.zoom > 1
+        ? { ...current, zoom: 1, panX: 0, panY: 0 }
+        : zoomViewportAt(current, DOUBLE_CLICK_ZOOM, focus.x, focus.y));
+    };
+
+    container.addEventListener('pointerdown', handlePointerDown);
+    container.addEventListener('pointermove', handlePointerMove);
+    container.addEventListener('pointerup', handlePointerUp);
+    container.addEventListener('pointercancel', handlePointerUp);
+    container.addEventListener('wheel', handleWheel, { passive: false });
+    container.addEventListener('dblclick', handleDoubleClick);
+
+    return () => {
+      container.removeEventListener('pointerdown', handlePointerDown);
+      container.removeEventListener('pointermove', handlePointerMove);
+      container.removeEventListener('pointerup', handlePointerUp);
+      container.removeEventListener('pointercancel', handlePointerUp);
+      container.removeEventListener('wheel', handleWheel);
+      container.removeEventListener('dblclick', handleDoubleClick);
+    };
+  }, [containerRef, enabled]);
+
+  const toggleMirror = useCallback(() => {
+    setViewport(current => ({ ...current, mirrored: !current.mirrored }));
+  }, []);
+
+  const resetZoom = useCallback(() => {
+    setViewport(current => ({ ...current, zoom: 1, panX: 0, panY: 0 }));
+  }, []);
+
+  return { viewport, setViewport, toggleMirror, resetZoom };
+};
@@ -1,7 +1,20 @@
-export class AudioWorkletLooper {
+import { DEFAULT_CROSSFADE, matchSampleRate, reportedOutputLatency, toAudiblePosition, type CrossfadeSettings, type LooperBackend, type LooperCapabilities, type LooperEngine, type EndedCallback, type LoopCallback, type MediaClock } from './looperCore';
+import { PracticeFilterChain, type PracticeFilterSettings } from './practiceFilters';
+
+export class AudioWorkletLooper implements LooperEngine {
+  readonly backend: LooperBackend = 'worklet';
+  readonly capabilities: LooperCapabilities = {
+    pitchShift: true,
+    timeStretch: true,
+    crossfade: true,
+    sampleAccurateLoop: true,
+    filters: true
+  };
+
   private audioContext: AudioContext | null = null;
   private workletNode: AudioWorkletNode | null = null;
   private gainNode: GainNode | null = null;
+  private filterChain: PracticeFilterChain | null = null;
   private audioBuffer: AudioBuffer | null = null;
   private isSupported: boolean = false;
   private isInitialized: boolean = false;
@@ -12,12 +25,23 @@ export class AudioWorkletLooper {
   private isLooping: boolean = false;
   private playbackRate: number = 1.0;
   private volume: number = 1.0;
+  private preservePitch: boolean = true;
+  private pitchSemitones: number = 0;
+  private pitchCents: number = 0;
+  private crossfade: CrossfadeSettings = DEFAULT_CROSSFADE;
   private loopStartTime: number = 0;
   private loopEndTime: number = 0;
+  // Latest media position paired with the context time it renders at
+  private clockAnchor: { contextTime: number; mediaTime: number } | null = null;
+  private calibratedLatency: number | null = null;
+  // Where playback last started, until the first wrap; see toAudiblePosition
+  private heardFrom: number = -Infinity;
   
   // Callbacks
   private onTimeUpdate?: (time: number) => void;
   private onError?: (error: Error) => void;
+  private onEnded?: EndedCallback;
+  private onLoop?: LoopCallback;
 
   constructor() {
     this.checkSupport();
@@ -41,20 +65,27 @@ export class AudioWorkletLooper {
       // Load the worklet processor
       await this.audioContext.audioWorklet.addModule('/loop-processor.js');
       
-      // Create the worklet node
-      this.workletNode = new AudioWorkletNode(this.audioContext, 'loop-processor');
+      // Create the worklet node; stereo out so the center-channel filters have two sides to work with
+      this.workletNode = new AudioWorkletNode(this.audioContext, 'loop-processor', { outputChannelCount: [2] });
       
       // Create gain node for volume control
       this.gainNode = this.audioContext.createGain();
+      this.filterChain = new PracticeFilterChain(this.audioContext);
       
       // Connect the audio graph
-      this.workletNode.connect(this.gainNode);
+      this.workletNode.connect(this.filterChain.input);
+      this.filterChain.output.connect(this.gainNode);
       this.gainNode.connect(this.audioContext.destination);
       
       // Set up message handling
       this.workletNode.port.onmessage = (event) => {
         this.handleWorkletMessage(event.data);
       };
+
+      // Settings made before the node existed were only stored; hand them over now
+      this.setPreservePitch(this.preservePitch);
+      this.setPitch(this.pitchSemitones, this.pitchCents);
+      this.setCrossfade(this.crossfade);
       
       this.isInitialized = true;
       return true;
@@ -69,35 +100,66 @@ export class AudioWorkletLooper {
     switch (data.type) {
       case 'TIME_UPDATE':
         this.currentTime = data.time;
-        this.onTimeUpdate?.(data.time);
+        if (data.contextTime !== undefined) {
+          this.clockAnchor = { contextTime: data.contextTime, mediaTime: data.time };
+        }
+        this.onTimeUpdate?.(toAudiblePosition(
+          data.time,
+          this.getHeardLatency() * this.playbackRate,
+          this.heardFrom,
+          { start: this.loopStartTime, end: this.loopEndTime, enabled: this.isLooping }
+        ));
         break;
       case 'CURRENT_TIME':
         this.currentTime = data.time;
         break;
+      case 'LOOPED':
+        this.heardFrom = -Infinity;
+        this.onLoop?.();
+        break;
+      case 'ENDED':
+        this.isPlaying = false;
+        this.onEnded?.();
+        break;
       default:
         break;
     }
   }
 
-  async loadAudio(arrayBuffer: ArrayBuffer): Promise<void> {
+  async loadAudio(arrayBuffer: ArrayBuffer): Promise<number> {
     if (!this.audioContext || !this.workletNode) {
       throw new Error('AudioWorkletLooper not initialized');
     }
 
     try {
-      this.audioBuffer = await this.audioContext.decodeAudioData(arrayBuffer);
-      
-      // Send buffer to worklet
-      this.workletNode.port.postMessage({
-        type: 'SET_BUFFER',
-        buffer: this.audioBuffer
-      });
+      return await this.loadDecodedAudio(await this.audioContext.decodeAudioData(arrayBuffer));
     } catch (error) {
       console.error('Failed to load audio:', error);
       throw error;
     }
   }
 
+  async loadDecodedAudio(buffer: AudioBuffer): Promise<number> {
+    if (!this.audioContext || !this.workletNode) {
+      throw new Error('AudioWorkletLooper not initialized');
+    }
+
+    const audioBuffer = await matchSampleRate(buffer, this.audioContext.sampleRate);
+    this.audioBuffer = audioBuffer;
+
+    // An AudioBuffer can't be cloned across to the worklet, so its channels are copied out and transferred
+    const channels = Array.from({ length: audioBuffer.numberOfChannels }, (_, channel) => {
+      const data = new Float32Array(audioBuffer.length);
+      audioBuffer.copyFromChannel(data, channel);
+      return data;
+    });
+    this.workletNode.port.postMessage(
+      { type: 'SET_BUFFER', channels, length: audioBuffer.length },
+      channels.map(data => data.buffer)
+    );
+    return audioBuffer.duration;
+  }
+
   play(): void {
     if (!this.workletNode) return;
     
@@ -108,6 +170,8 @@ export class AudioWorkletLooper {
     
     this.workletNode.port.postMessage({ type: 'PLAY' });
     this.isPlaying = true;
+    this.heardFrom = this.currentTime;
+    this.resetClockAnchor(this.currentTime);
   }
 
   pause(): void {
@@ -126,6 +190,8 @@ export class AudioWorkletLooper {
       sample 
     });
     this.currentTime = timeSeconds;
+    this.heardFrom = timeSeconds;
+    this.resetClockAnchor(timeSeconds);
   }
 
   setLoopPoints(startTime: number, endTime: number): void {
@@ -157,6 +223,11 @@ export class AudioWorkletLooper {
   setPlaybackRate(rate: number): void {
     if (!this.workletNode) return;
     
+    // Carry the anchor forward at the old rate so extrapolation stays continuous
+    if (this.clockAnchor && this.audioContext) {
+      const elapsed = this.audioContext.currentTime - this.clockAnchor.contextTime;
+      this.resetClockAnchor(this.clockAnchor.mediaTime + elapsed * this.playbackRate);
+    }
     this.playbackRate = rate;
     this.workletNode.port.postMessage({
       type: 'SET_PLAYBACK_RATE',
@@ -164,6 +235,36 @@ export class AudioWorkletLooper {
     });
   }
 
+  // When enabled the worklet time-stretches (WSOLA) so rate changes keep the original pitch
+  setPreservePitch(enabled: boolean): void {
+    this.preservePitch = enabled;
+    this.workletNode?.port.postMessage({
+      type: 'SET_TIME_STRETCH',
+      enabled
+    });
+  }
+
+  // Transpose independently of tempo; the worklet resamples each time-stretch grain
+  setPitch(semitones: number, cents: number = 0): void {
+    this.pitchSemitones = semitones;
+    this.pitchCents = cents;
+    this.workletNode?.port.postMessage({
+      type: 'SET_PITCH',
+      ratio: Math.pow(2, (semitones * 100 + cents) / 1200)
+    });
+  }
+
+  setCrossfade(settings: CrossfadeSettings): void {
+    this.crossfade = settings;
+    if (!this.workletNode || !this.audioContext) return;
+
+    this.workletNode.port.postMessage({
+      type: 'SET_CROSSFADE',
+      samples: Math.round((settings.durationMs / 1000) * this.audioContext.sampleRate),
+      curve: settings.curve
+    });
+  }
+
   setVolume(volume: number): void {
     if (!this.gainNode) return;
     
@@ -171,6 +272,24 @@ export class AudioWorkletLooper {
     this.gainNode.gain.setValueAtTime(volume, this.audioContext!.currentTime);
   }
 
+  setFilters(settings: PracticeFilterSettings): void {
+    this.filterChain?.apply(settings);
+  }
+
+  getOutputLatency(): number {
+    if (this.calibratedLatency !== null) return this.calibratedLatency;
+    return this.audioContext ? reportedOutputLatency(this.audioContext) : 0;
+  }
+
+  // From rendering to hearing, including what the filters hold back
+  private getHeardLatency(): number {
+    return this.getOutputLatency() + (this.filterChain?.latency ?? 0);
+  }
+
+  setOutputLatency(seconds: number | null): void {
+    this.calibratedLatency = seconds;
+  }
+
   getCurrentTime(): number {
     if (!this.workletNode) return this.currentTime;
     
@@ -179,6 +298,23 @@ export class AudioWorkletLooper {
     return this.currentTime;
   }
 
+  // Until the processor reports back, assume the change takes effect now
+  private resetClockAnchor(mediaTime: number) {
+    if (!this.audioContext) return;
+    this.clockAnchor = { contextTime: this.audioContext.currentTime, mediaTime };
+  }
+
+  getMediaClock(): MediaClock | null {
+    if (!this.audioContext || !this.isPlaying || !this.clockAnchor) return null;
+    // Filters that hold the audio back make each position reach the output that much later
+    return {
+      context: this.audioContext,
+      contextTime: this.clockAnchor.contextTime + (this.filterChain?.latency ?? 0),
+      mediaTime: this.clockAnchor.mediaTime,
+      playbackRate: this.playbackRate
+    };
+  }
+
   getDuration(): number {
     return this.audioBuffer ? this.audioBuffer.duration : 0;
   }
@@ -207,6 +343,18 @@ export class AudioWorkletLooper {
     return this.volume;
   }
 
+  getPreservePitch(): boolean {
+    return this.preservePitch;
+  }
+
+  getPitch(): { semitones: number; cents: number } {
+    return { semitones: this.pitchSemitones, cents: this.pitchCents };
+  }
+
+  getCrossfade(): CrossfadeSettings {
+    return this.crossfade;
+  }
+
   setTimeUpdateCallback(callback: (time: number) => void): void {
     this.onTimeUpdate = callback;
   }
@@ -215,6 +363,14 @@ export class AudioWorkletLooper {
     this.onError = callback;
   }
 
+  setEndedCallback(callback: EndedCallback): void {
+    this.onEnded = callback;
+  }
+
+  setLoopCallback(callback: LoopCallback): void {
+    this.onLoop = callback;
+  }
+
   static isSupported(): boolean {
     return typeof AudioWorkletNode !== 'undefined' && 
            typeof AudioContext !== 'undefined';
@@ -226,6 +382,9 @@ export class AudioWorkletLooper {
       this.workletNode = null;
     }
     
+    this.filterChain?.destroy();
+    this.filterChain = null;
+
     if (this.gainNode) {
       this.gainNode.disconnect();
       this.gainNode = null;
@@ -0,0 +1,169 @@
+import type { CrossfadeSettings, LooperBackend, LooperCapabilities, LooperEngine, TimeUpdateCallback, EndedCallback, LoopCallback } from './looperCore';
+
+// HTML media element looper: the universal fallback, and the engine behind <video> playback.
+// Loop boundaries are checked on `timeupdate`, so it is not sample accurate.
+export class MediaElementLooper implements LooperEngine {
+  readonly backend: LooperBackend = 'media-element';
+  readonly capabilities: LooperCapabilities = {
+    pitchShift: false,
+    timeStretch: true, // Browsers preserve pitch on playbackRate changes by default
+    crossfade: false,
+    sampleAccurateLoop: false,
+    filters: false
+  };
+
+  protected element: HTMLMediaElement;
+  private ownsElement: boolean;
+  private objectUrl: string | null = null;
+
+  protected loopStart: number = 0;
+  protected loopEnd: number = 0;
+  protected isLooping: boolean = false;
+
+  protected onTimeUpdate?: TimeUpdateCallback;
+  private onEnded?: EndedCallback;
+  protected onLoop?: LoopCallback;
+
+  // Pass an existing element (e.g. the rendered <video>) to drive it; otherwise an Audio element is owned
+  constructor(element?: HTMLMediaElement) {
+    this.element = element ?? new Audio();
+    this.ownsElement = !element;
+    this.element.addEventListener('timeupdate', this.handleTimeUpdate);
+    this.element.addEventListener('ended', this.handleEnded);
+  }
+
+  async loadAudio(arrayBuffer: ArrayBuffer): Promise<number> {
+    // An attached element that already has a source keeps it
+    if (!this.element.src) {
+      this.objectUrl = URL.createObjectURL(new Blob([arrayBuffer]));
+      this.element.src = this.objectUrl;
+    }
+
+    if (this.element.readyState < HTMLMediaElement.HAVE_METADATA) {
+      await new Promise<void>((resolve, reject) => {
+        const onLoaded = () => { cleanup(); resolve(); };
+        const onError = () => { cleanup(); reject(new Error('Media element failed to load source')); };
+        const cleanup = () => {
+          this.element.removeEventListener('loadedmetadata', onLoaded);
+          this.element.removeEventListener('error', onError);
+        };
+        this.element.addEventListener('loadedmetadata', onLoaded);
+        this.element.addEventListener('error', onError);
+      });
+    }
+
+    return this.getDuration();
+  }
+
+  protected get hasLoopRegion(): boolean {
+    return this.isLooping && this.loopEnd > this.loopStart;
+  }
+
+  protected wrapToLoopStart() {
+    this.element.currentTime = this.loopStart;
+    this.onLoop?.();
+    this.onTimeUpdate?.(this.loopStart);
+  }
+
+  private handleTimeUpdate = () => {
+    const currentTime = this.element.currentTime;
+
+    if (this.hasLoopRegion && currentTime >= this.loopEnd) {
+      this.wrapToLoopStart();
+      return;
+    }
+
+    this.onTimeUpdate?.(currentTime);
+  };
+
+  private handleEnded = () => {
+    // A loop end at (or past) the media end never sees a timeupdate beyond it
+    if (this.hasLoopRegion) {
+      this.wrapToLoopStart();
+      this.element.play().catch(console.error);
+      return;
+    }
+
+    this.onEnded?.();
+  };
+
+  play(): Promise<void> {
+    return this.element.play();
+  }
+
+  pause(): void {
+    this.element.pause();
+  }
+
+  seek(time: number): void {
+    this.element.currentTime = time;
+  }
+
+  setLoopPoints(start: number, end: number): void {
+    this.loopStart = start;
+    this.loopEnd = end;
+  }
+
+  setLooping(enabled: boolean): void {
+    this.isLooping = enabled;
+  }
+
+  setPlaybackRate(rate: number): void {
+    this.element.playbackRate = rate;
+  }
+
+  setPitch(_semitones: number, _cents: number = 0): void {
+    // Not supported: media elements only expose pitch-preserving rate changes
+  }
+
+  setVolume(volume: number): void {
+    this.element.volume = volume;
+  }
+
+  setCrossfade(_settings: CrossfadeSettings): void {
+    // Not supported: a single element cannot overlap the loop end with the loop start
+  }
+
+  getCurrentTime(): number {
+    return this.element.currentTime;
+  }
+
+  getDuration(): number {
+    return Number.isFinite(this.element.duration) ? this.element.duration : 0;
+  }
+
+  getElement(): HTMLMediaElement {
+    return this.element;
+  }
+
+  setTimeUpdateCallback(callback: TimeUpdateCallback): void {
+    this.onTimeUpdate = callback;
+  }
+
+  setEndedCallback(callback: EndedCallback): void {
+    this.onEnded = callback;
+  }
+
+  setLoopCallback(callback: LoopCallback): void {
+    this.onLoop = callback;
+  }
+
+  destroy(): void {
+    this.element.removeEventListener('timeupdate', this.handleTimeUpdate);
+    this.element.removeEventListener('ended', this.handleEnded);
+
+    if (this.ownsElement) {
+      this.element.pause();
+      this.element.removeAttribute('src');
+      this.element.load();
+    }
+    if (this.objectUrl) {
+      URL.revokeObjectURL(this.objectUrl);
+      this.objectUrl = null;
+    }
+
+    this.onTimeUpdate = undefined;
+    this.onEnded = undefined;
+    this.onLoop = undefined;
+  }
+}
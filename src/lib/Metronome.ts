@@ -0,0 +1,313 @@
+import { isDownbeat, type BeatGrid } from './beatGrid';
+import { reportedOutputLatency, type LooperEngine, type MediaClock } from './looperCore';
+
+export type MetronomeSubdivision = 1 | 2 | 3 | 4;
+
+type ClickKind = 'accent' | 'beat' | 'subdivision';
+
+const SCHEDULER_INTERVAL_MS = 25;
+const SCHEDULE_AHEAD_SECONDS = 0.12;
+// Clock disagreements larger than this mean the track was seeked, so pending clicks are dropped
+const RESYNC_TOLERANCE_SECONDS = 0.03;
+// Clicks closer together than this are treated as the same click scheduled twice
+const DUPLICATE_CLICK_SECONDS = 0.005;
+const COUNT_IN_LEAD_SECONDS = 0.05;
+
+const CLICK_SOUNDS: Record<ClickKind, { frequency: number; gain: number }> = {
+  accent: { frequency: 1760, gain: 1 },
+  beat: { frequency: 1320, gain: 0.7 },
+  subdivision: { frequency: 880, gain: 0.35 }
+};
+
+const createClickBuffer = (context: BaseAudioContext, kind: ClickKind): AudioBuffer => {
+  const { frequency, gain } = CLICK_SOUNDS[kind];
+  const length = Math.round(context.sampleRate * 0.03);
+  const buffer = context.createBuffer(1, length, context.sampleRate);
+  const data = buffer.getChannelData(0);
+  for (let i = 0; i < length; i++) {
+    const t = i / context.sampleRate;
+    data[i] = Math.sin(2 * Math.PI * frequency * t) * Math.exp(-t * 180) * gain;
+  }
+  return buffer;
+};
+
+// Click track scheduled as audio buffers against the engine's media clock, so clicks land on
+// the beat grid at any playback speed and wrap with the loop. Engines without a Web Audio clock
+// are followed from their reported position on a context of our own.
+export class Metronome {
+  private engine: LooperEngine | null = null;
+  private ownContext: AudioContext | null = null;
+  private output: { context: AudioContext; gain: GainNode; buffers: Record<ClickKind, AudioBuffer> } | null = null;
+
+  private grid: BeatGrid | null = null;
+  private loop = { start: 0, end: 0, enabled: false };
+  private playbackRate = 1;
+  private volume = 0.8;
+  private subdivision: MetronomeSubdivision = 1;
+  private accentDownbeats = true;
+  private calibratedLatency: number | null = null;
+
+  private schedulerId: ReturnType<typeof setInterval> | null = null;
+  private scheduledUntil = 0;
+  private lastClickTime = -Infinity;
+  private lastClock: MediaClock | null = null;
+  private scheduledSources = new Set<AudioBufferSourceNode>();
+  // Set for the whole count-in, including while the context resumes, so the track clock is ignored
+  private countingIn = false;
+  private countIn: { timeout: ReturnType<typeof setTimeout>; resolve: (completed: boolean) => void } | null = null;
+
+  setEngine(engine: LooperEngine | null) {
+    this.engine = engine;
+    this.resync();
+  }
+
+  setGrid(grid: BeatGrid | null) {
+    this.grid = grid;
+    this.resync();
+  }
+
+  setLoop(start: number, end: number, enabled: boolean) {
+    this.loop = { start, end, enabled: enabled && end > start };
+    this.resync();
+  }
+
+  setPlaybackRate(rate: number) {
+    this.playbackRate = rate;
+    this.resync();
+  }
+
+  setVolume(volume: number) {
+    this.volume = volume;
+    if (this.output) {
+      this.output.gain.gain.setValueAtTime(volume, this.output.context.currentTime);
+    }
+  }
+
+  setSubdivision(subdivision: MetronomeSubdivision) {
+    this.subdivision = subdivision;
+    this.resync();
+  }
+
+  setAccentDownbeats(enabled: boolean) {
+    this.accentDownbeats = enabled;
+    this.resync();
+  }
+
+  /** Calibrated output latency of the current device; null uses what the browser reports */
+  setOutputLatency(seconds: number | null) {
+    this.calibratedLatency = seconds;
+    this.resync();
+  }
+
+  start() {
+    if (this.schedulerId) return;
+    this.resync();
+    this.schedulerId = setInterval(() => this.schedule(), SCHEDULER_INTERVAL_MS);
+    this.schedule();
+  }
+
+  stop() {
+    if (this.schedulerId) {
+      clearInterval(this.schedulerId);
+      this.schedulerId = null;
+    }
+    this.cancelScheduled();
+  }
+
+  /** Drops clicks already queued so the next pass reschedules from the current position */
+  resync() {
+    this.cancelScheduled();
+    this.lastClock = null;
+  }
+
+  /**
+   * Plays one bar of clicks with the track held, resolving true once the bar has passed
+   * or false if cancelled. The caller starts playback when it resolves.
+   */
+  async playCountIn(beats: number, beatSeconds: number): Promise<boolean> {
+    this.cancelCountIn();
+    this.cancelScheduled();
+    this.countingIn = true;
+    const output = this.ensureOutput(this.getOwnContext());
+    if (output.context.state === 'suspended') await output.context.resume();
+
+    const startTime = output.context.currentTime + COUNT_IN_LEAD_SECONDS;
+    for (let beat = 0; beat < beats; beat++) {
+      this.playClick(output, beat === 0 ? 'accent' : 'beat', startTime + beat * beatSeconds);
+    }
+
+    const endTime = startTime + beats * beatSeconds;
+    return new Promise(resolve => {
+      const timeout = setTimeout(() => {
+        this.countIn = null;
+        this.countingIn = false;
+        resolve(true);
+      }, (endTime - output.context.currentTime) * 1000);
+      this.countIn = { timeout, resolve };
+    });
+  }
+
+  cancelCountIn() {
+    this.countingIn = false;
+    if (!this.countIn) return;
+    clearTimeout(this.countIn.timeout);
+    this.countIn.resolve(false);
+    this.countIn = null;
+    this.cancelScheduled();
+  }
+
+  destroy() {
+    this.stop();
+    this.cancelCountIn();
+    this.ownContext?.close();
+    this.ownContext = null;
+    this.output = null;
+    this.engine = null;
+  }
+
+  private getOwnContext(): AudioContext {
+    if (!this.ownContext) this.ownContext = new AudioContext();
+    return this.ownContext;
+  }
+
+  private ensureOutput(context: AudioContext) {
+    if (this.output?.context === context) return this.output;
+
+    this.cancelScheduled();
+    this.output?.gain.disconnect();
+    const gain = context.createGain();
+    gain.gain.value = this.volume;
+    gain.connect(context.destination);
+    this.output = {
+      context,
+      gain,
+      buffers: {
+        accent: createClickBuffer(context, 'accent'),
+        beat: createClickBuffer(context, 'beat'),
+        subdivision: createClickBuffer(context, 'subdivision')
+      }
+    };
+    return this.output;
+  }
+
+  private getClock(): MediaClock | null {
+    if (!this.engine) return null;
+    if (this.engine.getMediaClock) return this.engine.getMediaClock();
+
+    // The engine reports the position being heard, while our clicks reach the ears one output
+    // latency after they are scheduled, so the clock is read as that much earlier
+    const context = this.getOwnContext();
+    if (context.state === 'suspended') context.resume();
+    return {
+      context,
+      contextTime: context.currentTime - (this.calibratedLatency ?? reportedOutputLatency(context)),
+      mediaTime: this.engine.getCurrentTime(),
+      playbackRate: this.playbackRate
+    };
+  }
+
+  // Folds a position that has run past the loop end back into the loop
+  private wrap(mediaTime: number) {
+    const { start, end, enabled } = this.loop;
+    if (!enabled || mediaTime < end) return mediaTime;
+    return start + ((mediaTime - end) % (end - start));
+  }
+
+  private schedule() {
+    if (this.countingIn || !this.grid) return;
+    const clock = this.getClock();
+    if (!clock) return;
+
+    const output = this.ensureOutput(clock.context);
+    const now = clock.context.currentTime;
+    const rate = clock.playbackRate;
+    const mediaAt = (contextTime: number) => clock.mediaTime + (contextTime - clock.contextTime) * rate;
+
+    // Compare against where the previous clock said playback would be by now
+    if (this.lastClock) {
+      const previous = this.lastClock;
+      const expected = this.wrap(previous.mediaTime + (now - previous.contextTime) * previous.playbackRate);
+      if (Math.abs(expected - this.wrap(mediaAt(now))) > RESYNC_TOLERANCE_SECONDS) this.cancelScheduled();
+    }
+    this.lastClock = clock;
+
+    const from = Math.max(this.scheduledUntil, now);
+    const to = now + SCHEDULE_AHEAD_SECONDS;
+    if (to <= from || rate <= 0) return;
+
+    this.forEachClick(mediaAt(from), mediaAt(to), (unwrappedTime, kind) => {
+      const when = clock.contextTime + (unwrappedTime - clock.mediaTime) / rate;
+      if (when < now || when <= this.lastClickTime + DUPLICATE_CLICK_SECONDS) return;
+      this.playClick(output, kind, when);
+      this.lastClickTime = when;
+    });
+    this.scheduledUntil = to;
+  }
+
+  // Walks [from, to) in unwrapped media time, one loop pass at a time
+  private forEachClick(from: number, to: number, callback: (unwrappedTime: number, kind: ClickKind) => void) {
+    let position = from;
+    while (position < to) {
+      const mediaTime = this.wrap(position);
+      const passEnd = this.loop.enabled ? Math.min(to, position + (this.loop.end - mediaTime)) : to;
+      if (passEnd <= position) break;
+
+      this.forEachGridClick(mediaTime, mediaTime + (passEnd - position), (time, kind) => {
+        callback(position + (time - mediaTime), kind);
+      });
+      position = passEnd;
+    }
+  }
+
+  private forEachGridClick(from: number, to: number, callback: (time: number, kind: ClickKind) => void) {
+    const grid = this.grid;
+    if (!grid || grid.beats.length < 2) return;
+    const { beats } = grid;
+
+    // First beat at or before `from`
+    let low = 0;
+    let high = beats.length - 1;
+    while (low < high) {
+      const mid = Math.ceil((low + high) / 2);
+      if (beats[mid] <= from) low = mid;
+      else high = mid - 1;
+    }
+
+    for (let index = low; index < beats.length && beats[index] < to; index++) {
+      const next = index + 1 < beats.length ? beats[index + 1] : beats[index] * 2 - beats[index - 1];
+      const step = (next - beats[index]) / this.subdivision;
+
+      for (let part = 0; part < this.subdivision; part++) {
+        const time = beats[index] + part * step;
+        if (time < from || time >= to) continue;
+        const kind: ClickKind = part > 0
+          ? 'subdivision'
+          : this.accentDownbeats && isDownbeat(grid, index) ? 'accent' : 'beat';
+        callback(time, kind);
+      }
+    }
+  }
+
+  private playClick(output: NonNullable<Metronome['output']>, kind: ClickKind, when: number) {
+    const source = output.context.createBufferSource();
+    source.buffer = output.buffers[kind];
+    source.connect(output.gain);
+    source.onended = () => this.scheduledSources.delete(source);
+    source.start(when);
+    this.scheduledSources.add(source);
+  }
+
+  private cancelScheduled() {
+    this.scheduledSources.forEach(source => {
+      source.onended = null;
+      try {
+        source.stop();
+      } catch {
+        // Already finished
+      }
+    });
+    this.scheduledSources.clear();
+    this.scheduledUntil = 0;
+    this.lastClickTime = -Infinity;
+  }
+}
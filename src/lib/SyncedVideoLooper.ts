@@ -0,0 +1,206 @@
+import { reportedOutputLatency, type CrossfadeSettings, type EndedCallback, type LoopCallback, type LooperBackend, type LooperCapabilities, type LooperEngine, type MediaClock, type TimeUpdateCallback } from './looperCore';
+import type { PracticeFilterSettings } from './practiceFilters';
+import { VideoFrameLooper, type FrameRateCallback, type FrameStepper } from './VideoFrameLooper';
+
+const DRIFT_CHECK_INTERVAL_MS = 100;
+// Within this the picture is considered in sync
+const DRIFT_TOLERANCE_SECONDS = 0.03;
+// Beyond this the video is seeked; in between its rate is trimmed until it catches up
+const DRIFT_SEEK_SECONDS = 0.25;
+const DRIFT_RATE_TRIM = 0.05;
+
+// Plays a video's decoded audio through an audio engine and keeps the muted <video> following it,
+// so video loops get the engine's seamless wrap, time-stretch and crossfade.
+// The audio engine is the clock; the picture is corrected toward what is being heard.
+export class SyncedVideoLooper implements LooperEngine, FrameStepper {
+  readonly backend: LooperBackend;
+  readonly capabilities: LooperCapabilities;
+
+  private audio: LooperEngine;
+  private video: HTMLVideoElement;
+  private follower: VideoFrameLooper;
+  private wasMuted: boolean;
+  private playbackRate = 1;
+  private loopStart = 0;
+  private loopEnd = 0;
+  private isLooping = false;
+  private driftTimer: ReturnType<typeof setInterval> | null = null;
+
+  private onEnded?: EndedCallback;
+  private onLoop?: LoopCallback;
+
+  constructor(audio: LooperEngine, video: HTMLVideoElement) {
+    this.audio = audio;
+    this.video = video;
+    this.backend = audio.backend;
+    this.capabilities = audio.capabilities;
+
+    this.wasMuted = video.muted;
+    video.muted = true;
+
+    // The follower never loops on its own; it only measures frames and steps
+    this.follower = new VideoFrameLooper(video);
+    this.follower.setLooping(false);
+
+    this.audio.setLoopCallback(() => {
+      this.follower.seek(this.loopStart);
+      this.onLoop?.();
+    });
+    this.audio.setEndedCallback(() => {
+      this.stopDriftCorrection();
+      this.video.pause();
+      this.onEnded?.();
+    });
+  }
+
+  async loadAudio(_arrayBuffer: ArrayBuffer): Promise<number> {
+    // The wrapped engine is loaded before it is handed over
+    return this.getDuration();
+  }
+
+  async play(): Promise<void> {
+    this.follower.seek(this.audio.getCurrentTime());
+    await this.audio.play();
+    await this.video.play();
+    this.startDriftCorrection();
+  }
+
+  pause(): void {
+    this.stopDriftCorrection();
+    this.audio.pause();
+    this.video.pause();
+    this.follower.seek(this.audio.getCurrentTime());
+  }
+
+  seek(time: number): void {
+    this.audio.seek(time);
+    this.follower.seek(time);
+  }
+
+  setLoopPoints(start: number, end: number): void | Promise<void> {
+    this.loopStart = start;
+    this.loopEnd = end;
+    return this.audio.setLoopPoints(start, end);
+  }
+
+  setLooping(enabled: boolean): void {
+    this.isLooping = enabled;
+    this.audio.setLooping(enabled);
+  }
+
+  setPlaybackRate(rate: number): void | Promise<void> {
+    this.playbackRate = rate;
+    this.video.playbackRate = rate;
+    return this.audio.setPlaybackRate(rate);
+  }
+
+  setPitch(semitones: number, cents?: number): void | Promise<void> {
+    return this.audio.setPitch(semitones, cents);
+  }
+
+  setVolume(volume: number): void | Promise<void> {
+    return this.audio.setVolume(volume);
+  }
+
+  setCrossfade(settings: CrossfadeSettings): void | Promise<void> {
+    return this.audio.setCrossfade(settings);
+  }
+
+  setFilters(settings: PracticeFilterSettings): void {
+    this.audio.setFilters?.(settings);
+  }
+
+  getOutputLatency(): number {
+    return this.audio.getOutputLatency?.() ?? 0;
+  }
+
+  setOutputLatency(seconds: number | null): void {
+    this.audio.setOutputLatency?.(seconds);
+  }
+
+  getCurrentTime(): number {
+    return this.audio.getCurrentTime();
+  }
+
+  getDuration(): number {
+    return this.audio.getDuration();
+  }
+
+  getMediaClock(): MediaClock | null {
+    return this.audio.getMediaClock?.() ?? null;
+  }
+
+  getFrameRate(): number | null {
+    return this.follower.getFrameRate();
+  }
+
+  setFrameRateCallback(callback: FrameRateCallback): void {
+    this.follower.setFrameRateCallback(callback);
+  }
+
+  stepFrames(count: number): number {
+    const time = this.follower.stepFrames(count);
+    this.audio.seek(time);
+    return time;
+  }
+
+  setTimeUpdateCallback(callback: TimeUpdateCallback): void {
+    this.audio.setTimeUpdateCallback(callback);
+  }
+
+  setEndedCallback(callback: EndedCallback): void {
+    this.onEnded = callback;
+  }
+
+  setLoopCallback(callback: LoopCallback): void {
+    this.onLoop = callback;
+  }
+
+  destroy(): void {
+    this.stopDriftCorrection();
+    this.follower.destroy();
+    this.audio.destroy();
+    this.video.playbackRate = this.playbackRate;
+    this.video.muted = this.wasMuted;
+  }
+
+  private startDriftCorrection() {
+    this.stopDriftCorrection();
+    this.driftTimer = setInterval(() => this.correctDrift(), DRIFT_CHECK_INTERVAL_MS);
+  }
+
+  private stopDriftCorrection() {
+    if (this.driftTimer) {
+      clearInterval(this.driftTimer);
+      this.driftTimer = null;
+    }
+    this.video.playbackRate = this.playbackRate;
+  }
+
+  // Where the audio being heard right now is in the media, allowing for output latency
+  private getAudiblePosition(): number {
+    const clock = this.audio.getMediaClock?.();
+    if (!clock) return this.audio.getCurrentTime();
+
+    const latency = this.audio.getOutputLatency?.() ?? reportedOutputLatency(clock.context);
+    const heardAt = clock.context.currentTime - latency;
+    const position = clock.mediaTime + (heardAt - clock.contextTime) * clock.playbackRate;
+    if (!this.isLooping || this.loopEnd <= this.loopStart || position < this.loopEnd) return position;
+    return this.loopStart + ((position - this.loopEnd) % (this.loopEnd - this.loopStart));
+  }
+
+  private correctDrift() {
+    if (this.video.paused || this.video.seeking) return;
+
+    const drift = this.video.currentTime - this.getAudiblePosition();
+    if (Math.abs(drift) > DRIFT_SEEK_SECONDS) {
+      this.video.playbackRate = this.playbackRate;
+      this.follower.seek(this.getAudiblePosition());
+    } else if (Math.abs(drift) > DRIFT_TOLERANCE_SECONDS) {
+      // Ahead slows down, behind speeds up
+      this.video.playbackRate = this.playbackRate * (1 - Math.sign(drift) * DRIFT_RATE_TRIM);
+    } else {
+      this.video.playbackRate = this.playbackRate;
+    }
+  }
+}
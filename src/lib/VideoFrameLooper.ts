@@ -0,0 +1,153 @@
+import { MediaElementLooper } from './MediaElementLooper';
+import type { LooperEngine } from './looperCore';
+
+export type FrameRateCallback = (frameRate: number) => void;
+
+// Engines that show video frames and can move between them
+export interface FrameStepper {
+  getFrameRate(): number | null;
+  setFrameRateCallback(callback: FrameRateCallback): void;
+  /** Moves the playhead by whole frames and returns the new time */
+  stepFrames(count: number): number;
+}
+
+export const isFrameStepper = (engine: LooperEngine | null): engine is LooperEngine & FrameStepper =>
+  engine !== null && 'stepFrames' in engine;
+
+// Assumed until enough frames have been presented to measure the real rate
+export const DEFAULT_VIDEO_FRAME_RATE = 30;
+
+// Measured rates within 1% of one of these are reported as that rate
+const STANDARD_FRAME_RATES = [23.976, 24, 25, 29.97, 30, 48, 50, 59.94, 60];
+const FRAME_RATE_SAMPLES = 24;
+// Frame timestamps are rounded, so a frame ending this close to B counts as reaching it
+const FRAME_TIME_TOLERANCE = 1e-5;
+
+const supportsFrameCallback = () =>
+  typeof HTMLVideoElement !== 'undefined' && 'requestVideoFrameCallback' in HTMLVideoElement.prototype;
+
+const snapFrameRate = (measured: number) =>
+  STANDARD_FRAME_RATES.find(rate => Math.abs(rate - measured) / rate < 0.01) ?? Math.round(measured * 100) / 100;
+
+// Video looper that watches every presented frame (requestVideoFrameCallback, or animation
+// frames as a fallback) instead of `timeupdate`, so loops turn around on the last frame before B.
+// The seek back to A is issued while that frame is still on screen to hide seek latency.
+export class VideoFrameLooper extends MediaElementLooper implements FrameStepper {
+  private video: HTMLVideoElement;
+  private frameHandle: number | null = null;
+  private frameRate: number | null = null;
+  private frameDurations: number[] = [];
+  private lastFrame: { mediaTime: number; presentedFrames: number } | null = null;
+  private lastPollTime: number | null = null;
+  // Set from the wrap until its seek lands; frames from before B can still be presented meanwhile
+  private wrapPending: boolean = false;
+  private onFrameRate?: FrameRateCallback;
+
+  constructor(video: HTMLVideoElement) {
+    super(video);
+    this.video = video;
+    this.video.addEventListener('seeked', this.handleSeeked);
+    this.requestFrame();
+  }
+
+  /** The measured frame rate, or null until enough frames have played to tell */
+  getFrameRate(): number | null {
+    return this.frameRate;
+  }
+
+  getFrameDuration(): number {
+    return 1 / (this.frameRate ?? DEFAULT_VIDEO_FRAME_RATE);
+  }
+
+  setFrameRateCallback(callback: FrameRateCallback): void {
+    this.onFrameRate = callback;
+  }
+
+  /** Moves the playhead by whole frames, landing mid-frame so the intended frame is shown */
+  stepFrames(count: number): number {
+    const frameDuration = this.getFrameDuration();
+    const frame = Math.floor(this.video.currentTime / frameDuration + 0.01) + count;
+    const lastFrame = Math.max(0, Math.floor(this.getDuration() / frameDuration) - 1);
+    const target = (Math.max(0, Math.min(lastFrame, frame)) + 0.5) * frameDuration;
+    this.seek(target);
+    this.onTimeUpdate?.(target);
+    return target;
+  }
+
+  private requestFrame() {
+    this.frameHandle = supportsFrameCallback()
+      ? this.video.requestVideoFrameCallback(this.handleVideoFrame)
+      : requestAnimationFrame(this.handleAnimationFrame);
+  }
+
+  private handleVideoFrame = (_now: DOMHighResTimeStamp, metadata: VideoFrameCallbackMetadata) => {
+    this.requestFrame();
+    if (this.wrapPending) return;
+    this.measureFrame(metadata.mediaTime, metadata.presentedFrames);
+
+    // This frame reaches B, so it is the last one of the pass; frames presented by a seek
+    // while paused are left alone
+    const frameEnd = metadata.mediaTime + this.getFrameDuration();
+    if (!this.video.paused && this.hasLoopRegion && frameEnd >= this.loopEnd - FRAME_TIME_TOLERANCE) {
+      this.wrapToLoopStart();
+    } else {
+      this.onTimeUpdate?.(metadata.mediaTime);
+    }
+  };
+
+  private handleAnimationFrame = (now: DOMHighResTimeStamp) => {
+    if (!this.video.paused && this.hasLoopRegion) {
+      // Without frame callbacks, wrap when the next display refresh would land past B
+      const refresh = this.lastPollTime !== null ? (now - this.lastPollTime) / 1000 : 1 / 60;
+      if (this.video.currentTime + refresh * this.video.playbackRate >= this.loopEnd) {
+        this.wrapToLoopStart();
+      }
+    }
+    this.lastPollTime = now;
+    this.requestFrame();
+  };
+
+  // Frame spacing in media time, from consecutively presented frames during normal-speed playback
+  private measureFrame(mediaTime: number, presentedFrames: number) {
+    const previous = this.lastFrame;
+    this.lastFrame = { mediaTime, presentedFrames };
+    if (this.frameRate !== null || !previous || this.video.playbackRate > 1) return;
+    if (presentedFrames - previous.presentedFrames !== 1) return;
+
+    const spacing = mediaTime - previous.mediaTime;
+    if (spacing <= 0 || spacing > 0.1) return;
+    this.frameDurations.push(spacing);
+    if (this.frameDurations.length < FRAME_RATE_SAMPLES) return;
+
+    const sorted = [...this.frameDurations].sort((a, b) => a - b);
+    this.frameRate = snapFrameRate(1 / sorted[Math.floor(sorted.length / 2)]);
+    this.onFrameRate?.(this.frameRate);
+  }
+
+  protected wrapToLoopStart() {
+    if (this.wrapPending) return;
+    this.wrapPending = true;
+    super.wrapToLoopStart();
+  }
+
+  private handleSeeked = () => {
+    this.wrapPending = false;
+  };
+
+  seek(time: number): void {
+    // A jump is not a frame interval, so the next frame starts a fresh measurement
+    this.lastFrame = null;
+    super.seek(time);
+  }
+
+  destroy(): void {
+    if (this.frameHandle !== null) {
+      if (supportsFrameCallback()) this.video.cancelVideoFrameCallback(this.frameHandle);
+      else cancelAnimationFrame(this.frameHandle);
+      this.frameHandle = null;
+    }
+    this.video.removeEventListener('seeked', this.handleSeeked);
+    this.onFrameRate = undefined;
+    super.destroy();
+  }
+}
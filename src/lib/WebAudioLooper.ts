@@ -0,0 +1,446 @@
+import { DEFAULT_CROSSFADE, matchSampleRate, reportedOutputLatency, toAudiblePosition, type CrossfadeCurve, type CrossfadeSettings, type LooperBackend, type LooperCapabilities, type LooperEngine, type LoopCallback, type MediaClock } from './looperCore';
+import { PracticeFilterChain, type PracticeFilterSettings } from './practiceFilters';
+
+// Older Safari only has the prefixed constructor
+type WebkitWindow = Window & { webkitAudioContext?: typeof AudioContext };
+
+const FADE_CURVE_POINTS = 64;
+
+// Gain curves for the outgoing (B) and incoming (pre-A) sides of the loop seam
+const makeFadeCurve = (curve: CrossfadeCurve, direction: 'in' | 'out'): Float32Array => {
+  const values = new Float32Array(FADE_CURVE_POINTS);
+  for (let i = 0; i < FADE_CURVE_POINTS; i++) {
+    const x = i / (FADE_CURVE_POINTS - 1);
+    const t = direction === 'in' ? x : 1 - x;
+    values[i] = curve === 'linear' ? t : Math.sin(t * Math.PI * 0.5);
+  }
+  return values;
+};
+
+// Web Audio API looper class for seamless audio looping
+export class WebAudioLooper implements LooperEngine {
+  readonly backend: LooperBackend = 'webaudio';
+  readonly capabilities: LooperCapabilities = {
+    pitchShift: true,
+    timeStretch: false,
+    crossfade: true,
+    sampleAccurateLoop: true,
+    filters: true
+  };
+
+  private audioContext: AudioContext | null = null;
+  private audioBuffer: AudioBuffer | null = null;
+  private gainNode: GainNode | null = null;
+  // Sources and crossfade envelopes feed the filters, which feed the volume
+  private filterChain: PracticeFilterChain | null = null;
+  private currentSource: AudioBufferSourceNode | null = null;
+  private nextSource: AudioBufferSourceNode | null = null;
+  private startTime: number = 0;
+  private pausedAt: number = 0;
+  private isPlaying: boolean = false;
+  private loopStart: number = 0;
+  private loopEnd: number = 0;
+  private playbackRate: number = 1;
+  private onTimeUpdate?: (time: number) => void;
+  private onEnded?: () => void;
+  private onLoop?: LoopCallback;
+  private lastReportedTime: number = 0;
+  private calibratedLatency: number | null = null;
+  // Where playback last started, until the first wrap; see toAudiblePosition
+  private heardFrom: number = -Infinity;
+  private animationFrame: number = 0;
+  private isLooping: boolean = false;
+  
+  // Sample-accurate timing variables
+  private nextStartTime: number = 0;
+  private loopStartSample: number = 0;
+  private loopEndSample: number = 0;
+  private loopDurationSamples: number = 0;
+  private sampleRate: number = 44100;
+  private scheduleAheadTime: number = 0.1; // 100ms lookahead
+  private schedulingActive: boolean = false;
+  private scheduledSources: AudioBufferSourceNode[] = [];
+  private hasScheduledIteration: boolean = false;
+  private crossfade: CrossfadeSettings = DEFAULT_CROSSFADE;
+  
+  // Pitch shifting: play a time-stretched copy faster by the same ratio
+  private pitchRatio: number = 1;
+  private shiftedBuffer: AudioBuffer | null = null;
+  private pitchWorker: Worker | null = null;
+  private pitchRequestId: number = 0;
+
+  async initialize() {
+    this.audioContext = new (window.AudioContext || (window as WebkitWindow).webkitAudioContext!)();
+    this.gainNode = this.audioContext.createGain();
+    this.gainNode.connect(this.audioContext.destination);
+    this.filterChain = new PracticeFilterChain(this.audioContext);
+    this.filterChain.output.connect(this.gainNode);
+  }
+
+  async loadAudio(arrayBuffer: ArrayBuffer) {
+    if (!this.audioContext) await this.initialize();
+    if (!this.audioContext) throw new Error('AudioContext not available');
+    
+    return this.loadDecodedAudio(await this.audioContext.decodeAudioData(arrayBuffer));
+  }
+
+  async loadDecodedAudio(buffer: AudioBuffer) {
+    if (!this.audioContext) await this.initialize();
+    if (!this.audioContext) throw new Error('AudioContext not available');
+
+    this.audioBuffer = await matchSampleRate(buffer, this.audioContext.sampleRate);
+    this.sampleRate = this.audioContext.sampleRate;
+    this.loopEnd = this.audioBuffer.duration;
+    return this.audioBuffer.duration;
+  }
+
+  createSource(destination?: AudioNode): AudioBufferSourceNode | null {
+    if (!this.audioContext || !this.audioBuffer || !this.filterChain) return null;
+    
+    const source = this.audioContext.createBufferSource();
+    source.buffer = this.shiftedBuffer || this.audioBuffer;
+    source.playbackRate.value = this.playbackRate * this.pitchRatio;
+    source.connect(destination || this.filterChain.input);
+    return source;
+  }
+
+  setCrossfade(settings: CrossfadeSettings) {
+    this.crossfade = settings;
+  }
+
+  // Seam crossfade in source seconds, at most half the loop
+  private getCrossfadeSeconds(): number {
+    if (this.crossfade.curve === 'none') return 0;
+    const loopDuration = this.loopDurationSamples / this.sampleRate;
+    return Math.max(0, Math.min(this.crossfade.durationMs / 1000, loopDuration / 2));
+  }
+
+  setLoopPoints(start: number, end: number) {
+    this.loopStart = start;
+    this.loopEnd = end;
+    
+    // Convert to sample-accurate positions
+    this.loopStartSample = Math.round(start * this.sampleRate);
+    this.loopEndSample = Math.round(end * this.sampleRate);
+    this.loopDurationSamples = this.loopEndSample - this.loopStartSample;
+  }
+
+  setPlaybackRate(rate: number) {
+    this.playbackRate = rate;
+    if (this.currentSource) {
+      this.currentSource.playbackRate.value = rate * this.pitchRatio;
+    }
+    if (this.nextSource) {
+      this.nextSource.playbackRate.value = rate * this.pitchRatio;
+    }
+  }
+
+  setPitch(semitones: number, cents: number = 0) {
+    if (!this.audioBuffer) return;
+    
+    const ratio = Math.pow(2, (semitones * 100 + cents) / 1200);
+    const requestId = ++this.pitchRequestId;
+    
+    if (ratio === 1) {
+      this.applyShiftedBuffer(null, 1);
+      return;
+    }
+    
+    if (!this.pitchWorker) {
+      this.pitchWorker = new Worker(
+        new URL('../workers/PitchShiftWorker.ts', import.meta.url),
+        { type: 'module' }
+      );
+    }
+    
+    this.pitchWorker.onmessage = (e) => {
+      const { type, channels, stretchFactor, error } = e.data;
+      // Ignore results superseded by a newer transpose request
+      if (e.data.requestId !== this.pitchRequestId || !this.audioContext) return;
+      
+      if (type === 'stretched') {
+        const shifted = this.audioContext.createBuffer(channels.length, channels[0].length, this.audioBuffer!.sampleRate);
+        channels.forEach((data: Float32Array, channel: number) => shifted.copyToChannel(data, channel));
+        this.applyShiftedBuffer(shifted, stretchFactor);
+      } else if (type === 'error') {
+        console.error('Pitch shift failed:', error);
+      }
+    };
+    
+    const channels: Float32Array[] = [];
+    for (let channel = 0; channel < this.audioBuffer.numberOfChannels; channel++) {
+      channels.push(this.audioBuffer.getChannelData(channel).slice());
+    }
+    this.pitchWorker.postMessage({
+      type: 'stretch',
+      requestId,
+      channels,
+      stretchFactor: ratio,
+      sampleRate: this.audioBuffer.sampleRate
+    }, channels.map(channel => channel.buffer));
+  }
+
+  private applyShiftedBuffer(buffer: AudioBuffer | null, ratio: number) {
+    if (this.pitchRatio === ratio && this.shiftedBuffer === buffer) return;
+    
+    // Restart sources so they pick up the new buffer at the same musical position
+    const wasPlaying = this.isPlaying;
+    if (wasPlaying) this.pause();
+    this.shiftedBuffer = buffer;
+    this.pitchRatio = ratio;
+    if (wasPlaying) this.play();
+  }
+
+  setVolume(volume: number) {
+    if (this.gainNode) {
+      this.gainNode.gain.value = volume;
+    }
+  }
+
+  setFilters(settings: PracticeFilterSettings) {
+    this.filterChain?.apply(settings);
+  }
+
+  getOutputLatency(): number {
+    if (this.calibratedLatency !== null) return this.calibratedLatency;
+    return this.audioContext ? reportedOutputLatency(this.audioContext) : 0;
+  }
+
+  // From rendering to hearing, including what the filters hold back
+  private getHeardLatency(): number {
+    return this.getOutputLatency() + (this.filterChain?.latency ?? 0);
+  }
+
+  setOutputLatency(seconds: number | null) {
+    this.calibratedLatency = seconds;
+  }
+
+  getCurrentTime(): number {
+    if (!this.audioContext || !this.isPlaying) return this.pausedAt;
+    
+    if (this.isLooping && this.loopEnd > this.loopStart) {
+      // For looping, use sample-accurate position calculation
+      const elapsedAudioTime = this.audioContext.currentTime - this.startTime;
+      const elapsedSamples = Math.floor(elapsedAudioTime * this.sampleRate * this.playbackRate);
+      const positionInLoopSamples = elapsedSamples % this.loopDurationSamples;
+      const currentSample = this.loopStartSample + positionInLoopSamples;
+      return currentSample / this.sampleRate;
+    }
+    
+    return this.pausedAt + (this.audioContext.currentTime - this.startTime) * this.playbackRate;
+  }
+
+  seek(time: number) {
+    const wasPlaying = this.isPlaying;
+    if (wasPlaying) this.pause();
+    this.pausedAt = time;
+    if (wasPlaying) this.play();
+  }
+
+  // Sample-accurate ping-pong loop scheduler
+  private startSampleAccurateLoop() {
+    if (!this.audioContext || !this.isLooping || !this.audioBuffer) return;
+    
+    // Calculate sample-accurate loop duration accounting for playback rate
+    const exactLoopDurationSeconds = this.loopDurationSamples / (this.sampleRate * this.playbackRate);
+    
+    // Initialize scheduling with lookahead
+    this.nextStartTime = this.audioContext.currentTime + this.scheduleAheadTime;
+    this.schedulingActive = true;
+    this.hasScheduledIteration = false;
+    
+    // Start the continuous scheduling loop
+    this.scheduleBuffersAhead();
+    
+    this.startTime = this.nextStartTime;
+    this.pausedAt = this.loopStart;
+  }
+
+  private scheduleBuffersAhead() {
+    if (!this.audioContext || !this.schedulingActive) return;
+    
+    const currentAudioTime = this.audioContext.currentTime;
+    const exactLoopDurationSeconds = this.loopDurationSamples / (this.sampleRate * this.playbackRate);
+    const crossfadeSeconds = this.getCrossfadeSeconds();
+    const crossfadeWallSeconds = crossfadeSeconds / this.playbackRate;
+    // The seam blends with the audio leading up to A, else with the audio running on past B (as the
+    // worklet does); a loop spanning the whole file has neither and cuts at the file's own edges
+    const hasPreRoll = this.loopStart >= crossfadeSeconds;
+    const hasPostRoll = !hasPreRoll && this.loopEnd + crossfadeSeconds <= this.audioBuffer!.duration;
+    const blendsSeam = crossfadeSeconds > 0 && (hasPreRoll || hasPostRoll);
+    
+    // Schedule buffers while we're within the lookahead window (iterations start early by the fade-in)
+    while (this.nextStartTime - crossfadeWallSeconds < currentAudioTime + this.scheduleAheadTime) {
+      const envelope = this.audioContext.createGain();
+      envelope.connect(this.filterChain!.input);
+      const source = this.createSource(envelope);
+      if (!source) break;
+      
+      // Every iteration after the first fades in over the previous one's tail: from just before A
+      // with pre-roll, from A itself while the previous one plays on past B with post-roll
+      const fadesIn = this.hasScheduledIteration && blendsSeam;
+      const leadIn = fadesIn && hasPreRoll ? crossfadeSeconds : 0;
+      const leadOut = hasPostRoll ? crossfadeSeconds : 0;
+      const leadInWall = leadIn / this.playbackRate;
+      const startAt = this.nextStartTime - leadInWall;
+      
+      // Offset and duration are in buffer time, which the pitch-shifted copy stretches
+      const bufferLoopDuration = (this.loopDurationSamples / this.sampleRate + leadIn + leadOut) * this.pitchRatio;
+      source.start(startAt, (this.loopStart - leadIn) * this.pitchRatio, bufferLoopDuration);
+      
+      if (fadesIn) {
+        envelope.gain.setValueCurveAtTime(makeFadeCurve(this.crossfade.curve, 'in'), startAt, crossfadeWallSeconds);
+      }
+      if (blendsSeam) {
+        const fadeOutAt = this.nextStartTime + exactLoopDurationSeconds - (hasPreRoll ? crossfadeWallSeconds : 0);
+        envelope.gain.setValueCurveAtTime(makeFadeCurve(this.crossfade.curve, 'out'), fadeOutAt, crossfadeWallSeconds);
+      }
+      
+      this.scheduledSources.push(source);
+      source.onended = () => {
+        this.scheduledSources = this.scheduledSources.filter(s => s !== source);
+        envelope.disconnect();
+      };
+      this.hasScheduledIteration = true;
+      
+      // Advance to next loop start time using cumulative timing (prevents drift)
+      this.nextStartTime += exactLoopDurationSeconds;
+    }
+    
+    // Continue scheduling in the next frame
+    if (this.schedulingActive) {
+      requestAnimationFrame(() => this.scheduleBuffersAhead());
+    }
+  }
+
+  updateTime = () => {
+    if (this.isPlaying) {
+      const currentTime = this.getCurrentTime();
+      // Position moving backwards while looping means the scheduler wrapped to loop start
+      if (this.isLooping && currentTime < this.lastReportedTime) {
+        this.heardFrom = -Infinity;
+        this.onLoop?.();
+      }
+      this.lastReportedTime = currentTime;
+      this.onTimeUpdate?.(toAudiblePosition(
+        currentTime,
+        this.getHeardLatency() * this.playbackRate,
+        this.heardFrom,
+        { start: this.loopStart, end: this.loopEnd, enabled: this.isLooping }
+      ));
+      this.animationFrame = requestAnimationFrame(this.updateTime);
+    }
+  };
+
+  play() {
+    if (!this.audioContext || !this.audioBuffer) return;
+
+    if (this.audioContext.state === 'suspended') {
+      this.audioContext.resume();
+    }
+
+    this.isPlaying = true;
+    this.lastReportedTime = this.pausedAt;
+    this.heardFrom = this.pausedAt;
+
+    if (this.isLooping && this.loopEnd > this.loopStart) {
+      // Use sample-accurate ping-pong scheduling for loops
+      this.startSampleAccurateLoop();
+    } else {
+      // Standard playback for non-looping
+      this.currentSource = this.createSource();
+      if (!this.currentSource) return;
+
+      const playbackBuffer = this.shiftedBuffer || this.audioBuffer;
+      const offset = this.pausedAt * this.pitchRatio;
+      const duration = playbackBuffer.duration - offset;
+
+      this.currentSource.start(0, offset, duration);
+      this.startTime = this.audioContext.currentTime;
+
+      this.currentSource.onended = () => {
+        this.isPlaying = false;
+        this.pausedAt = 0;
+        this.onEnded?.();
+      };
+    }
+
+    // Start time updates
+    this.updateTime();
+  }
+
+  pause() {
+    // Stop sample-accurate scheduling
+    this.schedulingActive = false;
+    
+    if (this.currentSource) {
+      // Detach first so a manual stop isn't reported as reaching the end of the media
+      this.currentSource.onended = null;
+      this.currentSource.stop();
+      this.currentSource = null;
+    }
+    this.scheduledSources.forEach(source => source.stop());
+    this.scheduledSources = [];
+    if (this.nextSource) {
+      this.nextSource.stop();
+      this.nextSource = null;
+    }
+    
+    this.pausedAt = this.getCurrentTime();
+    this.isPlaying = false;
+    
+    if (this.animationFrame) {
+      cancelAnimationFrame(this.animationFrame);
+    }
+  }
+
+  setLooping(enabled: boolean) {
+    this.isLooping = enabled;
+  }
+
+  setTimeUpdateCallback(callback: (time: number) => void) {
+    this.onTimeUpdate = callback;
+  }
+
+  setEndedCallback(callback: () => void) {
+    this.onEnded = callback;
+  }
+
+  setLoopCallback(callback: LoopCallback) {
+    this.onLoop = callback;
+  }
+
+  static isSupported(): boolean {
+    return typeof window !== 'undefined' &&
+           (typeof window.AudioContext !== 'undefined' || 'webkitAudioContext' in window);
+  }
+
+  destroy() {
+    this.pause();
+    if (this.pitchWorker) {
+      this.pitchWorker.terminate();
+      this.pitchWorker = null;
+    }
+    this.filterChain?.destroy();
+    this.filterChain = null;
+    if (this.audioContext) {
+      this.audioContext.close();
+    }
+  }
+
+  // Position is derived from the context clock, so the pair is exact at any moment
+  getMediaClock(): MediaClock | null {
+    if (!this.audioContext || !this.isPlaying) return null;
+    return {
+      context: this.audioContext,
+      // Filters that hold the audio back make each position reach the output that much later
+      contextTime: this.audioContext.currentTime + (this.filterChain?.latency ?? 0),
+      mediaTime: this.getCurrentTime(),
+      playbackRate: this.playbackRate
+    };
+  }
+
+  getDuration(): number {
+    return this.audioBuffer?.duration || 0;
+  }
+}
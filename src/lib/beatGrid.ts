@@ -0,0 +1,98 @@
+// Tempo and beat positions measured from the decoded audio
+export interface BeatGrid {
+  bpm: number;
+  /** Beat timestamps in seconds, in playback order */
+  beats: number[];
+  /** Index into `beats` of the first bar's downbeat */
+  firstDownbeat: number;
+  beatsPerBar: number;
+}
+
+export const isDownbeat = (grid: BeatGrid, beatIndex: number): boolean => {
+  const position = (beatIndex - grid.firstDownbeat) % grid.beatsPerBar;
+  return (position + grid.beatsPerBar) % grid.beatsPerBar === 0;
+};
+
+// Beat lines behind a waveform; plain beats are dropped when they would crowd closer than minSpacing px
+export const drawBeatGrid = (
+  ctx: CanvasRenderingContext2D,
+  grid: BeatGrid,
+  view: { startTime: number; duration: number; width: number; height: number },
+  minSpacing: number = 4
+) => {
+  if (view.duration <= 0) return;
+  const pixelsPerBeat = (view.width * 60) / (grid.bpm * view.duration);
+  const showBeats = pixelsPerBeat >= minSpacing;
+
+  ctx.lineWidth = 1;
+  grid.beats.forEach((time, index) => {
+    const x = ((time - view.startTime) / view.duration) * view.width;
+    if (x < 0 || x > view.width) return;
+
+    const downbeat = isDownbeat(grid, index);
+    if (!downbeat && !showBeats) return;
+
+    ctx.strokeStyle = downbeat ? 'hsl(240, 10%, 45%)' : 'hsl(240, 10%, 26%)';
+    ctx.beginPath();
+    ctx.moveTo(Math.round(x) + 0.5, 0);
+    ctx.lineTo(Math.round(x) + 0.5, view.height);
+    ctx.stroke();
+  });
+};
+
+// Evenly spaced grid for a tapped tempo, anchored so one bar starts at `downbeatTime`
+export const createUniformGrid = (
+  bpm: number,
+  downbeatTime: number,
+  duration: number,
+  beatsPerBar: number = 4
+): BeatGrid => {
+  const period = 60 / bpm;
+  const beatsBefore = Math.floor(downbeatTime / period);
+  const beats: number[] = [];
+  for (let time = downbeatTime - beatsBefore * period; time <= duration; time += period) {
+    beats.push(time);
+  }
+  return { bpm, beats, firstDownbeat: beatsBefore % beatsPerBar, beatsPerBar };
+};
+
+/** Fractional beat index of a time; beyond the detected beats the grid continues at its tempo */
+export const timeToBeatPosition = (grid: BeatGrid, time: number): number => {
+  const { beats } = grid;
+  const period = 60 / grid.bpm;
+  if (beats.length === 0) return time / period;
+  if (time <= beats[0]) return (time - beats[0]) / period;
+
+  const last = beats.length - 1;
+  if (time >= beats[last]) return last + (time - beats[last]) / period;
+
+  let low = 0;
+  let high = last;
+  while (high - low > 1) {
+    const middle = (low + high) >> 1;
+    if (beats[middle] <= time) low = middle;
+    else high = middle;
+  }
+  return low + (time - beats[low]) / (beats[high] - beats[low]);
+};
+
+export const beatPositionToTime = (grid: BeatGrid, position: number): number => {
+  const { beats } = grid;
+  const period = 60 / grid.bpm;
+  if (beats.length === 0) return position * period;
+  if (position <= 0) return beats[0] + position * period;
+
+  const last = beats.length - 1;
+  if (position >= last) return beats[last] + (position - last) * period;
+
+  const index = Math.floor(position);
+  return beats[index] + (position - index) * (beats[index + 1] - beats[index]);
+};
+
+/** Musical position as bar.beat, both counted from 1 at the first downbeat */
+export const formatBarBeat = (grid: BeatGrid, time: number): string => {
+  const beatsFromDownbeat = Math.floor(timeToBeatPosition(grid, time) + 1e-6) - grid.firstDownbeat;
+  const bar = Math.floor(beatsFromDownbeat / grid.beatsPerBar) + 1;
+  const beat = ((beatsFromDownbeat % grid.beatsPerBar) + grid.beatsPerBar) % grid.beatsPerBar + 1;
+  return `${bar}.${beat}`;
+};
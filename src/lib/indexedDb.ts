@@ -0,0 +1,37 @@
+// Promise helpers shared by the on-device IndexedDB stores (media library, loop takes)
+
+/**
+ * Returns an opener that connects to the database once and hands the same connection to
+ * every caller. `upgrade` creates the stores; a failed open is retried on the next call.
+ */
+export const createDatabaseOpener = (name: string, version: number, upgrade: (db: IDBDatabase) => void) => {
+  let dbPromise: Promise<IDBDatabase> | null = null;
+
+  return (): Promise<IDBDatabase> => {
+    if (!dbPromise) {
+      dbPromise = new Promise((resolve, reject) => {
+        const request = indexedDB.open(name, version);
+        request.onupgradeneeded = () => upgrade(request.result);
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => {
+          dbPromise = null;
+          reject(request.error);
+        };
+      });
+    }
+    return dbPromise;
+  };
+};
+
+export const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+export const transactionDone = (transaction: IDBTransaction): Promise<void> =>
+  new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
@@ -0,0 +1,199 @@
+// Round-trip audio latency of the current devices, measured by playing clicks and hearing them
+// back through the microphone. Profiles are stored per input/output device pair, since Bluetooth
+// headphones can add a couple of hundred milliseconds that the browser may not report.
+
+import { reportedOutputLatency } from './looperCore';
+
+const STORAGE_KEY = 'fretloop.latencyProfiles';
+
+const CLICK_COUNT = 6;
+// Also the longest round trip that can be measured
+const CLICK_INTERVAL_SECONDS = 0.6;
+// Quiet before the first click, used to measure the room's noise floor
+const FIRST_CLICK_DELAY_SECONDS = 0.5;
+const NOISE_WINDOW_SECONDS = 0.3;
+const CLICK_FREQUENCY = 3000;
+const CLICK_SECONDS = 0.01;
+const MIN_SIGNAL_TO_NOISE = 8;
+const MIN_CLICK_LEVEL = 0.01;
+// Clicks this close to the median agree; enough of them must, or the result is rejected
+const AGREEMENT_SECONDS = 0.003;
+const MIN_AGREEING_CLICKS = 4;
+
+export interface LatencyMeasurement {
+  roundTripMs: number;
+  /** The browser's reported output latency, or half the round trip when it reports none */
+  outputMs: number;
+  inputMs: number;
+}
+
+export interface LatencyProfile extends LatencyMeasurement {
+  deviceKey: string;
+  deviceLabel: string;
+  measuredAt: number;
+}
+
+export interface AudioDeviceInfo {
+  key: string;
+  label: string;
+}
+
+const DEFAULT_DEVICE: AudioDeviceInfo = { key: 'default', label: 'Default devices' };
+
+/** The default input and output pair; labels stay hidden until the microphone has been allowed once */
+export const getAudioDevice = async (): Promise<AudioDeviceInfo> => {
+  try {
+    const devices = await navigator.mediaDevices.enumerateDevices();
+    const pick = (kind: MediaDeviceKind) =>
+      devices.find(device => device.kind === kind && device.deviceId === 'default') ?? devices.find(device => device.kind === kind);
+    const input = pick('audioinput')?.label ?? '';
+    const output = pick('audiooutput')?.label ?? '';
+    if (!input && !output) return DEFAULT_DEVICE;
+    return { key: `${input}|${output}`, label: output || input };
+  } catch (error) {
+    console.warn('Failed to list audio devices:', error);
+    return DEFAULT_DEVICE;
+  }
+};
+
+export const loadLatencyProfiles = (): LatencyProfile[] => {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    const profiles = stored ? JSON.parse(stored) : [];
+    return Array.isArray(profiles) ? profiles : [];
+  } catch (error) {
+    console.warn('Failed to read latency profiles:', error);
+    return [];
+  }
+};
+
+const storeLatencyProfiles = (profiles: LatencyProfile[]) => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(profiles));
+  } catch (error) {
+    console.warn('Failed to save latency profiles:', error);
+  }
+};
+
+/** The device's profile; without device labels the most recent measurement is the best guess */
+export const findLatencyProfile = (device: AudioDeviceInfo): LatencyProfile | null => {
+  const profiles = loadLatencyProfiles();
+  const match = profiles.find(profile => profile.deviceKey === device.key);
+  if (match || device.key !== DEFAULT_DEVICE.key) return match ?? null;
+  return profiles.reduce<LatencyProfile | null>((latest, profile) => (!latest || profile.measuredAt > latest.measuredAt ? profile : latest), null);
+};
+
+export const saveLatencyProfile = (profile: LatencyProfile) => {
+  storeLatencyProfiles([...loadLatencyProfiles().filter(existing => existing.deviceKey !== profile.deviceKey), profile]);
+};
+
+export const deleteLatencyProfile = (deviceKey: string) => {
+  storeLatencyProfiles(loadLatencyProfiles().filter(profile => profile.deviceKey !== deviceKey));
+};
+
+const createClickBuffer = (context: BaseAudioContext): AudioBuffer => {
+  const length = Math.round(context.sampleRate * CLICK_SECONDS);
+  const buffer = context.createBuffer(1, length, context.sampleRate);
+  const data = buffer.getChannelData(0);
+  for (let i = 0; i < length; i++) {
+    const t = i / context.sampleRate;
+    data[i] = Math.sin(2 * Math.PI * CLICK_FREQUENCY * t) * Math.exp(-t * 400);
+  }
+  return buffer;
+};
+
+/**
+ * Seconds from each scheduled click to its onset in the recording, averaged over the clicks
+ * that agree. `signal` starts at context frame `signalStartFrame`.
+ */
+export const findRoundTrip = (signal: Float32Array, signalStartFrame: number, clickFrames: number[], sampleRate: number): number => {
+  const noiseFrom = Math.max(0, clickFrames[0] - signalStartFrame - Math.round(NOISE_WINDOW_SECONDS * sampleRate));
+  const noiseTo = Math.max(noiseFrom, Math.min(signal.length, clickFrames[0] - signalStartFrame));
+  let noiseEnergy = 0;
+  for (let i = noiseFrom; i < noiseTo; i++) noiseEnergy += signal[i] * signal[i];
+  const noise = noiseTo > noiseFrom ? Math.sqrt(noiseEnergy / (noiseTo - noiseFrom)) : 0;
+
+  const windowFrames = Math.round(CLICK_INTERVAL_SECONDS * sampleRate);
+  const delays = clickFrames.flatMap(clickFrame => {
+    const from = clickFrame - signalStartFrame;
+    const to = Math.min(signal.length, from + windowFrames);
+    if (from < 0 || to <= from) return [];
+
+    let peak = 0;
+    for (let i = from; i < to; i++) peak = Math.max(peak, Math.abs(signal[i]));
+    if (peak < MIN_CLICK_LEVEL || peak < noise * MIN_SIGNAL_TO_NOISE) return [];
+
+    // Onset is where the click first reaches half its peak
+    const threshold = peak / 2;
+    for (let i = from; i < to; i++) {
+      if (Math.abs(signal[i]) >= threshold) return [(i - from) / sampleRate];
+    }
+    return [];
+  });
+
+  if (!delays.length) {
+    throw new Error('No clicks were heard. Turn the volume up, or hold the headphones to the microphone.');
+  }
+  const sorted = [...delays].sort((a, b) => a - b);
+  const median = sorted[Math.floor(sorted.length / 2)];
+  const agreeing = delays.filter(delay => Math.abs(delay - median) <= AGREEMENT_SECONDS);
+  if (agreeing.length < MIN_AGREEING_CLICKS) {
+    throw new Error('The clicks were not heard consistently. Try again somewhere quieter.');
+  }
+  return agreeing.reduce((sum, delay) => sum + delay, 0) / agreeing.length;
+};
+
+/** Plays a few clicks and listens for them; rejects if the microphone is refused or the clicks aren't heard */
+export const measureLatency = async (): Promise<LatencyMeasurement> => {
+  const stream = await navigator.mediaDevices.getUserMedia({
+    audio: { echoCancellation: false, noiseSuppression: false, autoGainControl: false }
+  });
+  const context = new AudioContext({ latencyHint: 'interactive' });
+
+  try {
+    if (context.state === 'suspended') await context.resume();
+    await context.audioWorklet.addModule('/capture-processor.js');
+
+    // The capture node only runs while connected, so it feeds a muted gain
+    const capture = new AudioWorkletNode(context, 'capture-processor');
+    const muted = context.createGain();
+    muted.gain.value = 0;
+    context.createMediaStreamSource(stream).connect(capture);
+    capture.connect(muted).connect(context.destination);
+
+    const blocks: { frame: number; samples: Float32Array }[] = [];
+    capture.port.onmessage = (e) => blocks.push(e.data);
+
+    const click = createClickBuffer(context);
+    const firstClick = context.currentTime + FIRST_CLICK_DELAY_SECONDS;
+    const clickFrames = Array.from({ length: CLICK_COUNT }, (_, index) => {
+      const when = firstClick + index * CLICK_INTERVAL_SECONDS;
+      const source = context.createBufferSource();
+      source.buffer = click;
+      source.connect(context.destination);
+      source.start(when);
+      return Math.round(when * context.sampleRate);
+    });
+
+    const done = firstClick + CLICK_COUNT * CLICK_INTERVAL_SECONDS + 0.2;
+    await new Promise(resolve => setTimeout(resolve, (done - context.currentTime) * 1000));
+    if (!blocks.length) throw new Error('The microphone did not deliver any sound.');
+
+    const startFrame = blocks[0].frame;
+    const last = blocks[blocks.length - 1];
+    const signal = new Float32Array(last.frame + last.samples.length - startFrame);
+    blocks.forEach(block => signal.set(block.samples, block.frame - startFrame));
+
+    const roundTrip = findRoundTrip(signal, startFrame, clickFrames, context.sampleRate);
+    const reported = reportedOutputLatency(context);
+    const output = reported > 0 && reported < roundTrip ? reported : roundTrip / 2;
+    return {
+      roundTripMs: Math.round(roundTrip * 1000),
+      outputMs: Math.round(output * 1000),
+      inputMs: Math.round((roundTrip - output) * 1000)
+    };
+  } finally {
+    stream.getTracks().forEach(track => track.stop());
+    context.close();
+  }
+};
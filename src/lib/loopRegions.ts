@@ -0,0 +1,55 @@
+// Named loop bookmarks saved with each library track
+export interface LoopRegion {
+  id: string;
+  name: string;
+  color: string;
+  start: number;
+  end: number;
+  createdAt: number;
+}
+
+export const LOOP_REGION_COLORS = [
+  'hsl(199, 89%, 58%)',
+  'hsl(142, 71%, 50%)',
+  'hsl(330, 81%, 65%)',
+  'hsl(262, 83%, 68%)',
+  'hsl(25, 95%, 58%)',
+  'hsl(0, 84%, 62%)'
+];
+
+// New regions take the first palette color not already in use, cycling once all are taken
+export const nextLoopRegionColor = (regions: LoopRegion[]): string => {
+  const unused = LOOP_REGION_COLORS.find(color => !regions.some(region => region.color === color));
+  return unused ?? LOOP_REGION_COLORS[regions.length % LOOP_REGION_COLORS.length];
+};
+
+export const createLoopRegion = (regions: LoopRegion[], name: string, start: number, end: number): LoopRegion => ({
+  id: crypto.randomUUID(),
+  name,
+  color: nextLoopRegionColor(regions),
+  start,
+  end,
+  createdAt: Date.now()
+});
+
+// Bands behind the waveform for each saved region, with a solid strip along the top edge
+export const drawLoopRegions = (
+  ctx: CanvasRenderingContext2D,
+  regions: LoopRegion[],
+  view: { startTime: number; duration: number; width: number; height: number },
+  activeId: string | null = null
+) => {
+  if (view.duration <= 0) return;
+
+  regions.forEach(region => {
+    const startX = Math.max(0, ((region.start - view.startTime) / view.duration) * view.width);
+    const endX = Math.min(view.width, ((region.end - view.startTime) / view.duration) * view.width);
+    if (endX <= startX) return;
+
+    ctx.fillStyle = region.color;
+    ctx.globalAlpha = region.id === activeId ? 0.28 : 0.14;
+    ctx.fillRect(startX, 0, endX - startX, view.height);
+    ctx.globalAlpha = 1;
+    ctx.fillRect(startX, 0, endX - startX, 3);
+  });
+};
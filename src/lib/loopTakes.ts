@@ -0,0 +1,110 @@
+// Recordings of the player playing over a loop, stored on the device per library track and loop
+// Like the media library, metadata and blobs live in separate stores so listing takes never loads media.
+
+import { createDatabaseOpener, requestToPromise, transactionDone } from './indexedDb';
+
+const DB_NAME = 'fretloop-takes';
+const DB_VERSION = 1;
+const TAKE_STORE = 'takes';
+const BLOB_STORE = 'blobs';
+
+// Loop bounds within this many seconds count as the same loop
+const LOOP_MATCH_SECONDS = 0.02;
+
+export interface LoopTake {
+  id: string;
+  trackId: string;
+  name: string;
+  loopStart: number;
+  loopEnd: number;
+  mimeType: string;
+  hasVideo: boolean;
+  /** Length of the recording in seconds */
+  duration: number;
+  /** Seconds into the recording where the first loop pass began */
+  leadIn: number;
+  /** Playback rate the loop ran at while recording */
+  speed: number;
+  /**
+   * Calibrated round trip in seconds; what was played against the loop start lands this long
+   * after the lead-in. Absent on takes recorded before calibration
+   */
+  latency?: number;
+  createdAt: number;
+}
+
+const openTakes = createDatabaseOpener(DB_NAME, DB_VERSION, db => {
+  if (!db.objectStoreNames.contains(TAKE_STORE)) {
+    db.createObjectStore(TAKE_STORE, { keyPath: 'id' }).createIndex('trackId', 'trackId');
+  }
+  if (!db.objectStoreNames.contains(BLOB_STORE)) {
+    db.createObjectStore(BLOB_STORE);
+  }
+});
+
+export const isTakeForLoop = (take: LoopTake, loopStart: number, loopEnd: number) =>
+  Math.abs(take.loopStart - loopStart) < LOOP_MATCH_SECONDS && Math.abs(take.loopEnd - loopEnd) < LOOP_MATCH_SECONDS;
+
+export const saveTake = async (take: LoopTake, blob: Blob): Promise<void> => {
+  const db = await openTakes();
+  const transaction = db.transaction([TAKE_STORE, BLOB_STORE], 'readwrite');
+  transaction.objectStore(TAKE_STORE).put(take);
+  transaction.objectStore(BLOB_STORE).put(blob, take.id);
+  await transactionDone(transaction);
+};
+
+/** Every take of a track, oldest first */
+export const listTakes = async (trackId: string): Promise<LoopTake[]> => {
+  const db = await openTakes();
+  const index = db.transaction(TAKE_STORE, 'readonly').objectStore(TAKE_STORE).index('trackId');
+  const takes = await requestToPromise(index.getAll(trackId) as IDBRequest<LoopTake[]>);
+  return takes.sort((a, b) => a.createdAt - b.createdAt);
+};
+
+export const getTakeBlob = async (id: string): Promise<Blob | null> => {
+  const db = await openTakes();
+  const store = db.transaction(BLOB_STORE, 'readonly').objectStore(BLOB_STORE);
+  const blob = await requestToPromise(store.get(id) as IDBRequest<Blob | undefined>);
+  return blob ?? null;
+};
+
+export const renameTake = async (id: string, name: string): Promise<void> => {
+  const db = await openTakes();
+  const transaction = db.transaction(TAKE_STORE, 'readwrite');
+  const store = transaction.objectStore(TAKE_STORE);
+  const existing = await requestToPromise(store.get(id) as IDBRequest<LoopTake | undefined>);
+  if (!existing) return;
+
+  store.put({ ...existing, name });
+  await transactionDone(transaction);
+};
+
+export const deleteTake = async (id: string): Promise<void> => {
+  const db = await openTakes();
+  const transaction = db.transaction([TAKE_STORE, BLOB_STORE], 'readwrite');
+  transaction.objectStore(TAKE_STORE).delete(id);
+  transaction.objectStore(BLOB_STORE).delete(id);
+  await transactionDone(transaction);
+};
+
+/** Removes every take recorded over a track, for when the track leaves the library */
+export const deleteTrackTakes = async (trackId: string): Promise<void> => {
+  const takes = await listTakes(trackId);
+  if (!takes.length) return;
+
+  const db = await openTakes();
+  const transaction = db.transaction([TAKE_STORE, BLOB_STORE], 'readwrite');
+  takes.forEach(take => {
+    transaction.objectStore(TAKE_STORE).delete(take.id);
+    transaction.objectStore(BLOB_STORE).delete(take.id);
+  });
+  await transactionDone(transaction);
+};
+
+/**
+ * Balance 0 is only the original and 1 only the take; both play at full level in the middle
+ */
+export const takeBalanceGains = (balance: number) => ({
+  original: Math.min(1, 2 * (1 - balance)),
+  take: Math.min(1, 2 * balance)
+});
@@ -0,0 +1,123 @@
+// Types and helpers shared by the looper engines and the factory that picks between them.
+// Kept apart from looperEngine.ts so the engines can use them without importing the factory.
+
+import type { PracticeFilterSettings } from './practiceFilters';
+
+export type LooperBackend = 'native' | 'worklet' | 'webaudio' | 'media-element';
+
+export const LOOPER_BACKEND_LABELS: Record<LooperBackend, string> = {
+  native: 'native',
+  worklet: 'AudioWorklet',
+  webaudio: 'Web Audio',
+  'media-element': 'media element'
+};
+
+// What a backend can do, so the UI can enable or hide controls per engine
+export interface LooperCapabilities {
+  pitchShift: boolean;
+  timeStretch: boolean;
+  crossfade: boolean;
+  sampleAccurateLoop: boolean;
+  /** Center cancel, frequency focus and EQ via setFilters */
+  filters: boolean;
+}
+
+export type CrossfadeCurve = 'none' | 'linear' | 'equal-power';
+
+// Blend applied where playback jumps from the loop end (B) back to the loop start (A)
+export interface CrossfadeSettings {
+  durationMs: number;
+  curve: CrossfadeCurve;
+}
+
+export const DEFAULT_CROSSFADE: CrossfadeSettings = { durationMs: 8, curve: 'equal-power' };
+
+// Pairs a media position with the audio clock time it renders at (after any practice filters that
+// hold it back), so other sources (such as the metronome) can be scheduled against playback on the same clock
+export interface MediaClock {
+  context: AudioContext;
+  contextTime: number;
+  mediaTime: number;
+  playbackRate: number;
+}
+
+/** What the browser says lies between the context and the speakers; 0 where it reports nothing */
+export const reportedOutputLatency = (context: AudioContext) => (context.outputLatency || 0) + (context.baseLatency || 0);
+
+/**
+ * Steps a rendered position back by `behind` seconds of media so the playhead shows what is being
+ * heard. Nothing from before `heardFrom`, where playback last started, is still on its way out.
+ */
+export const toAudiblePosition = (
+  position: number,
+  behind: number,
+  heardFrom: number,
+  loop: { start: number; end: number; enabled: boolean }
+) => {
+  if (behind <= 0) return position;
+  if (position >= heardFrom && position - behind < heardFrom) return heardFrom;
+
+  const audible = position - behind;
+  if (loop.enabled && loop.end > loop.start && position >= loop.start && audible < loop.start) {
+    return loop.end - ((loop.start - audible) % (loop.end - loop.start));
+  }
+  return Math.max(0, audible);
+};
+
+/** The buffer at the context's rate; the engines count samples at that rate */
+export const matchSampleRate = async (buffer: AudioBuffer, sampleRate: number): Promise<AudioBuffer> => {
+  if (buffer.sampleRate === sampleRate) return buffer;
+  const offline = new OfflineAudioContext(buffer.numberOfChannels, Math.ceil(buffer.duration * sampleRate), sampleRate);
+  const source = offline.createBufferSource();
+  source.buffer = buffer;
+  source.connect(offline.destination);
+  source.start();
+  return offline.startRendering();
+};
+
+export type TimeUpdateCallback = (time: number) => void;
+export type EndedCallback = () => void;
+export type LoopCallback = () => void;
+
+// Common surface of every playback engine the player can drive
+export interface LooperEngine {
+  readonly backend: LooperBackend;
+  readonly capabilities: LooperCapabilities;
+
+  /** Decodes or attaches the media and resolves with its duration in seconds */
+  loadAudio(arrayBuffer: ArrayBuffer): Promise<number>;
+  /** Only Web Audio engines can take audio that is already decoded, which saves decoding it again */
+  loadDecodedAudio?(buffer: AudioBuffer): Promise<number>;
+
+  play(): void | Promise<void>;
+  pause(): void | Promise<void>;
+  seek(time: number): void | Promise<void>;
+
+  setLoopPoints(start: number, end: number): void | Promise<void>;
+  setLooping(enabled: boolean): void;
+  setPlaybackRate(rate: number): void | Promise<void>;
+  setPitch(semitones: number, cents?: number): void | Promise<void>;
+  setVolume(volume: number): void | Promise<void>;
+  setCrossfade(settings: CrossfadeSettings): void | Promise<void>;
+
+  getCurrentTime(): number;
+  getDuration(): number;
+
+  setTimeUpdateCallback(callback: TimeUpdateCallback): void;
+  setEndedCallback(callback: EndedCallback): void;
+  /** Fires each time playback wraps from the loop end back to the loop start */
+  setLoopCallback(callback: LoopCallback): void;
+
+  /** Only engines that render through Web Audio have a clock; null while paused */
+  getMediaClock?(): MediaClock | null;
+
+  /** Only engines that render through Web Audio can insert practice filters */
+  setFilters?(settings: PracticeFilterSettings): void;
+
+  /** Seconds from rendering to hearing; Web Audio engines report it and their time updates allow for it */
+  getOutputLatency?(): number;
+  /** A calibrated output latency for the current device; null goes back to what the browser reports */
+  setOutputLatency?(seconds: number | null): void;
+
+  destroy(): void;
+}
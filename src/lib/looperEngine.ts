@@ -0,0 +1,103 @@
+import { AudioWorkletLooper } from './AudioWorkletLooper';
+import { WebAudioLooper } from './WebAudioLooper';
+import { NativePluginLooper } from './nativePluginLooper';
+import { MediaElementLooper } from './MediaElementLooper';
+import { LOOPER_BACKEND_LABELS, type LooperBackend, type LooperEngine } from './looperCore';
+
+export * from './looperCore';
+
+export interface BackendFailure {
+  backend: LooperBackend;
+  error: unknown;
+}
+
+export interface CreateLooperEngineOptions {
+  /** Backends to try, in order of preference */
+  backends?: LooperBackend[];
+  /** Told about each supported backend that failed before one loaded the media */
+  onBackendFailure?: (failure: BackendFailure) => void;
+}
+
+export const DEFAULT_BACKEND_ORDER: LooperBackend[] = ['native', 'worklet', 'webaudio', 'media-element'];
+
+export const isBackendSupported = (backend: LooperBackend): boolean => {
+  switch (backend) {
+    case 'native':
+      return NativePluginLooper.isSupported();
+    case 'worklet':
+      return AudioWorkletLooper.isSupported();
+    case 'webaudio':
+      return WebAudioLooper.isSupported();
+    case 'media-element':
+      return typeof Audio !== 'undefined';
+    default:
+      return false;
+  }
+};
+
+const instantiate = async (backend: LooperBackend): Promise<LooperEngine> => {
+  switch (backend) {
+    case 'native':
+      return new NativePluginLooper();
+    case 'worklet': {
+      const looper = new AudioWorkletLooper();
+      const initialized = await looper.initialize();
+      if (!initialized) {
+        looper.destroy();
+        throw new Error('AudioWorklet failed to initialize');
+      }
+      return looper;
+    }
+    case 'webaudio': {
+      const looper = new WebAudioLooper();
+      await looper.initialize();
+      return looper;
+    }
+    case 'media-element':
+      return new MediaElementLooper();
+  }
+};
+
+// Creates the first supported engine that loads the media, falling back down the preference list.
+// Media that is already decoded skips the engines that can only take the encoded file. Unsupported
+// backends are passed over quietly; one that is supported but fails is an error worth reporting.
+export const createLooperEngine = async (
+  media: ArrayBuffer | AudioBuffer,
+  options: CreateLooperEngineOptions = {}
+): Promise<LooperEngine> => {
+  const backends = (options.backends ?? DEFAULT_BACKEND_ORDER).filter(isBackendSupported);
+
+  for (const backend of backends) {
+    let engine: LooperEngine | null = null;
+    try {
+      engine = await instantiate(backend);
+      if (media instanceof AudioBuffer) {
+        if (!engine.loadDecodedAudio) {
+          engine.destroy();
+          continue;
+        }
+        await engine.loadDecodedAudio(media);
+      } else {
+        // Decoding detaches the buffer in some browsers, so each attempt gets its own copy
+        await engine.loadAudio(media.slice(0));
+      }
+      return engine;
+    } catch (error) {
+      console.error(`Looper backend "${backend}" failed, trying next:`, error);
+      options.onBackendFailure?.({ backend, error });
+      engine?.destroy();
+    }
+  }
+
+  throw new Error('No supported looper backend could load this media');
+};
+
+// Tells the player why a file isn't on its preferred engine; null when nothing failed.
+// fallback names what plays it instead, such as another backend or the video element.
+export const describeBackendFailures = (failures: BackendFailure[], fallback: string): string | null => {
+  if (failures.length === 0) return null;
+  const [first] = failures;
+  const reason = first.error instanceof Error ? first.error.message : String(first.error);
+  const names = failures.map(failure => LOOPER_BACKEND_LABELS[failure.backend]).join(' and ');
+  return `The ${names} engine${failures.length > 1 ? 's' : ''} failed (${reason}), so this file plays through ${fallback}`;
+};
@@ -0,0 +1,164 @@
+// On-device media library backed by IndexedDB
+// Metadata and blobs live in separate stores so listing the library never loads media.
+
+import { createDatabaseOpener, requestToPromise, transactionDone } from './indexedDb';
+import { deleteTrackTakes } from './loopTakes';
+import type { LoopRegion } from './loopRegions';
+import type { SavedVideoViewport } from './videoViewport';
+
+const DB_NAME = 'fretloop-library';
+const DB_VERSION = 1;
+const TRACK_STORE = 'tracks';
+const BLOB_STORE = 'blobs';
+
+export const PEAK_COUNT = 200;
+
+export interface LibraryTrack {
+  id: string;
+  title: string;
+  fileName: string;
+  mimeType: string;
+  isVideo: boolean;
+  size: number;
+  duration: number;
+  /** Normalized max-abs peaks across all channels, PEAK_COUNT bins */
+  peaks: number[];
+  lastPosition: number;
+  /** Saved loop bookmarks; absent on tracks stored before loops were saved */
+  loopRegions?: LoopRegion[];
+  /** Saved video mirror/zoom views; absent on tracks stored before views were saved */
+  videoViewports?: SavedVideoViewport[];
+  addedAt: number;
+  lastOpenedAt: number;
+}
+
+export type LibraryTrackUpdate = Partial<Omit<LibraryTrack, 'id' | 'addedAt'>>;
+
+const changeEvents = new EventTarget();
+
+const openLibrary = createDatabaseOpener(DB_NAME, DB_VERSION, db => {
+  if (!db.objectStoreNames.contains(TRACK_STORE)) {
+    db.createObjectStore(TRACK_STORE, { keyPath: 'id' });
+  }
+  if (!db.objectStoreNames.contains(BLOB_STORE)) {
+    db.createObjectStore(BLOB_STORE);
+  }
+});
+
+const notifyChange = () => changeEvents.dispatchEvent(new Event('change'));
+
+/** Calls the listener whenever tracks are added, updated or removed; returns an unsubscribe */
+export const subscribeToLibrary = (listener: () => void) => {
+  changeEvents.addEventListener('change', listener);
+  return () => changeEvents.removeEventListener('change', listener);
+};
+
+const titleFromFileName = (fileName: string) => fileName.replace(/\.[^.]+$/, '').replace(/[_-]+/g, ' ').trim() || fileName;
+
+export const addTrack = async (file: File): Promise<LibraryTrack> => {
+  const db = await openLibrary();
+  const now = Date.now();
+  const track: LibraryTrack = {
+    id: crypto.randomUUID(),
+    title: titleFromFileName(file.name),
+    fileName: file.name,
+    mimeType: file.type,
+    isVideo: !file.type.startsWith('audio/'),
+    size: file.size,
+    duration: 0,
+    peaks: [],
+    lastPosition: 0,
+    loopRegions: [],
+    videoViewports: [],
+    addedAt: now,
+    lastOpenedAt: now
+  };
+
+  const transaction = db.transaction([TRACK_STORE, BLOB_STORE], 'readwrite');
+  transaction.objectStore(TRACK_STORE).put(track);
+  transaction.objectStore(BLOB_STORE).put(file, track.id);
+  await transactionDone(transaction);
+
+  notifyChange();
+  return track;
+};
+
+export const listTracks = async (): Promise<LibraryTrack[]> => {
+  const db = await openLibrary();
+  const store = db.transaction(TRACK_STORE, 'readonly').objectStore(TRACK_STORE);
+  return requestToPromise(store.getAll() as IDBRequest<LibraryTrack[]>);
+};
+
+export const getTrack = async (id: string): Promise<LibraryTrack | null> => {
+  const db = await openLibrary();
+  const store = db.transaction(TRACK_STORE, 'readonly').objectStore(TRACK_STORE);
+  const track = await requestToPromise(store.get(id) as IDBRequest<LibraryTrack | undefined>);
+  return track ?? null;
+};
+
+export const getTrackBlob = async (id: string): Promise<Blob | null> => {
+  const db = await openLibrary();
+  const store = db.transaction(BLOB_STORE, 'readonly').objectStore(BLOB_STORE);
+  const blob = await requestToPromise(store.get(id) as IDBRequest<Blob | undefined>);
+  return blob ?? null;
+};
+
+export const updateTrack = async (id: string, update: LibraryTrackUpdate): Promise<void> => {
+  const db = await openLibrary();
+  const transaction = db.transaction(TRACK_STORE, 'readwrite');
+  const store = transaction.objectStore(TRACK_STORE);
+  const existing = await requestToPromise(store.get(id) as IDBRequest<LibraryTrack | undefined>);
+  if (!existing) return;
+
+  store.put({ ...existing, ...update });
+  await transactionDone(transaction);
+  notifyChange();
+};
+
+export const deleteTrack = async (id: string): Promise<void> => {
+  const db = await openLibrary();
+  const transaction = db.transaction([TRACK_STORE, BLOB_STORE], 'readwrite');
+  transaction.objectStore(TRACK_STORE).delete(id);
+  transaction.objectStore(BLOB_STORE).delete(id);
+  await transactionDone(transaction);
+  notifyChange();
+
+  deleteTrackTakes(id).catch(error => {
+    console.warn('Failed to delete the takes of a removed track:', error);
+  });
+};
+
+export const computePeaks = (audioBuffer: AudioBuffer, count: number = PEAK_COUNT): number[] => {
+  const binSize = Math.max(1, Math.floor(audioBuffer.length / count));
+  const peaks = new Array(count).fill(0);
+
+  for (let channel = 0; channel < audioBuffer.numberOfChannels; channel++) {
+    const data = audioBuffer.getChannelData(channel);
+    for (let bin = 0; bin < count; bin++) {
+      const end = Math.min(data.length, (bin + 1) * binSize);
+      let peak = peaks[bin];
+      for (let i = bin * binSize; i < end; i++) {
+        const value = Math.abs(data[i]);
+        if (value > peak) peak = value;
+      }
+      peaks[bin] = peak;
+    }
+  }
+
+  const max = Math.max(...peaks, 1e-6);
+  return peaks.map(peak => Math.round((peak / max) * 1000) / 1000);
+};
+
+/** Adds a file and fills in duration and peaks from a decode, for imports made outside the player */
+export const importTrack = async (file: File): Promise<LibraryTrack> => {
+  const track = await addTrack(file);
+  try {
+    const audioContext = new AudioContext();
+    const audioBuffer = await audioContext.decodeAudioData(await file.arrayBuffer());
+    audioContext.close();
+    await updateTrack(track.id, { duration: audioBuffer.duration, peaks: computePeaks(audioBuffer) });
+  } catch (error) {
+    console.warn('Could not decode audio for the library preview:', error);
+  }
+  return track;
+};
@@ -9,6 +9,9 @@ const plugin = isNative
   : null;
 
 export const NativeAudio = {
+  isAvailable(): boolean {
+    return !!plugin;
+  },
   async loadAudio(input: PathOrBlob): Promise<{ duration?: number }|void> {
     if (plugin) return plugin.loadAudio(input);
     return;
@@ -16,12 +19,21 @@ export const NativeAudio = {
   async setLoopPoints(start: number, end: number) {
     if (plugin) return plugin.setLoopPoints({ start, end });
   },
+  async setLooping(enabled: boolean) {
+    if (plugin) return plugin.setLooping({ enabled });
+  },
   async setRate(rate: number) {
     if (plugin) return plugin.setRate({ rate });
   },
   async setPitch(semitones: number) {
     if (plugin) return plugin.setPitch({ semitones });
   },
+  async setVolume(volume: number) {
+    if (plugin) return plugin.setVolume({ volume });
+  },
+  async setCrossfade(durationMs: number, curve: string) {
+    if (plugin) return plugin.setCrossfade({ durationMs, curve });
+  },
   async play() {
     if (plugin) return plugin.play();
   },
@@ -38,4 +50,9 @@ export const NativeAudio = {
     }
     return 0;
   },
+  // Fired when playback reaches the end of the region with looping off
+  async addEndedListener(listener: () => void): Promise<{ remove: () => Promise<void> } | null> {
+    if (plugin) return plugin.addListener('ended', listener);
+    return null;
+  },
 };
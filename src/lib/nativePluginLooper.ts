@@ -1,47 +1,107 @@
+import { Capacitor } from '@capacitor/core';
 import { NativeAudio } from './nativeAudio';
+import type { CrossfadeSettings, LooperBackend, LooperCapabilities, LooperEngine, LoopCallback } from './looperCore';
 
 export type TimeUpdateCallback = (time: number) => void;
 export type EndedCallback = () => void;
 
-export class NativePluginLooper {
+export class NativePluginLooper implements LooperEngine {
+  readonly backend: LooperBackend = 'native';
+  readonly capabilities: LooperCapabilities = {
+    pitchShift: true,
+    timeStretch: true,
+    crossfade: true,
+    sampleAccurateLoop: true,
+    filters: false
+  };
+
   private onTimeUpdate?: TimeUpdateCallback;
   private onEnded?: EndedCallback;
+  private onLoop?: LoopCallback;
   private rafId: number | null = null;
   private isPlaying = false;
   private durationSec = 0;
+  private lastTime = 0;
+  private loopStart = 0;
+  private loopEnd = 0;
+  private isLooping = false;
+  private endedListener: Promise<{ remove: () => Promise<void> } | null> | null = null;
+
+  static isSupported(): boolean {
+    return Capacitor.isNativePlatform() && NativeAudio.isAvailable();
+  }
 
   async loadAudio(arrayBuffer: ArrayBuffer): Promise<number> {
     const base64 = await this.toBase64(arrayBuffer);
     const res = await NativeAudio.loadAudio({ base64 });
     const d = (res as any)?.duration;
     this.durationSec = typeof d === 'number' ? d : 0;
+    this.endedListener ??= NativeAudio.addEndedListener(() => this.handleEnded());
     this.startRaf();
     return this.durationSec;
   }
 
   setTimeUpdateCallback(cb: TimeUpdateCallback) { this.onTimeUpdate = cb; }
   setEndedCallback(cb: EndedCallback) { this.onEnded = cb; }
+  setLoopCallback(cb: LoopCallback) { this.onLoop = cb; }
+
+  setLoopPoints(start: number, end: number) {
+    this.loopStart = start;
+    this.loopEnd = end;
+    return this.applyRegion();
+  }
+
+  // Not looping plays the whole file once; the native side stops at its end and reports it
+  setLooping(enabled: boolean) {
+    this.isLooping = enabled;
+    NativeAudio.setLooping(enabled).then(() => this.applyRegion());
+  }
 
-  setLoopPoints(start: number, end: number) { return NativeAudio.setLoopPoints(start, end); }
   setPlaybackRate(rate: number) { return NativeAudio.setRate(rate); }
-  setPitch(semitones: number) { return NativeAudio.setPitch(semitones); }
+  setPitch(semitones: number, cents = 0) { return NativeAudio.setPitch(semitones + cents / 100); }
+  setVolume(volume: number) { return NativeAudio.setVolume(volume); }
+  setCrossfade(settings: CrossfadeSettings) { return NativeAudio.setCrossfade(settings.durationMs, settings.curve); }
   play() { this.isPlaying = true; return NativeAudio.play(); }
   pause() { this.isPlaying = false; return NativeAudio.pause(); }
-  seek(time: number) { return NativeAudio.seek(time); }
+  seek(time: number) { this.lastTime = time; return NativeAudio.seek(time); }
+
+  getCurrentTime() { return this.lastTime; }
+  getDuration() { return this.durationSec; }
 
   destroy() {
     if (this.rafId !== null) cancelAnimationFrame(this.rafId);
     this.rafId = null;
+    if (this.isPlaying) NativeAudio.pause();
+    this.isPlaying = false;
     this.onTimeUpdate = undefined;
     this.onEnded = undefined;
+    this.onLoop = undefined;
+    this.endedListener?.then(listener => listener?.remove());
+    this.endedListener = null;
+  }
+
+  private handleEnded() {
+    this.isPlaying = false;
+    this.lastTime = 0;
+    this.onEnded?.();
+  }
+
+  private applyRegion() {
+    if (this.isLooping && this.loopEnd > this.loopStart) {
+      return NativeAudio.setLoopPoints(this.loopStart, this.loopEnd);
+    }
+    return NativeAudio.setLoopPoints(0, this.durationSec);
   }
 
   private startRaf() {
     const tick = async () => {
-      if (this.onTimeUpdate && this.isPlaying) {
+      if (this.isPlaying) {
         try {
           const t = await NativeAudio.getCurrentTime();
-          this.onTimeUpdate(t);
+          // Position jumping backwards while looping means the engine wrapped to the loop start
+          if (this.isLooping && t < this.lastTime) this.onLoop?.();
+          this.lastTime = t;
+          this.onTimeUpdate?.(t);
         } catch {}
       }
       this.rafId = requestAnimationFrame(tick);
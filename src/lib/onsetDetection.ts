@@ -0,0 +1,68 @@
+// Onset detection shared by the track analysis and play-along scoring: positive flux of log
+// energy on a pre-emphasized signal, peak-picked against a local mean
+
+export interface OnsetEnvelope {
+  /** Rise in log energy per frame; frame 0 is always 0 */
+  flux: Float32Array;
+  /** RMS of each frame before pre-emphasis */
+  levels: Float32Array;
+}
+
+export interface PeakPickOptions {
+  /** Frames either side averaged for the local threshold */
+  contextFrames: number;
+  /** Frames that must pass after an onset before the next one counts */
+  minSpacingFrames: number;
+  /** Further say over each peak that clears the threshold, such as a minimum level */
+  accept?: (frame: number) => boolean;
+}
+
+export const computeOnsetEnvelope = (mono: Float32Array, frameSize: number, hopSize: number): OnsetEnvelope => {
+  const frameCount = Math.max(0, Math.floor((mono.length - frameSize) / hopSize) + 1);
+  const flux = new Float32Array(frameCount);
+  const levels = new Float32Array(frameCount);
+  let previousEnergy = 0;
+
+  for (let frame = 0; frame < frameCount; frame++) {
+    const start = frame * hopSize;
+    let energy = 0;
+    let raw = 0;
+    for (let i = start + 1; i < start + frameSize; i++) {
+      const emphasized = mono[i] - 0.97 * mono[i - 1];
+      energy += emphasized * emphasized;
+      raw += mono[i] * mono[i];
+    }
+    const logEnergy = Math.log10(1e-10 + energy / frameSize);
+    flux[frame] = frame > 0 ? Math.max(0, logEnergy - previousEnergy) : 0;
+    levels[frame] = Math.sqrt(raw / frameSize);
+    previousEnergy = logEnergy;
+  }
+  return { flux, levels };
+};
+
+/** Frames where the flux peaks above 1.5 times its local mean */
+export const pickOnsetFrames = (flux: Float32Array, options: PeakPickOptions): number[] => {
+  const { contextFrames, minSpacingFrames, accept } = options;
+  const frameCount = flux.length;
+  const frames: number[] = [];
+  let lastOnsetFrame = -Infinity;
+
+  for (let frame = 1; frame < frameCount - 1; frame++) {
+    const value = flux[frame];
+    if (value <= flux[frame - 1] || value < flux[frame + 1]) continue;
+
+    let sum = 0;
+    let count = 0;
+    for (let i = Math.max(0, frame - contextFrames); i <= Math.min(frameCount - 1, frame + contextFrames); i++) {
+      sum += flux[i];
+      count++;
+    }
+    const threshold = (sum / count) * 1.5 + 0.05;
+
+    if (value > threshold && frame - lastOnsetFrame >= minSpacingFrames && (!accept || accept(frame))) {
+      frames.push(frame);
+      lastOnsetFrame = frame;
+    }
+  }
+  return frames;
+};
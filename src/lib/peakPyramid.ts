@@ -0,0 +1,129 @@
+// Multi-resolution min/max peaks for drawing waveforms at any zoom
+// Each channel has its own levels. Level 0 summarizes BASE_SAMPLES_PER_BIN samples per bin; each level above
+// halves the bin count, so any view is served by reading at most about two bins per pixel.
+
+export const BASE_SAMPLES_PER_BIN = 64;
+
+export interface PeakLevel {
+  samplesPerBin: number;
+  min: Float32Array;
+  max: Float32Array;
+}
+
+export interface PeakPyramid {
+  sampleRate: number;
+  length: number;
+  /** Levels of each channel, finest first */
+  channels: PeakLevel[][];
+}
+
+export interface WaveformPeaks {
+  min: Float32Array;
+  max: Float32Array;
+}
+
+const buildBaseLevel = (data: Float32Array, length: number): PeakLevel => {
+  const bins = Math.ceil(length / BASE_SAMPLES_PER_BIN);
+  const min = new Float32Array(bins);
+  const max = new Float32Array(bins);
+
+  for (let bin = 0; bin < bins; bin++) {
+    const start = bin * BASE_SAMPLES_PER_BIN;
+    const end = Math.min(start + BASE_SAMPLES_PER_BIN, length);
+    let low = Infinity;
+    let high = -Infinity;
+    for (let i = start; i < end; i++) {
+      const sample = data[i];
+      if (sample < low) low = sample;
+      if (sample > high) high = sample;
+    }
+    min[bin] = low;
+    max[bin] = high;
+  }
+
+  return { samplesPerBin: BASE_SAMPLES_PER_BIN, min, max };
+};
+
+const buildParentLevel = (level: PeakLevel): PeakLevel => {
+  const bins = Math.ceil(level.min.length / 2);
+  const min = new Float32Array(bins);
+  const max = new Float32Array(bins);
+
+  for (let bin = 0; bin < bins; bin++) {
+    const left = bin * 2;
+    const right = Math.min(left + 1, level.min.length - 1);
+    min[bin] = Math.min(level.min[left], level.min[right]);
+    max[bin] = Math.max(level.max[left], level.max[right]);
+  }
+
+  return { samplesPerBin: level.samplesPerBin * 2, min, max };
+};
+
+/** Builds every level down to a single bin; meant to run in the waveform worker */
+export const buildPeakPyramid = (channels: Float32Array[], sampleRate: number): PeakPyramid => {
+  const length = channels.reduce((shortest, data) => Math.min(shortest, data.length), Infinity);
+  if (!channels.length || !length) return { sampleRate, length: 0, channels: [] };
+
+  return {
+    sampleRate,
+    length,
+    channels: channels.map(data => {
+      const levels = [buildBaseLevel(data, length)];
+      while (levels[levels.length - 1].min.length > 1) {
+        levels.push(buildParentLevel(levels[levels.length - 1]));
+      }
+      return levels;
+    })
+  };
+};
+
+/** The buffers to hand over when posting a pyramid between threads */
+export const getPyramidTransferables = (pyramid: PeakPyramid): ArrayBuffer[] =>
+  pyramid.channels.flat().flatMap(level => [level.min.buffer as ArrayBuffer, level.max.buffer as ArrayBuffer]);
+
+/**
+ * Min/max for `bins` equal slices of [startSample, endSample), from the coarsest level
+ * that still has at least one bin per slice. Views finer than level 0 repeat its bins.
+ * Covers every channel unless one is given.
+ */
+export const getWaveformPeaks = (
+  pyramid: PeakPyramid,
+  startSample: number,
+  endSample: number,
+  bins: number,
+  channel?: number
+): WaveformPeaks => {
+  const count = Math.max(0, Math.floor(bins));
+  const min = new Float32Array(count);
+  const max = new Float32Array(count);
+  const start = Math.max(0, startSample);
+  const end = Math.min(pyramid.length, endSample);
+  const channelLevels = channel === undefined ? pyramid.channels : pyramid.channels.slice(channel, channel + 1);
+  if (!channelLevels.length || end <= start || !count) return { min, max };
+
+  const samplesPerSlice = (end - start) / count;
+  let levelIndex = 0;
+  while (levelIndex + 1 < channelLevels[0].length && channelLevels[0][levelIndex + 1].samplesPerBin <= samplesPerSlice) {
+    levelIndex++;
+  }
+  const levels = channelLevels.map(levelsOfChannel => levelsOfChannel[levelIndex]);
+  const { samplesPerBin } = levels[0];
+
+  for (let slice = 0; slice < count; slice++) {
+    const sliceStart = start + slice * samplesPerSlice;
+    const firstBin = Math.floor(sliceStart / samplesPerBin);
+    const lastBin = Math.max(firstBin, Math.ceil((sliceStart + samplesPerSlice) / samplesPerBin) - 1);
+    let low = Infinity;
+    let high = -Infinity;
+    for (const level of levels) {
+      for (let bin = firstBin; bin <= lastBin && bin < level.min.length; bin++) {
+        if (level.min[bin] < low) low = level.min[bin];
+        if (level.max[bin] > high) high = level.max[bin];
+      }
+    }
+    min[slice] = low === Infinity ? 0 : low;
+    max[slice] = high === -Infinity ? 0 : high;
+  }
+
+  return { min, max };
+};
@@ -0,0 +1,152 @@
+// Note onsets and pitch classes of the reference loop and of what the player played over it,
+// and the per-loop timing and pitch scores from comparing the two. Runs in the play-along worker.
+
+import { fft, hannWindow } from './fft';
+import { mixToMono } from './signal';
+import { computeOnsetEnvelope, pickOnsetFrames } from './onsetDetection';
+
+const FRAME_SIZE = 1024;
+// A finer hop than the track analysis, since timing is what gets scored
+const HOP_SIZE = 256;
+const MIN_NOTE_SPACING = 0.05;
+// Pitch is read from this much audio after an onset, skipping the attack
+const CHROMA_SIZE = 4096;
+const CHROMA_DELAY = 0.02;
+const CHROMA_MIN_FREQUENCY = 55;
+const CHROMA_MAX_FREQUENCY = 5000;
+const CHROMA_SILENCE = 1e-6;
+// A played pitch class counts as right when the reference holds at least this share of its strongest class there
+const PITCH_MATCH_LEVEL = 0.5;
+
+/** Played notes further than this from every reference onset count as misses */
+export const TIMING_TOLERANCE_SECONDS = 0.06;
+
+export interface NoteEvent {
+  /** Seconds from the start of the analysed audio */
+  time: number;
+  /** 12 pitch-class energies from C scaled to the strongest, or null for unpitched sound */
+  chroma: number[] | null;
+}
+
+export interface LoopScore {
+  /** 0–100: how close played notes landed to the reference onsets */
+  timing: number;
+  /** 0–100: share of on-time notes whose pitch class sounds in the reference; null when none could be read */
+  pitch: number | null;
+  /** 0–100: timing and pitch together, what the speed ramp threshold is checked against */
+  accuracy: number;
+  playedNotes: number;
+  onTimeNotes: number;
+  /** Average real-time offset of on-time notes; positive is late */
+  meanOffsetMs: number | null;
+}
+
+export interface ScoreOptions {
+  /** Media seconds per real second, so the tolerance follows the speed the loop was played at */
+  playbackRate: number;
+  /** Semitones the reference was transposed by while playing */
+  semitoneShift: number;
+}
+
+const readChroma = (mono: Float32Array, start: number, sampleRate: number): number[] | null => {
+  const real = new Float32Array(CHROMA_SIZE);
+  const imag = new Float32Array(CHROMA_SIZE);
+  const window = hannWindow(CHROMA_SIZE);
+  for (let i = 0; i < CHROMA_SIZE; i++) {
+    const index = start + i;
+    real[i] = index < mono.length ? mono[index] * window[i] : 0;
+  }
+  fft(real, imag);
+
+  const binHz = sampleRate / CHROMA_SIZE;
+  const classEnergy = new Array<number>(12).fill(0);
+  let totalEnergy = 0;
+  for (let bin = 1; bin < CHROMA_SIZE / 2; bin++) {
+    const frequency = bin * binHz;
+    if (frequency < CHROMA_MIN_FREQUENCY || frequency > CHROMA_MAX_FREQUENCY) continue;
+    const energy = (real[bin] * real[bin] + imag[bin] * imag[bin]) / (CHROMA_SIZE * CHROMA_SIZE);
+    classEnergy[((Math.round(12 * Math.log2(frequency / 440) + 69) % 12) + 12) % 12] += energy;
+    totalEnergy += energy;
+  }
+
+  const strongest = Math.max(...classEnergy);
+  if (totalEnergy < CHROMA_SILENCE || strongest <= 0) return null;
+  return classEnergy.map(energy => energy / strongest);
+};
+
+/**
+ * Onsets found as in the track analysis, each with the pitch classes that sound just after it.
+ * Onsets quieter than `minLevel` RMS are dropped so room noise does not count as playing.
+ */
+export const detectNotes = (channels: Float32Array[], sampleRate: number, minLevel: number = 0): NoteEvent[] => {
+  const mono = mixToMono(channels);
+  const { flux, levels } = computeOnsetEnvelope(mono, FRAME_SIZE, HOP_SIZE);
+  const frames = pickOnsetFrames(flux, {
+    contextFrames: 20,
+    minSpacingFrames: Math.ceil((MIN_NOTE_SPACING * sampleRate) / HOP_SIZE),
+    accept: frame => Math.max(levels[frame], levels[frame + 1]) >= minLevel
+  });
+
+  return frames.map(frame => {
+    const time = (frame * HOP_SIZE + FRAME_SIZE / 2) / sampleRate;
+    return { time, chroma: readChroma(mono, Math.round((time + CHROMA_DELAY) * sampleRate), sampleRate) };
+  });
+};
+
+const strongestClass = (chroma: number[]) => chroma.indexOf(Math.max(...chroma));
+
+/**
+ * Pairs played notes with reference onsets, closest pairs first, both given in media seconds
+ * from the loop start. Returns null when nothing was played, so silent passes are not scored.
+ */
+export const scoreLoop = (reference: NoteEvent[], played: NoteEvent[], options: ScoreOptions): LoopScore | null => {
+  if (!played.length) return null;
+
+  const tolerance = TIMING_TOLERANCE_SECONDS * options.playbackRate;
+  const candidates: { referenceIndex: number; playedIndex: number; offset: number }[] = [];
+  played.forEach((note, playedIndex) => {
+    reference.forEach((target, referenceIndex) => {
+      const offset = note.time - target.time;
+      if (Math.abs(offset) <= tolerance) candidates.push({ referenceIndex, playedIndex, offset });
+    });
+  });
+  candidates.sort((a, b) => Math.abs(a.offset) - Math.abs(b.offset));
+
+  const usedReference = new Set<number>();
+  const usedPlayed = new Set<number>();
+  const pairs: typeof candidates = [];
+  candidates.forEach(candidate => {
+    if (usedReference.has(candidate.referenceIndex) || usedPlayed.has(candidate.playedIndex)) return;
+    usedReference.add(candidate.referenceIndex);
+    usedPlayed.add(candidate.playedIndex);
+    pairs.push(candidate);
+  });
+
+  // A note on the onset earns full credit, one at the edge of the tolerance half
+  const credit = pairs.reduce((sum, pair) => sum + 1 - Math.abs(pair.offset) / (2 * tolerance), 0);
+  const timing = Math.round((credit / played.length) * 100);
+
+  let pitchChecked = 0;
+  let pitchMatched = 0;
+  pairs.forEach(pair => {
+    const playedChroma = played[pair.playedIndex].chroma;
+    const referenceChroma = reference[pair.referenceIndex].chroma;
+    if (!playedChroma || !referenceChroma) return;
+    pitchChecked++;
+    const heard = strongestClass(playedChroma);
+    const source = (((heard - options.semitoneShift) % 12) + 12) % 12;
+    if (referenceChroma[source] >= PITCH_MATCH_LEVEL) pitchMatched++;
+  });
+  const pitch = pitchChecked ? Math.round((pitchMatched / pitchChecked) * 100) : null;
+
+  return {
+    timing,
+    pitch,
+    accuracy: pitch === null ? timing : Math.round((timing + pitch) / 2),
+    playedNotes: played.length,
+    onTimeNotes: pairs.length,
+    meanOffsetMs: pairs.length
+      ? Math.round((pairs.reduce((sum, pair) => sum + pair.offset, 0) / pairs.length / options.playbackRate) * 1000)
+      : null
+  };
+};
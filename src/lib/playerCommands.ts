@@ -0,0 +1,183 @@
+// Player commands and the keys, page-turner pedals and MIDI controls bound to them
+// Bindings are strings: "key:Shift+ArrowLeft" for keys and "midi:cc:64" style for MIDI, any channel.
+
+import { noteName } from './tuner';
+
+const STORAGE_KEY = 'fretloop.playerCommands';
+
+export type PlayerCommand =
+  | 'togglePlay'
+  | 'restart'
+  | 'setLoopStart'
+  | 'setLoopEnd'
+  | 'toggleABLoop'
+  | 'clearLoop'
+  | 'nudgeLoopStartBack'
+  | 'nudgeLoopStartForward'
+  | 'nudgeLoopEndBack'
+  | 'nudgeLoopEndForward'
+  | 'speedUp'
+  | 'speedDown'
+  | 'tapTempo'
+  | 'toggleMetronome'
+  | 'recordTake'
+  | 'rampMiss';
+
+export interface PlayerCommandInfo {
+  id: PlayerCommand;
+  label: string;
+  /** Held keys keep firing, as the on-screen hold-to-repeat buttons do */
+  repeats?: boolean;
+}
+
+export const PLAYER_COMMANDS: PlayerCommandInfo[] = [
+  { id: 'togglePlay', label: 'Play / pause' },
+  { id: 'restart', label: 'Back to loop start' },
+  { id: 'setLoopStart', label: 'Set A' },
+  { id: 'setLoopEnd', label: 'Set B' },
+  { id: 'toggleABLoop', label: 'A-B loop on / off' },
+  { id: 'clearLoop', label: 'Clear loop' },
+  { id: 'nudgeLoopStartBack', label: 'Nudge A earlier', repeats: true },
+  { id: 'nudgeLoopStartForward', label: 'Nudge A later', repeats: true },
+  { id: 'nudgeLoopEndBack', label: 'Nudge B earlier', repeats: true },
+  { id: 'nudgeLoopEndForward', label: 'Nudge B later', repeats: true },
+  { id: 'speedUp', label: 'Speed up', repeats: true },
+  { id: 'speedDown', label: 'Speed down', repeats: true },
+  { id: 'tapTempo', label: 'Tap tempo' },
+  { id: 'toggleMetronome', label: 'Metronome on / off' },
+  { id: 'recordTake', label: 'Record / stop take' },
+  { id: 'rampMiss', label: 'Missed loop (drop-back ramp)' }
+];
+
+export type CommandBindings = Record<PlayerCommand, string[]>;
+
+export interface PlayerCommandSettings {
+  bindings: CommandBindings;
+  /** Listen to MIDI inputs; remembered so a foot controller works again without a click */
+  midiEnabled: boolean;
+}
+
+// Page-turner pedals send Page Up/Down or arrow keys; the defaults give Page keys to playback
+export const DEFAULT_BINDINGS: CommandBindings = {
+  togglePlay: ['key:Space', 'key:PageDown'],
+  restart: ['key:Home', 'key:PageUp'],
+  setLoopStart: ['key:['],
+  setLoopEnd: ['key:]'],
+  toggleABLoop: ['key:l'],
+  clearLoop: ['key:c'],
+  nudgeLoopStartBack: ['key:ArrowLeft'],
+  nudgeLoopStartForward: ['key:ArrowRight'],
+  nudgeLoopEndBack: ['key:Shift+ArrowLeft'],
+  nudgeLoopEndForward: ['key:Shift+ArrowRight'],
+  speedUp: ['key:+', 'key:='],
+  speedDown: ['key:-'],
+  tapTempo: ['key:t'],
+  toggleMetronome: ['key:m'],
+  recordTake: ['key:r'],
+  rampMiss: []
+};
+
+export const DEFAULT_COMMAND_SETTINGS: PlayerCommandSettings = { bindings: DEFAULT_BINDINGS, midiEnabled: false };
+
+export const loadCommandSettings = (): PlayerCommandSettings => {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    if (!stored) return DEFAULT_COMMAND_SETTINGS;
+    const settings = JSON.parse(stored);
+    // Commands added since the settings were saved start with their defaults
+    return {
+      bindings: { ...DEFAULT_BINDINGS, ...settings.bindings },
+      midiEnabled: !!settings.midiEnabled
+    };
+  } catch (error) {
+    console.warn('Failed to read player shortcuts:', error);
+    return DEFAULT_COMMAND_SETTINGS;
+  }
+};
+
+export const saveCommandSettings = (settings: PlayerCommandSettings) => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+  } catch (error) {
+    console.warn('Failed to save player shortcuts:', error);
+  }
+};
+
+export const findCommand = (bindings: CommandBindings, binding: string): PlayerCommand | null =>
+  (Object.keys(bindings) as PlayerCommand[]).find(command => bindings[command].includes(binding)) ?? null;
+
+/** Binds to `command`, taking the binding away from whichever command had it */
+export const assignBinding = (bindings: CommandBindings, command: PlayerCommand, binding: string): CommandBindings => {
+  const next = { ...bindings };
+  (Object.keys(next) as PlayerCommand[]).forEach(other => {
+    if (next[other].includes(binding)) next[other] = next[other].filter(existing => existing !== binding);
+  });
+  next[command] = [...next[command], binding];
+  return next;
+};
+
+export const removeBinding = (bindings: CommandBindings, command: PlayerCommand, binding: string): CommandBindings => ({
+  ...bindings,
+  [command]: bindings[command].filter(existing => existing !== binding)
+});
+
+const MODIFIER_KEYS = ['Shift', 'Control', 'Alt', 'Meta'];
+
+/**
+ * The binding a key press matches, or null for a lone modifier. Shift is only kept for named keys,
+ * since for characters it is already part of the key ("+" rather than Shift+"=").
+ */
+export const keyBindingFromEvent = (event: KeyboardEvent): string | null => {
+  if (MODIFIER_KEYS.includes(event.key)) return null;
+
+  const isCharacter = event.key.length === 1;
+  const key = event.key === ' ' ? 'Space' : isCharacter ? event.key.toLowerCase() : event.key;
+  const modifiers = [
+    event.ctrlKey && 'Ctrl',
+    event.altKey && 'Alt',
+    event.metaKey && 'Meta',
+    event.shiftKey && !isCharacter && 'Shift'
+  ].filter(Boolean);
+  return `key:${[...modifiers, key].join('+')}`;
+};
+
+/**
+ * The binding a MIDI message presses, or null for releases and anything else. Control changes
+ * press when they cross the halfway value upwards, which suits both switch and expression pedals.
+ */
+export const midiBindingFromMessage = (data: Uint8Array, previousControlValue: number): string | null => {
+  const status = data[0] & 0xf0;
+  switch (status) {
+    case 0x90:
+      return data[2] > 0 ? `midi:note:${data[1]}` : null;
+    case 0xb0:
+      return data[2] >= 64 && previousControlValue < 64 ? `midi:cc:${data[1]}` : null;
+    case 0xc0:
+      return `midi:program:${data[1]}`;
+    default:
+      return null;
+  }
+};
+
+const KEY_LABELS: Record<string, string> = {
+  ArrowLeft: '←',
+  ArrowRight: '→',
+  ArrowUp: '↑',
+  ArrowDown: '↓',
+  PageUp: 'Page Up',
+  PageDown: 'Page Down',
+  Escape: 'Esc'
+};
+
+/** e.g. "Shift + ←", "MIDI CC 64", "MIDI note C4" */
+export const describeBinding = (binding: string): string => {
+  const [source, ...rest] = binding.split(':');
+  if (source === 'midi') {
+    const [kind, number] = rest;
+    if (kind === 'note') return `MIDI note ${noteName(Number(number))}`;
+    if (kind === 'cc') return `MIDI CC ${number}`;
+    return `MIDI program ${Number(number) + 1}`;
+  }
+  // A literal "+" key is never followed by anything, so only a "+" with something after it separates
+  return rest.join(':').split(/\+(?=.)/).map(part => KEY_LABELS[part] ?? (part.length === 1 ? part.toUpperCase() : part)).join(' + ');
+};
@@ -0,0 +1,246 @@
+// Live filters for practice, inserted between an engine's source and its volume control:
+// center-channel cancel or isolate, a band-pass focus on a frequency range, and EQ presets.
+// Everything runs as Web Audio nodes (and, for isolation, the worklet in public/center-processor.js)
+// on the decoded audio, so nothing leaves the device.
+
+export type CenterChannelMode = 'off' | 'cancel' | 'isolate';
+
+export type EqPreset = 'flat' | 'bass-cut' | 'guitar-focus' | 'bass-focus';
+
+export interface FrequencyFocus {
+  enabled: boolean;
+  lowHz: number;
+  highHz: number;
+}
+
+export interface PracticeFilterSettings {
+  center: CenterChannelMode;
+  focus: FrequencyFocus;
+  eq: EqPreset;
+}
+
+export const DEFAULT_PRACTICE_FILTERS: PracticeFilterSettings = {
+  center: 'off',
+  focus: { enabled: false, lowHz: 80, highHz: 5000 },
+  eq: 'flat'
+};
+
+export const CENTER_CHANNEL_LABELS: Record<CenterChannelMode, string> = {
+  off: 'Off',
+  cancel: 'Cancel',
+  isolate: 'Isolate'
+};
+
+interface EqBand {
+  type: BiquadFilterType;
+  frequency: number;
+  gain?: number;
+  Q?: number;
+}
+
+export const EQ_PRESETS: Record<EqPreset, { label: string; bands: EqBand[] }> = {
+  flat: { label: 'Flat', bands: [] },
+  'bass-cut': {
+    label: 'Bass Cut',
+    bands: [{ type: 'highpass', frequency: 160, Q: 0.707 }]
+  },
+  'guitar-focus': {
+    label: 'Guitar',
+    bands: [
+      { type: 'highpass', frequency: 90, Q: 0.707 },
+      { type: 'peaking', frequency: 300, gain: -4, Q: 1 },
+      { type: 'peaking', frequency: 1800, gain: 5, Q: 0.8 },
+      { type: 'highshelf', frequency: 7000, gain: -4 }
+    ]
+  },
+  'bass-focus': {
+    label: 'Bass',
+    bands: [
+      { type: 'lowshelf', frequency: 220, gain: 6 },
+      { type: 'highshelf', frequency: 1500, gain: -12 }
+    ]
+  }
+};
+
+// Bass is nearly always mixed to the center, so cancelling keeps everything below this
+const CANCEL_KEEP_BELOW_HZ = 140;
+
+export const isPracticeFilterActive = (settings: PracticeFilterSettings): boolean =>
+  settings.center !== 'off' || settings.focus.enabled || settings.eq !== 'flat';
+
+// Stereo 2×2 mix: left out = ll·L + rl·R, right out = lr·L + rr·R
+const createStereoMatrix = (context: BaseAudioContext, ll: number, rl: number, lr: number, rr: number) => {
+  const splitter = context.createChannelSplitter(2);
+  const merger = context.createChannelMerger(2);
+  const routes: [number, number, number][] = [[0, 0, ll], [1, 0, rl], [0, 1, lr], [1, 1, rr]];
+  const gains = routes.map(([from, to, amount]) => {
+    const gain = context.createGain();
+    gain.gain.value = amount;
+    splitter.connect(gain, from);
+    gain.connect(merger, 0, to);
+    return gain;
+  });
+  return { input: splitter, output: merger, nodes: [splitter, merger, ...gains] };
+};
+
+const createFilter = (context: BaseAudioContext, band: EqBand) => {
+  const filter = context.createBiquadFilter();
+  filter.type = band.type;
+  filter.frequency.value = band.frequency;
+  if (band.gain !== undefined) filter.gain.value = band.gain;
+  if (band.Q !== undefined) filter.Q.value = band.Q;
+  return filter;
+};
+
+// FFT_SIZE in public/center-processor.js, which holds the audio back by one transform
+const CENTER_PROCESSOR_LATENCY_FRAMES = 2048;
+
+// Seconds over which a focus range change glides, short enough to follow a dragged slider
+const PARAM_GLIDE_SECONDS = 0.015;
+
+const focusRange = (context: BaseAudioContext, focus: FrequencyFocus) => ({
+  lowHz: Math.max(20, Math.min(focus.lowHz, focus.highHz)),
+  highHz: Math.min(context.sampleRate / 2, Math.max(focus.lowHz, focus.highHz))
+});
+
+// Which stages are in the chain; settings that only move a frequency keep the same stages
+const stageLayout = (settings: PracticeFilterSettings) =>
+  `${settings.center}|${settings.focus.enabled}|${settings.eq}`;
+
+// Owns the nodes between `input` and `output`. They are rebuilt when stages come or go; moving
+// the focus range retunes the existing filters, as rebuilding mid-playback would click.
+export class PracticeFilterChain {
+  readonly input: GainNode;
+  readonly output: GainNode;
+
+  private context: BaseAudioContext;
+  private nodes: AudioNode[] = [];
+  private layout: string | null = null;
+  private focusFilters: { highpass: BiquadFilterNode; lowpass: BiquadFilterNode } | null = null;
+  private settings: PracticeFilterSettings | null = null;
+  private centerProcessor: 'unloaded' | 'loading' | 'ready' | 'unavailable' = 'unloaded';
+  private isolating: boolean = false;
+
+  constructor(context: BaseAudioContext) {
+    this.context = context;
+    // Mono sources are spread to both sides so the stereo stages see the same signal left and right
+    this.input = context.createGain();
+    this.input.channelCount = 2;
+    this.input.channelCountMode = 'explicit';
+    this.input.channelInterpretation = 'speakers';
+    this.output = context.createGain();
+    this.input.connect(this.output);
+  }
+
+  /** Seconds the stages hold the audio back; engines allow for it in their media clock and playhead */
+  get latency(): number {
+    return this.isolating ? CENTER_PROCESSOR_LATENCY_FRAMES / this.context.sampleRate : 0;
+  }
+
+  apply(settings: PracticeFilterSettings) {
+    this.settings = settings;
+    const layout = stageLayout(settings);
+    if (layout === this.layout) {
+      this.retuneFocus(settings.focus);
+      return;
+    }
+
+    this.disconnectStages();
+    this.layout = layout;
+    const context = this.context;
+    let tail: AudioNode = this.input;
+    const append = (node: AudioNode) => {
+      tail.connect(node);
+      tail = node;
+      this.nodes.push(node);
+    };
+
+    if (settings.center === 'isolate' && this.centerProcessor === 'ready') {
+      // Keeps what sounds the same on both sides, bin by bin
+      append(new AudioWorkletNode(context, 'center-processor', {
+        outputChannelCount: [2],
+        channelCount: 2,
+        channelCountMode: 'explicit'
+      }));
+      this.isolating = true;
+    } else if (settings.center === 'isolate') {
+      // Until the processor loads, or without worklets, a mid downmix stands in: centered parts
+      // stay at full level and hard-panned ones only drop by half
+      this.loadCenterProcessor();
+      const matrix = createStereoMatrix(context, 0.5, 0.5, 0.5, 0.5);
+      this.nodes.push(...matrix.nodes);
+      tail.connect(matrix.input);
+      tail = matrix.output;
+    } else if (settings.center === 'cancel') {
+      // Side only above the bass, which is passed through untouched
+      const matrix = createStereoMatrix(context, 0.5, -0.5, -0.5, 0.5);
+      const sideHighpass = createFilter(context, { type: 'highpass', frequency: CANCEL_KEEP_BELOW_HZ, Q: 0.707 });
+      const bassLowpass = createFilter(context, { type: 'lowpass', frequency: CANCEL_KEEP_BELOW_HZ, Q: 0.707 });
+      const sum = context.createGain();
+      this.nodes.push(...matrix.nodes, sideHighpass, bassLowpass, sum);
+      tail.connect(matrix.input);
+      matrix.output.connect(sideHighpass).connect(sum);
+      tail.connect(bassLowpass).connect(sum);
+      tail = sum;
+    }
+
+    if (settings.focus.enabled) {
+      const { lowHz, highHz } = focusRange(context, settings.focus);
+      const highpass = createFilter(context, { type: 'highpass', frequency: lowHz, Q: 0.707 });
+      const lowpass = createFilter(context, { type: 'lowpass', frequency: highHz, Q: 0.707 });
+      append(highpass);
+      append(lowpass);
+      this.focusFilters = { highpass, lowpass };
+    }
+
+    EQ_PRESETS[settings.eq].bands.forEach(band => append(createFilter(context, band)));
+
+    tail.connect(this.output);
+  }
+
+  destroy() {
+    this.settings = null;
+    this.disconnectStages();
+    this.input.disconnect();
+    this.output.disconnect();
+  }
+
+  private loadCenterProcessor() {
+    if (this.centerProcessor !== 'unloaded') return;
+    if (typeof AudioWorkletNode === 'undefined' || !this.context.audioWorklet) {
+      this.centerProcessor = 'unavailable';
+      return;
+    }
+
+    this.centerProcessor = 'loading';
+    this.context.audioWorklet.addModule('/center-processor.js')
+      .then(() => {
+        this.centerProcessor = 'ready';
+        // Swap the stand-in for the processor if isolation is still wanted
+        if (this.settings?.center !== 'isolate') return;
+        this.layout = null;
+        this.apply(this.settings);
+      })
+      .catch(error => {
+        console.warn('Center isolation unavailable, using a mid downmix:', error);
+        this.centerProcessor = 'unavailable';
+      });
+  }
+
+  private retuneFocus(focus: FrequencyFocus) {
+    if (!this.focusFilters) return;
+    const { lowHz, highHz } = focusRange(this.context, focus);
+    const now = this.context.currentTime;
+    this.focusFilters.highpass.frequency.setTargetAtTime(lowHz, now, PARAM_GLIDE_SECONDS);
+    this.focusFilters.lowpass.frequency.setTargetAtTime(highHz, now, PARAM_GLIDE_SECONDS);
+  }
+
+  private disconnectStages() {
+    this.input.disconnect();
+    this.nodes.forEach(node => node.disconnect());
+    this.nodes = [];
+    this.layout = null;
+    this.focusFilters = null;
+    this.isolating = false;
+  }
+}
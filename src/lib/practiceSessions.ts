@@ -0,0 +1,103 @@
+// Practice history kept in local storage and summarized for the Journey tab
+
+const STORAGE_KEY = 'fretloop.practiceSessions';
+const MAX_SESSIONS = 500;
+
+export interface PracticeLoopUsage {
+  start: number;
+  end: number;
+  name?: string;
+  loops: number;
+}
+
+export interface PracticeSession {
+  id: string;
+  trackId: string | null;
+  trackTitle: string;
+  startedAt: number;
+  endedAt: number;
+  /** Seconds spent actually playing, pauses excluded */
+  practiceSeconds: number;
+  loopCount: number;
+  loopsUsed: PracticeLoopUsage[];
+  startSpeed: number;
+  maxSpeed: number;
+  /** Playing-time weighted average speed percentage */
+  averageSpeed: number;
+}
+
+export interface PracticeStats {
+  sessionCount: number;
+  totalSeconds: number;
+  averageSessionSeconds: number;
+  averageSpeed: number;
+  currentStreak: number;
+  longestStreak: number;
+  practicedToday: boolean;
+}
+
+export const loadSessions = (): PracticeSession[] => {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    const sessions = stored ? JSON.parse(stored) : [];
+    return Array.isArray(sessions) ? sessions : [];
+  } catch (error) {
+    console.warn('Failed to read practice history:', error);
+    return [];
+  }
+};
+
+export const saveSession = (session: PracticeSession) => {
+  // Oldest sessions are dropped first so storage stays bounded
+  const sessions = [...loadSessions(), session].slice(-MAX_SESSIONS);
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(sessions));
+  } catch (error) {
+    console.warn('Failed to save practice session:', error);
+  }
+};
+
+const dayKey = (timestamp: number) => {
+  const date = new Date(timestamp);
+  return new Date(date.getFullYear(), date.getMonth(), date.getDate()).getTime();
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const computePracticeStats = (sessions: PracticeSession[], now: number = Date.now()): PracticeStats => {
+  const totalSeconds = sessions.reduce((sum, session) => sum + session.practiceSeconds, 0);
+  const weightedSpeed = sessions.reduce((sum, session) => sum + session.averageSpeed * session.practiceSeconds, 0);
+
+  // Streaks count consecutive calendar days; rounding absorbs daylight-saving shifts
+  const days = [...new Set(sessions.map(session => dayKey(session.startedAt)))].sort((a, b) => a - b);
+  let longestStreak = 0;
+  let run = 0;
+  days.forEach((day, index) => {
+    run = index > 0 && Math.round((day - days[index - 1]) / DAY_MS) === 1 ? run + 1 : 1;
+    longestStreak = Math.max(longestStreak, run);
+  });
+
+  const today = dayKey(now);
+  const lastDay = days[days.length - 1];
+  const practicedToday = lastDay === today;
+  const streakIsLive = lastDay !== undefined && Math.round((today - lastDay) / DAY_MS) <= 1;
+
+  return {
+    sessionCount: sessions.length,
+    totalSeconds,
+    averageSessionSeconds: sessions.length > 0 ? totalSeconds / sessions.length : 0,
+    averageSpeed: totalSeconds > 0 ? weightedSpeed / totalSeconds : 100,
+    currentStreak: streakIsLive ? run : 0,
+    longestStreak,
+    practicedToday
+  };
+};
+
+export const formatPracticeDuration = (totalSeconds: number): string => {
+  const hours = Math.floor(totalSeconds / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = Math.floor(totalSeconds % 60);
+  if (hours > 0) return `${hours}h ${minutes}m`;
+  if (minutes > 0) return `${minutes}m ${seconds}s`;
+  return `${seconds}s`;
+};
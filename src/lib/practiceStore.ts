@@ -0,0 +1,82 @@
+// Live practice state shared between the player and the other tabs
+// The player publishes snapshots and registers the controls other screens may drive.
+
+import type { SpeedRampRun } from './speedRampPrograms';
+
+export interface PracticeSnapshot {
+  hasMedia: boolean;
+  trackTitle: string;
+  isPlaying: boolean;
+  speed: number;
+  isABLooping: boolean;
+  loopCount: number;
+  /** Playing time since the player was opened, in seconds */
+  practiceSeconds: number;
+  rampEnabled: boolean;
+  rampProgramId: string | null;
+  rampRun: SpeedRampRun | null;
+  transposeSemitones: number;
+  transposeCents: number;
+  /** The loaded track's engine can transpose */
+  canTranspose: boolean;
+  /** Play-along accuracy of the last scored loop pass, 0–100; null until one is scored */
+  lastAccuracy: number | null;
+  /** Average over the scored passes of the current loop */
+  averageAccuracy: number | null;
+}
+
+export interface PracticeControls {
+  setSpeed: (percent: number) => void;
+  togglePlayback: () => void;
+  runRampProgram: (programId: string) => void;
+  stopRamp: () => void;
+  setTranspose: (semitones: number, cents: number) => void;
+}
+
+let snapshot: PracticeSnapshot = {
+  hasMedia: false,
+  trackTitle: '',
+  isPlaying: false,
+  speed: 100,
+  isABLooping: false,
+  loopCount: 0,
+  practiceSeconds: 0,
+  rampEnabled: false,
+  rampProgramId: null,
+  rampRun: null,
+  transposeSemitones: 0,
+  transposeCents: 0,
+  canTranspose: false,
+  lastAccuracy: null,
+  averageAccuracy: null
+};
+
+let controlsProvider: (() => PracticeControls) | null = null;
+const changeEvents = new EventTarget();
+
+export const getPracticeSnapshot = () => snapshot;
+
+/** Calls the listener whenever the snapshot changes; returns an unsubscribe */
+export const subscribeToPractice = (listener: () => void) => {
+  changeEvents.addEventListener('change', listener);
+  return () => changeEvents.removeEventListener('change', listener);
+};
+
+export const publishPracticeState = (update: Partial<PracticeSnapshot>) => {
+  const changed = (Object.keys(update) as (keyof PracticeSnapshot)[]).some(key => update[key] !== snapshot[key]);
+  if (!changed) return;
+
+  // Snapshots are replaced, never mutated, so subscribers can compare by reference
+  snapshot = { ...snapshot, ...update };
+  changeEvents.dispatchEvent(new Event('change'));
+};
+
+/** The provider is read on every call so controls always act on the player's current state */
+export const registerPracticeControls = (provider: () => PracticeControls) => {
+  controlsProvider = provider;
+  return () => {
+    if (controlsProvider === provider) controlsProvider = null;
+  };
+};
+
+export const getPracticeControls = (): PracticeControls | null => controlsProvider?.() ?? null;
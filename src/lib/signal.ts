@@ -0,0 +1,13 @@
+// Signal helpers shared by the analysis workers
+
+/** Averages every channel into one; the analyses look at the mix rather than either side */
+export const mixToMono = (channels: Float32Array[]): Float32Array => {
+  const length = channels[0]?.length ?? 0;
+  const output = new Float32Array(length);
+  channels.forEach(channel => {
+    for (let i = 0; i < length; i++) {
+      output[i] += channel[i] / channels.length;
+    }
+  });
+  return output;
+};
@@ -0,0 +1,190 @@
+// Short-time spectra of a track for the spectrogram and chroma views of the waveform display
+// Spectra are folded into log-spaced bands and stored as bytes, so a long track stays a few MB.
+
+import { fft, hannWindow } from './fft';
+import { mixToMono } from './signal';
+
+export type WaveformViewMode = 'waveform' | 'stereo' | 'spectrogram' | 'chroma';
+
+export const WAVEFORM_VIEW_LABELS: Record<WaveformViewMode, string> = {
+  waveform: 'Wave',
+  stereo: 'Stereo',
+  spectrogram: 'Spectrum',
+  chroma: 'Chroma'
+};
+
+export const PITCH_CLASS_NAMES = ['C', 'C#', 'D', 'D#', 'E', 'F', 'F#', 'G', 'G#', 'A', 'A#', 'B'];
+
+export interface Spectrogram {
+  sampleRate: number;
+  /** Samples between the starts of consecutive frames */
+  hopSize: number;
+  frameCount: number;
+  bandCount: number;
+  minFrequency: number;
+  maxFrequency: number;
+  /** frameCount × bandCount levels, lowest band first; 0 is DB_FLOOR and 255 is DB_CEILING */
+  bands: Uint8Array;
+  /** frameCount × 12 pitch-class energies from C, each frame scaled to its strongest class */
+  chroma: Uint8Array;
+}
+
+// 4096 points resolve about 11 Hz at 44.1 kHz, enough to tell bass notes apart
+const FFT_SIZE = 4096;
+const HOP_SIZE = 1024;
+const BAND_COUNT = 192;
+const MIN_FREQUENCY = 30;
+const MAX_FREQUENCY = 16000;
+const CHROMA_MIN_FREQUENCY = 55;
+const CHROMA_MAX_FREQUENCY = 5000;
+const DB_FLOOR = -90;
+const DB_CEILING = -10;
+// Frames below this level are left dark in the chroma view instead of showing amplified noise
+const CHROMA_SILENCE = 1e-4;
+
+export const bandFrequency = (spectrogram: Pick<Spectrogram, 'minFrequency' | 'maxFrequency' | 'bandCount'>, band: number) =>
+  spectrogram.minFrequency * Math.pow(spectrogram.maxFrequency / spectrogram.minFrequency, band / spectrogram.bandCount);
+
+/** Meant to run in the spectrogram worker; reports progress as a 0–1 fraction */
+export const computeSpectrogram = (
+  channels: Float32Array[],
+  sampleRate: number,
+  onProgress?: (progress: number) => void
+): Spectrogram => {
+  const mono = mixToMono(channels);
+  const frameCount = Math.max(0, Math.ceil(mono.length / HOP_SIZE));
+  const maxFrequency = Math.min(MAX_FREQUENCY, sampleRate / 2);
+  const layout = { minFrequency: MIN_FREQUENCY, maxFrequency, bandCount: BAND_COUNT };
+  const binHz = sampleRate / FFT_SIZE;
+  const bins = FFT_SIZE / 2;
+
+  // FFT bins covered by each band; narrow low bands reuse the nearest bin
+  const bandBins = Array.from({ length: BAND_COUNT }, (_, band) => {
+    const first = Math.min(bins - 1, Math.max(1, Math.floor(bandFrequency(layout, band) / binHz)));
+    const last = Math.min(bins - 1, Math.max(first, Math.ceil(bandFrequency(layout, band + 1) / binHz) - 1));
+    return [first, last];
+  });
+  const pitchClasses = Int8Array.from({ length: bins }, (_, bin) => {
+    const frequency = bin * binHz;
+    if (frequency < CHROMA_MIN_FREQUENCY || frequency > CHROMA_MAX_FREQUENCY) return -1;
+    return ((Math.round(12 * Math.log2(frequency / 440) + 69) % 12) + 12) % 12;
+  });
+
+  const window = hannWindow(FFT_SIZE);
+  // A full-scale sine peaks at FFT_SIZE / 4 through a Hann window; that is 0 dB
+  const reference = FFT_SIZE / 4;
+  const real = new Float32Array(FFT_SIZE);
+  const imag = new Float32Array(FFT_SIZE);
+  const magnitudes = new Float32Array(bins);
+  const classEnergy = new Float32Array(12);
+  const bands = new Uint8Array(frameCount * BAND_COUNT);
+  const chroma = new Uint8Array(frameCount * 12);
+
+  for (let frame = 0; frame < frameCount; frame++) {
+    // Frames are centered on their hop so frame n describes time n * HOP_SIZE
+    const start = frame * HOP_SIZE - FFT_SIZE / 2;
+    for (let i = 0; i < FFT_SIZE; i++) {
+      const index = start + i;
+      real[i] = index >= 0 && index < mono.length ? mono[index] * window[i] : 0;
+      imag[i] = 0;
+    }
+    fft(real, imag);
+
+    classEnergy.fill(0);
+    let totalEnergy = 0;
+    for (let bin = 0; bin < bins; bin++) {
+      const magnitude = Math.hypot(real[bin], imag[bin]) / reference;
+      magnitudes[bin] = magnitude;
+      const pitchClass = pitchClasses[bin];
+      if (pitchClass >= 0) {
+        classEnergy[pitchClass] += magnitude * magnitude;
+        totalEnergy += magnitude * magnitude;
+      }
+    }
+
+    for (let band = 0; band < BAND_COUNT; band++) {
+      const [first, last] = bandBins[band];
+      let peak = 0;
+      for (let bin = first; bin <= last; bin++) peak = Math.max(peak, magnitudes[bin]);
+      const db = 20 * Math.log10(peak + 1e-12);
+      bands[frame * BAND_COUNT + band] = Math.round(Math.max(0, Math.min(1, (db - DB_FLOOR) / (DB_CEILING - DB_FLOOR))) * 255);
+    }
+
+    const strongest = Math.max(...classEnergy);
+    if (strongest > 0 && totalEnergy > CHROMA_SILENCE) {
+      for (let pitchClass = 0; pitchClass < 12; pitchClass++) {
+        chroma[frame * 12 + pitchClass] = Math.round((classEnergy[pitchClass] / strongest) * 255);
+      }
+    }
+
+    if (onProgress && frame % 500 === 0) onProgress(frame / frameCount);
+  }
+
+  return { sampleRate, hopSize: HOP_SIZE, frameCount, bandCount: BAND_COUNT, minFrequency: MIN_FREQUENCY, maxFrequency, bands, chroma };
+};
+
+// Dark blue through magenta and orange to pale yellow
+const COLOR_STOPS: [number, number, number][] = [
+  [8, 8, 24], [48, 18, 98], [140, 36, 120], [224, 84, 72], [252, 176, 60], [252, 246, 190]
+];
+
+const COLOR_MAP = (() => {
+  const map = new Uint8ClampedArray(256 * 3);
+  for (let level = 0; level < 256; level++) {
+    const position = (level / 255) * (COLOR_STOPS.length - 1);
+    const index = Math.min(COLOR_STOPS.length - 2, Math.floor(position));
+    const fraction = position - index;
+    for (let component = 0; component < 3; component++) {
+      const from = COLOR_STOPS[index][component];
+      const to = COLOR_STOPS[index + 1][component];
+      map[level * 3 + component] = from + (to - from) * fraction;
+    }
+  }
+  return map;
+})();
+
+/**
+ * Renders the frames covering [startTime, startTime + duration) into an image at most
+ * `maxColumns` wide, lowest row on the bottom. Drawn scaled onto the display canvas.
+ */
+export const renderSpectrogramImage = (
+  spectrogram: Spectrogram,
+  kind: 'spectrogram' | 'chroma',
+  startTime: number,
+  duration: number,
+  maxColumns: number
+): HTMLCanvasElement | null => {
+  const rows = kind === 'chroma' ? 12 : spectrogram.bandCount;
+  const data = kind === 'chroma' ? spectrogram.chroma : spectrogram.bands;
+  const framesPerSecond = spectrogram.sampleRate / spectrogram.hopSize;
+  const firstFrame = startTime * framesPerSecond;
+  const frameSpan = duration * framesPerSecond;
+  const columns = Math.max(1, Math.min(Math.floor(maxColumns), Math.ceil(frameSpan)));
+  if (!spectrogram.frameCount || duration <= 0) return null;
+
+  const image = document.createElement('canvas');
+  image.width = columns;
+  image.height = rows;
+  const ctx = image.getContext('2d');
+  if (!ctx) return null;
+
+  const pixels = ctx.createImageData(columns, rows);
+  for (let column = 0; column < columns; column++) {
+    // Several frames per column keep their loudest value so short notes don't vanish when zoomed out
+    const from = Math.floor(firstFrame + (column / columns) * frameSpan);
+    const to = Math.max(from + 1, Math.floor(firstFrame + ((column + 1) / columns) * frameSpan));
+    for (let row = 0; row < rows; row++) {
+      let level = 0;
+      for (let frame = Math.max(0, from); frame < Math.min(to, spectrogram.frameCount); frame++) {
+        level = Math.max(level, data[frame * rows + row]);
+      }
+      const offset = ((rows - 1 - row) * columns + column) * 4;
+      pixels.data[offset] = COLOR_MAP[level * 3];
+      pixels.data[offset + 1] = COLOR_MAP[level * 3 + 1];
+      pixels.data[offset + 2] = COLOR_MAP[level * 3 + 2];
+      pixels.data[offset + 3] = 255;
+    }
+  }
+  ctx.putImageData(pixels, 0, 0);
+  return image;
+};
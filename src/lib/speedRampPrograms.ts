@@ -0,0 +1,183 @@
+// Auto speed ramp programs and the pure state machine that runs them
+
+const STORAGE_KEY = 'fretloop.speedRampPrograms';
+
+export type SpeedRampMode = 'linear' | 'cycle' | 'drop-back' | 'time';
+
+export interface SpeedRampProgram {
+  id: string;
+  name: string;
+  mode: SpeedRampMode;
+  startSpeed: number;
+  targetSpeed: number;
+  /** linear, drop-back: percent added per step */
+  stepPercent: number;
+  /** linear, cycle, drop-back: loops played at each speed before moving on */
+  loopsPerStep: number;
+  /** cycle: speed changes applied in turn, e.g. [10, -5] runs 80→90→85→95 */
+  cycleSteps: number[];
+  /** drop-back: percent removed after a missed loop */
+  dropPercent: number;
+  /** time: minutes of playing to get from start to target */
+  durationMinutes: number;
+  /** Loops to play at target before the program stops; 0 keeps looping */
+  loopsAtTarget: number;
+  builtIn?: boolean;
+}
+
+export interface SpeedRampRun {
+  speed: number;
+  loopsAtStep: number;
+  stepIndex: number;
+  loopsAtTarget: number;
+  elapsedSeconds: number;
+  finished: boolean;
+}
+
+export const SPEED_RAMP_MODE_LABELS: Record<SpeedRampMode, string> = {
+  linear: 'Steady steps',
+  cycle: 'Step cycle',
+  'drop-back': 'Drop back on miss',
+  time: 'Time based'
+};
+
+const defaults: Omit<SpeedRampProgram, 'id' | 'name' | 'mode'> = {
+  startSpeed: 70,
+  targetSpeed: 100,
+  stepPercent: 5,
+  loopsPerStep: 3,
+  cycleSteps: [10, -5],
+  dropPercent: 10,
+  durationMinutes: 10,
+  loopsAtTarget: 0
+};
+
+export const BUILT_IN_PROGRAMS: SpeedRampProgram[] = [
+  { ...defaults, id: 'builtin-steady', name: 'Steady Climb', mode: 'linear', startSpeed: 60, loopsPerStep: 4, loopsAtTarget: 3, builtIn: true },
+  { ...defaults, id: 'builtin-cycle', name: 'Two Up, One Back', mode: 'cycle', startSpeed: 80, loopsAtTarget: 5, builtIn: true },
+  { ...defaults, id: 'builtin-drop-back', name: 'Drop Back on Miss', mode: 'drop-back', builtIn: true },
+  { ...defaults, id: 'builtin-time', name: 'Ten Minute Ramp', mode: 'time', startSpeed: 60, builtIn: true }
+];
+
+export const createProgram = (name: string, mode: SpeedRampMode): SpeedRampProgram => ({
+  ...defaults,
+  id: crypto.randomUUID(),
+  name,
+  mode
+});
+
+const loadCustomPrograms = (): SpeedRampProgram[] => {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    const programs = stored ? JSON.parse(stored) : [];
+    return Array.isArray(programs) ? programs : [];
+  } catch (error) {
+    console.warn('Failed to read speed ramp presets:', error);
+    return [];
+  }
+};
+
+const storeCustomPrograms = (programs: SpeedRampProgram[]) => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(programs));
+  } catch (error) {
+    console.warn('Failed to save speed ramp presets:', error);
+  }
+};
+
+export const loadPrograms = (): SpeedRampProgram[] => [...BUILT_IN_PROGRAMS, ...loadCustomPrograms()];
+
+/** Adds or replaces a custom program; built-ins are read-only */
+export const saveProgram = (program: SpeedRampProgram) => {
+  if (program.builtIn) return;
+  const programs = loadCustomPrograms();
+  const index = programs.findIndex(existing => existing.id === program.id);
+  if (index >= 0) programs[index] = program;
+  else programs.push(program);
+  storeCustomPrograms(programs);
+};
+
+export const deleteProgram = (id: string) => {
+  storeCustomPrograms(loadCustomPrograms().filter(program => program.id !== id));
+};
+
+export const describeProgram = (program: SpeedRampProgram): string => {
+  const range = `${program.startSpeed}% → ${program.targetSpeed}%`;
+  const finish = program.loopsAtTarget > 0 ? `, stop after ${program.loopsAtTarget} at target` : '';
+  switch (program.mode) {
+    case 'linear':
+      return `${range}, +${program.stepPercent}% every ${program.loopsPerStep} loops${finish}`;
+    case 'cycle':
+      return `${range}, steps ${program.cycleSteps.map(step => (step > 0 ? `+${step}` : `${step}`)).join(' ')} every ${program.loopsPerStep} loops${finish}`;
+    case 'drop-back':
+      return `${range}, +${program.stepPercent}% every ${program.loopsPerStep} loops, −${program.dropPercent}% on a miss${finish}`;
+    case 'time':
+      return `${range} over ${program.durationMinutes} min of playing${finish}`;
+  }
+};
+
+const clampToRange = (program: SpeedRampProgram, speed: number) => {
+  const low = Math.min(program.startSpeed, program.targetSpeed);
+  const high = Math.max(program.startSpeed, program.targetSpeed);
+  return Math.round(Math.max(low, Math.min(high, speed)) * 10) / 10;
+};
+
+const hasReachedTarget = (program: SpeedRampProgram, speed: number) =>
+  program.targetSpeed >= program.startSpeed ? speed >= program.targetSpeed : speed <= program.targetSpeed;
+
+export const startRun = (program: SpeedRampProgram): SpeedRampRun => ({
+  speed: program.startSpeed,
+  loopsAtStep: 0,
+  stepIndex: 0,
+  loopsAtTarget: 0,
+  elapsedSeconds: 0,
+  finished: false
+});
+
+export const advanceOnLoop = (program: SpeedRampProgram, run: SpeedRampRun): SpeedRampRun => {
+  if (run.finished) return run;
+
+  if (hasReachedTarget(program, run.speed)) {
+    const loopsAtTarget = run.loopsAtTarget + 1;
+    return { ...run, loopsAtTarget, finished: program.loopsAtTarget > 0 && loopsAtTarget >= program.loopsAtTarget };
+  }
+
+  // Time-based programs move on the clock; loops only count toward the finish
+  if (program.mode === 'time') return run;
+
+  const loopsAtStep = run.loopsAtStep + 1;
+  if (loopsAtStep < program.loopsPerStep) return { ...run, loopsAtStep };
+
+  const direction = program.targetSpeed >= program.startSpeed ? 1 : -1;
+  const change = program.mode === 'cycle' && program.cycleSteps.length > 0
+    ? program.cycleSteps[run.stepIndex % program.cycleSteps.length]
+    : program.stepPercent;
+
+  return {
+    ...run,
+    speed: clampToRange(program, run.speed + change * direction),
+    loopsAtStep: 0,
+    stepIndex: run.stepIndex + 1
+  };
+};
+
+export const advanceOnTick = (program: SpeedRampProgram, run: SpeedRampRun, seconds: number): SpeedRampRun => {
+  if (program.mode !== 'time' || run.finished) return run;
+
+  const elapsedSeconds = run.elapsedSeconds + seconds;
+  const progress = Math.min(1, elapsedSeconds / Math.max(1, program.durationMinutes * 60));
+  const speed = clampToRange(program, program.startSpeed + (program.targetSpeed - program.startSpeed) * progress);
+  return { ...run, elapsedSeconds, speed };
+};
+
+export const registerMiss = (program: SpeedRampProgram, run: SpeedRampRun): SpeedRampRun => {
+  if (program.mode !== 'drop-back' || run.finished) return run;
+
+  const direction = program.targetSpeed >= program.startSpeed ? 1 : -1;
+  return {
+    ...run,
+    speed: clampToRange(program, run.speed - program.dropPercent * direction),
+    loopsAtStep: 0,
+    loopsAtTarget: 0
+  };
+};
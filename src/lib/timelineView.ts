@@ -0,0 +1,46 @@
+// The slice of the track shown by the waveform timeline, in seconds
+
+export interface TimelineView {
+  start: number;
+  duration: number;
+}
+
+// Closest the timeline zooms in, whatever the track length
+export const MIN_TIMELINE_SECONDS = 0.05;
+// Where the playhead lands after the view pages to follow it, as a fraction of the view
+const FOLLOW_LEAD = 0.1;
+
+export const clampTimelineView = (view: TimelineView, total: number): TimelineView => {
+  const duration = Math.max(Math.min(MIN_TIMELINE_SECONDS, total), Math.min(total, view.duration));
+  const start = Math.max(0, Math.min(total - duration, view.start));
+  return { start, duration };
+};
+
+export const isFullTimelineView = (view: TimelineView, total: number): boolean =>
+  view.start <= 0 && view.duration >= total;
+
+/** Zooms by `factor` (above 1 zooms in) keeping `focusTime` at the same place on screen */
+export const zoomTimelineAt = (view: TimelineView, factor: number, focusTime: number, total: number): TimelineView => {
+  const duration = view.duration / factor;
+  const focusRatio = view.duration > 0 ? (focusTime - view.start) / view.duration : 0.5;
+  return clampTimelineView({ start: focusTime - focusRatio * duration, duration }, total);
+};
+
+export const panTimeline = (view: TimelineView, deltaSeconds: number, total: number): TimelineView =>
+  clampTimelineView({ start: view.start + deltaSeconds, duration: view.duration }, total);
+
+export const centerTimelineOn = (view: TimelineView, time: number, total: number): TimelineView =>
+  clampTimelineView({ start: time - view.duration / 2, duration: view.duration }, total);
+
+/** Pages the view when the time has left it, so the timeline follows the playhead */
+export const followTimeline = (view: TimelineView, time: number, total: number): TimelineView => {
+  if (time >= view.start && time <= view.start + view.duration) return view;
+  return clampTimelineView({ start: time - view.duration * FOLLOW_LEAD, duration: view.duration }, total);
+};
+
+/** Scrolls just far enough to bring the time to the nearest edge, for dragging past the edges */
+export const revealOnTimeline = (view: TimelineView, time: number, total: number): TimelineView => {
+  if (time < view.start) return clampTimelineView({ start: time, duration: view.duration }, total);
+  if (time > view.start + view.duration) return clampTimelineView({ start: time - view.duration, duration: view.duration }, total);
+  return view;
+};
@@ -0,0 +1,101 @@
+// Note math and alternate tunings for the tuner
+
+import { PITCH_CLASS_NAMES } from './spectrogram';
+
+const STORAGE_KEY = 'fretloop.tuner';
+
+export const DEFAULT_REFERENCE_HZ = 440;
+export const MIN_REFERENCE_HZ = 415;
+export const MAX_REFERENCE_HZ = 466;
+
+// Within this many cents a string reads as in tune
+export const IN_TUNE_CENTS = 5;
+
+export interface Tuning {
+  id: string;
+  name: string;
+  /** MIDI notes, lowest string first */
+  strings: number[];
+  /** Semitones every string sits from standard, for tunings that shift the whole instrument */
+  shift: number;
+}
+
+export const TUNINGS: Tuning[] = [
+  { id: 'standard', name: 'Standard', strings: [40, 45, 50, 55, 59, 64], shift: 0 },
+  { id: 'drop-d', name: 'Drop D', strings: [38, 45, 50, 55, 59, 64], shift: 0 },
+  { id: 'dadgad', name: 'DADGAD', strings: [38, 45, 50, 55, 57, 62], shift: 0 },
+  { id: 'half-step-down', name: 'Half Step Down', strings: [39, 44, 49, 54, 58, 63], shift: -1 },
+  { id: 'whole-step-down', name: 'Whole Step Down', strings: [38, 43, 48, 53, 57, 62], shift: -2 },
+  { id: 'bass', name: 'Bass', strings: [28, 33, 38, 43], shift: 0 }
+];
+
+export interface PitchReading {
+  frequency: number;
+  /** Nearest equal-tempered note */
+  midi: number;
+  /** Distance from that note, -50 to 50 */
+  cents: number;
+}
+
+export const midiToFrequency = (midi: number, referenceHz: number = DEFAULT_REFERENCE_HZ) =>
+  referenceHz * Math.pow(2, (midi - 69) / 12);
+
+export const frequencyToMidi = (frequency: number, referenceHz: number = DEFAULT_REFERENCE_HZ) =>
+  69 + 12 * Math.log2(frequency / referenceHz);
+
+/** e.g. 40 → "E2" */
+export const noteName = (midi: number) => `${PITCH_CLASS_NAMES[((midi % 12) + 12) % 12]}${Math.floor(midi / 12) - 1}`;
+
+export const readPitch = (frequency: number, referenceHz: number = DEFAULT_REFERENCE_HZ): PitchReading => {
+  const exact = frequencyToMidi(frequency, referenceHz);
+  const midi = Math.round(exact);
+  return { frequency, midi, cents: (exact - midi) * 100 };
+};
+
+/** The string whose target is nearest the frequency, and how far off it is in cents */
+export const nearestString = (frequency: number, tuning: Tuning, referenceHz: number = DEFAULT_REFERENCE_HZ) => {
+  const exact = frequencyToMidi(frequency, referenceHz);
+  let index = 0;
+  tuning.strings.forEach((midi, candidate) => {
+    if (Math.abs(exact - midi) < Math.abs(exact - tuning.strings[index])) index = candidate;
+  });
+  return { index, cents: (exact - tuning.strings[index]) * 100 };
+};
+
+/** How far the reference sits from A440, in cents */
+export const referenceOffsetCents = (referenceHz: number) => 1200 * Math.log2(referenceHz / DEFAULT_REFERENCE_HZ);
+
+/**
+ * Transpose for a concert-pitch track so it matches an instrument in this tuning whose notes sit
+ * `offsetCents` from A440 — the reference offset, or what the tuner has measured
+ */
+export const transposeForTuning = (tuning: Tuning, offsetCents: number) => {
+  const total = tuning.shift * 100 + offsetCents;
+  const semitones = Math.round(total / 100);
+  return { semitones, cents: Math.round(total - semitones * 100) };
+};
+
+export interface TunerSettings {
+  tuningId: string;
+  referenceHz: number;
+}
+
+export const DEFAULT_TUNER_SETTINGS: TunerSettings = { tuningId: 'standard', referenceHz: DEFAULT_REFERENCE_HZ };
+
+export const loadTunerSettings = (): TunerSettings => {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    return stored ? { ...DEFAULT_TUNER_SETTINGS, ...JSON.parse(stored) } : DEFAULT_TUNER_SETTINGS;
+  } catch (error) {
+    console.warn('Failed to read tuner settings:', error);
+    return DEFAULT_TUNER_SETTINGS;
+  }
+};
+
+export const saveTunerSettings = (settings: TunerSettings) => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+  } catch (error) {
+    console.warn('Failed to save tuner settings:', error);
+  }
+};
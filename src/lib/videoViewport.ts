@@ -0,0 +1,59 @@
+// Mirror and zoom-pan applied to the video picture, and the named views saved with each track
+// Pan is measured in fractions of the video box from its center, so views survive resizes and fullscreen.
+
+export interface VideoViewport {
+  mirrored: boolean;
+  zoom: number;
+  panX: number;
+  panY: number;
+}
+
+export interface SavedVideoViewport extends VideoViewport {
+  id: string;
+  name: string;
+}
+
+export const DEFAULT_VIDEO_VIEWPORT: VideoViewport = { mirrored: false, zoom: 1, panX: 0, panY: 0 };
+
+export const MAX_VIDEO_ZOOM = 6;
+
+// Keeps the zoomed picture covering the whole box
+export const clampViewport = (viewport: VideoViewport): VideoViewport => {
+  const zoom = Math.max(1, Math.min(MAX_VIDEO_ZOOM, viewport.zoom));
+  const limit = (zoom - 1) / 2;
+  return {
+    ...viewport,
+    zoom,
+    panX: Math.max(-limit, Math.min(limit, viewport.panX)),
+    panY: Math.max(-limit, Math.min(limit, viewport.panY))
+  };
+};
+
+/** Zooms so the picture point under (focusX, focusY), relative to the box center, stays put */
+export const zoomViewportAt = (viewport: VideoViewport, zoom: number, focusX: number, focusY: number): VideoViewport => {
+  const nextZoom = Math.max(1, Math.min(MAX_VIDEO_ZOOM, zoom));
+  const contentX = (focusX - viewport.panX) / viewport.zoom;
+  const contentY = (focusY - viewport.panY) / viewport.zoom;
+  return clampViewport({
+    ...viewport,
+    zoom: nextZoom,
+    panX: focusX - nextZoom * contentX,
+    panY: focusY - nextZoom * contentY
+  });
+};
+
+export const panViewport = (viewport: VideoViewport, deltaX: number, deltaY: number): VideoViewport =>
+  clampViewport({ ...viewport, panX: viewport.panX + deltaX, panY: viewport.panY + deltaY });
+
+// Mirroring is innermost so the flip happens in place and pan stays in screen directions
+export const viewportTransform = (viewport: VideoViewport): string =>
+  `translate(${viewport.panX * 100}%, ${viewport.panY * 100}%) scale(${viewport.zoom}) scaleX(${viewport.mirrored ? -1 : 1})`;
+
+export const isDefaultViewport = (viewport: VideoViewport): boolean =>
+  !viewport.mirrored && viewport.zoom === 1 && viewport.panX === 0 && viewport.panY === 0;
+
+export const createSavedViewport = (saved: SavedVideoViewport[], viewport: VideoViewport): SavedVideoViewport => ({
+  ...viewport,
+  id: crypto.randomUUID(),
+  name: `View ${saved.length + 1}`
+});
@@ -8,29 +8,44 @@ import CommunityInterface from "@/components/community/CommunityInterface";
 
 const Index = () => {
   const [activeTab, setActiveTab] = useState("player");
+  // Library track loaded in the player, kept here so it survives switching tabs
+  const [currentTrackId, setCurrentTrackId] = useState<string | null>(null);
 
-  const renderActiveTab = () => {
+  const openTrack = (trackId: string) => {
+    setCurrentTrackId(trackId);
+    setActiveTab("player");
+  };
+
+  const openPlayer = () => setActiveTab("player");
+
+  // The player stays mounted behind the other tabs so practice keeps running while they are open.
+  // Its audio, timers and store updates are meant to carry on there, but anything it listens to
+  // on the whole page (such as keyboard shortcuts) has to stand down while isActive is false.
+  const renderOtherTab = () => {
     switch (activeTab) {
-      case "player":
-        return <PlayerInterface />;
       case "library":
-        return <LibraryInterface />;
+        return <LibraryInterface currentTrackId={currentTrackId} onOpenTrack={openTrack} />;
       case "journey":
         return <JourneyInterface />;
       case "tools":
-        return <ToolsInterface />;
+        return <ToolsInterface onOpenPlayer={openPlayer} />;
       case "community":
         return <CommunityInterface />;
       default:
-        return <PlayerInterface />;
+        return null;
     }
   };
 
+  const otherTab = renderOtherTab();
+
   return (
     <div className="min-h-screen bg-background flex flex-col">
       {/* Main Content Area */}
       <div className="flex-1 pb-20 overflow-y-auto">
-        {renderActiveTab()}
+        <div className={otherTab ? "hidden" : undefined}>
+          <PlayerInterface trackId={currentTrackId} onTrackChange={setCurrentTrackId} isActive={!otherTab} />
+        </div>
+        {otherTab}
       </div>
       
       {/* Bottom Tab Navigation */}
@@ -0,0 +1,291 @@
+// Web Worker for onset, tempo and beat analysis of the decoded audio
+// Keeps a mono mix around to answer A/B snap queries against zero crossings, onsets or
+// detected beats, so marker drags never scan audio on the main thread.
+
+import type { BeatGrid } from '../lib/beatGrid';
+import { mixToMono } from '../lib/signal';
+import { computeOnsetEnvelope, pickOnsetFrames } from '../lib/onsetDetection';
+
+type SnapMode = 'zero-crossing' | 'onset' | 'beat';
+type SnapDirection = 'nearest' | 'previous' | 'next';
+
+interface AnalyzeMessage {
+  type: 'analyze';
+  requestId: number;
+  channels: Float32Array[];
+  sampleRate: number;
+}
+
+interface SnapMessage {
+  type: 'snap';
+  requestId: number;
+  time: number;
+  mode: SnapMode;
+  direction: SnapDirection;
+}
+
+type AudioAnalysisWorkerMessage = AnalyzeMessage | SnapMessage;
+
+interface AudioAnalysisWorkerResponse {
+  type: 'analyzed' | 'snapped';
+  requestId?: number;
+  onsets?: number[];
+  beatGrid?: BeatGrid | null;
+  time?: number | null;
+}
+
+const FRAME_SIZE = 1024;
+const HOP_SIZE = 512;
+const ZERO_CROSSING_RADIUS = 0.02; // seconds searched around the requested time
+const REFINE_RADIUS = 0.002; // onset/beat positions are nudged onto a crossing within this range
+const ONSET_RADIUS = 0.5; // nearest-onset snapping gives up beyond this distance
+const MIN_ONSET_SPACING = 0.05;
+const MIN_BPM = 60;
+const MAX_BPM = 200;
+const BEATS_PER_BAR = 4;
+const BEAT_TIGHTNESS = 100; // how strongly beat tracking sticks to the estimated period
+
+let mono: Float32Array = new Float32Array(0);
+let sampleRate = 44100;
+let onsets: number[] = [];
+let onsetEnvelope: Float32Array = new Float32Array(0);
+let beats: number[] = [];
+
+const detectOnsets = () => {
+  onsetEnvelope = computeOnsetEnvelope(mono, FRAME_SIZE, HOP_SIZE).flux;
+  onsets = pickOnsetFrames(onsetEnvelope, {
+    contextFrames: 10,
+    minSpacingFrames: Math.ceil((MIN_ONSET_SPACING * sampleRate) / HOP_SIZE)
+  }).map(frameToTime);
+};
+
+const frameToTime = (frame: number) => (frame * HOP_SIZE + FRAME_SIZE / 2) / sampleRate;
+
+// Beat period in frames from the autocorrelation of the onset envelope, biased toward 120 BPM
+const estimateBeatPeriod = (): number | null => {
+  const frameRate = sampleRate / HOP_SIZE;
+  const minLag = Math.floor((60 / MAX_BPM) * frameRate);
+  const maxLag = Math.ceil((60 / MIN_BPM) * frameRate);
+  if (onsetEnvelope.length < maxLag * 4) return null;
+
+  const scores = new Float32Array(maxLag + 2);
+  for (let lag = minLag; lag <= maxLag + 1; lag++) {
+    let sum = 0;
+    for (let i = 0; i + lag < onsetEnvelope.length; i++) {
+      sum += onsetEnvelope[i] * onsetEnvelope[i + lag];
+    }
+    const bpm = (60 * frameRate) / lag;
+    const prior = Math.exp(-0.5 * Math.log2(bpm / 120) ** 2);
+    scores[lag] = (sum / (onsetEnvelope.length - lag)) * prior;
+  }
+
+  let bestLag = minLag;
+  for (let lag = minLag + 1; lag <= maxLag; lag++) {
+    if (scores[lag] > scores[bestLag]) bestLag = lag;
+  }
+  if (scores[bestLag] <= 0) return null;
+
+  // Parabolic interpolation for a sub-frame period
+  const previous = scores[bestLag - 1] || scores[bestLag];
+  const next = scores[bestLag + 1];
+  const curvature = previous - 2 * scores[bestLag] + next;
+  const shift = curvature < 0 ? (0.5 * (previous - next)) / curvature : 0;
+  return bestLag + Math.max(-0.5, Math.min(0.5, shift));
+};
+
+// Dynamic-programming beat tracker: each beat balances onset strength against deviation from the period
+const trackBeats = (period: number): number[] => {
+  const length = onsetEnvelope.length;
+  const cumulative = new Float32Array(length);
+  const backlink = new Int32Array(length).fill(-1);
+
+  let mean = 0;
+  for (let i = 0; i < length; i++) mean += onsetEnvelope[i];
+  mean /= length || 1;
+
+  for (let frame = 0; frame < length; frame++) {
+    const local = onsetEnvelope[frame] - mean;
+    let best = -Infinity;
+    let bestPrevious = -1;
+    for (let previous = frame - Math.round(2 * period); previous <= frame - Math.round(period / 2); previous++) {
+      if (previous < 0) continue;
+      const penalty = BEAT_TIGHTNESS * Math.log((frame - previous) / period) ** 2;
+      const score = cumulative[previous] - penalty;
+      if (score > best) {
+        best = score;
+        bestPrevious = previous;
+      }
+    }
+    cumulative[frame] = local + (bestPrevious >= 0 ? Math.max(0, best) : 0);
+    backlink[frame] = best > 0 ? bestPrevious : -1;
+  }
+
+  // Start from the best-scoring frame within the final beat period and walk back
+  let frame = length - 1;
+  for (let i = Math.max(0, length - Math.round(period)); i < length; i++) {
+    if (cumulative[i] > cumulative[frame]) frame = i;
+  }
+
+  const beatFrames: number[] = [];
+  while (frame >= 0) {
+    beatFrames.push(frame);
+    frame = backlink[frame];
+  }
+  return beatFrames.reverse().map(frameToTime);
+};
+
+// Downbeats usually carry the most low-end (kick, bass), so pick the bar phase with the most of it
+const guessFirstDownbeat = (beatTimes: number[]): number => {
+  const coefficient = Math.exp((-2 * Math.PI * 150) / sampleRate);
+  const windowSamples = Math.round(0.05 * sampleRate);
+  const phaseEnergy = new Array(BEATS_PER_BAR).fill(0);
+  const phaseCounts = new Array(BEATS_PER_BAR).fill(0);
+
+  beatTimes.forEach((time, index) => {
+    const start = Math.round(time * sampleRate);
+    let lowpassed = 0;
+    let energy = 0;
+    for (let i = start; i < Math.min(mono.length, start + windowSamples); i++) {
+      lowpassed = (1 - coefficient) * mono[i] + coefficient * lowpassed;
+      energy += lowpassed * lowpassed;
+    }
+    phaseEnergy[index % BEATS_PER_BAR] += energy;
+    phaseCounts[index % BEATS_PER_BAR]++;
+  });
+
+  let bestPhase = 0;
+  for (let phase = 1; phase < BEATS_PER_BAR; phase++) {
+    const average = phaseEnergy[phase] / (phaseCounts[phase] || 1);
+    if (average > phaseEnergy[bestPhase] / (phaseCounts[bestPhase] || 1)) bestPhase = phase;
+  }
+  return bestPhase;
+};
+
+const detectBeatGrid = (): BeatGrid | null => {
+  const period = estimateBeatPeriod();
+  beats = period === null ? [] : trackBeats(period);
+  if (beats.length < BEATS_PER_BAR * 2) {
+    beats = [];
+    return null;
+  }
+
+  // Report the tempo the tracked beats actually follow; averaging the span smooths frame quantization
+  const averageInterval = (beats[beats.length - 1] - beats[0]) / (beats.length - 1);
+
+  return {
+    bpm: Math.round(600 / averageInterval) / 10,
+    beats,
+    firstDownbeat: guessFirstDownbeat(beats),
+    beatsPerBar: BEATS_PER_BAR
+  };
+};
+
+const isRisingCrossing = (index: number) => index > 0 && index < mono.length && mono[index - 1] < 0 && mono[index] >= 0;
+
+// Rising crossings only, so A and B meet the waveform with the same slope
+const findZeroCrossing = (time: number, direction: SnapDirection, radius: number): number | null => {
+  const center = Math.round(time * sampleRate);
+  const maxDistance = Math.round(radius * sampleRate);
+
+  for (let distance = 1; distance <= maxDistance; distance++) {
+    if (direction !== 'previous' && isRisingCrossing(center + distance)) {
+      return (center + distance) / sampleRate;
+    }
+    if (direction !== 'next' && isRisingCrossing(center - distance)) {
+      return (center - distance) / sampleRate;
+    }
+  }
+  return direction === 'nearest' && isRisingCrossing(center) ? center / sampleRate : null;
+};
+
+const refine = (time: number) => findZeroCrossing(time, 'nearest', REFINE_RADIUS) ?? time;
+
+const findOnset = (time: number, direction: SnapDirection): number | null => {
+  const epsilon = REFINE_RADIUS * 2;
+  if (direction === 'next') {
+    return onsets.find(onset => onset > time + epsilon) ?? null;
+  }
+  if (direction === 'previous') {
+    for (let i = onsets.length - 1; i >= 0; i--) {
+      if (onsets[i] < time - epsilon) return onsets[i];
+    }
+    return null;
+  }
+
+  let nearest: number | null = null;
+  for (const onset of onsets) {
+    if (Math.abs(onset - time) <= ONSET_RADIUS && (nearest === null || Math.abs(onset - time) < Math.abs(nearest - time))) {
+      nearest = onset;
+    }
+  }
+  return nearest;
+};
+
+const findBeat = (time: number, direction: SnapDirection): number | null => {
+  const epsilon = REFINE_RADIUS * 2;
+  if (direction === 'next') {
+    return beats.find(beat => beat > time + epsilon) ?? null;
+  }
+  if (direction === 'previous') {
+    for (let i = beats.length - 1; i >= 0; i--) {
+      if (beats[i] < time - epsilon) return beats[i];
+    }
+    return null;
+  }
+
+  let nearest: number | null = null;
+  for (const beat of beats) {
+    if (nearest === null || Math.abs(beat - time) < Math.abs(nearest - time)) {
+      nearest = beat;
+    }
+  }
+  return nearest;
+};
+
+const snap = ({ time, mode, direction }: SnapMessage): number | null => {
+  switch (mode) {
+    case 'zero-crossing':
+      return findZeroCrossing(time, direction, ZERO_CROSSING_RADIUS);
+    case 'onset': {
+      const onset = findOnset(time, direction);
+      return onset === null ? null : refine(onset);
+    }
+    case 'beat': {
+      const beat = findBeat(time, direction);
+      return beat === null ? null : refine(beat);
+    }
+    default:
+      return null;
+  }
+};
+
+self.onmessage = function(e: MessageEvent<AudioAnalysisWorkerMessage>) {
+  const message = e.data;
+
+  try {
+    if (message.type === 'analyze') {
+      mono = mixToMono(message.channels);
+      sampleRate = message.sampleRate;
+      detectOnsets();
+      const beatGrid = detectBeatGrid();
+
+      const response: AudioAnalysisWorkerResponse = { type: 'analyzed', requestId: message.requestId, onsets, beatGrid };
+      self.postMessage(response);
+    } else if (message.type === 'snap') {
+      const response: AudioAnalysisWorkerResponse = {
+        type: 'snapped',
+        requestId: message.requestId,
+        time: snap(message)
+      };
+      self.postMessage(response);
+    }
+  } catch (error) {
+    self.postMessage({
+      type: 'error',
+      requestId: message.requestId,
+      error: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+};
+
+export {}; // Make this a module
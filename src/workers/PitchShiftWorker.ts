@@ -0,0 +1,107 @@
+// Web Worker for offline time-stretching (WSOLA)
+// The buffer-source looper cannot shift pitch without changing tempo, so it plays a
+// copy stretched by the pitch ratio at a playback rate raised by the same ratio.
+
+interface PitchShiftWorkerMessage {
+  type: 'stretch';
+  requestId: number;
+  channels: Float32Array[];
+  stretchFactor: number;
+  sampleRate: number;
+}
+
+interface PitchShiftWorkerResponse {
+  type: 'stretched';
+  requestId: number;
+  channels: Float32Array[];
+  stretchFactor: number;
+}
+
+const stretchChannels = (channels: Float32Array[], stretchFactor: number, sampleRate: number): Float32Array[] => {
+  const inputLength = channels[0]?.length ?? 0;
+  const outputLength = Math.round(inputLength * stretchFactor);
+  const grainSize = Math.round(sampleRate * 0.04 / 2) * 2;
+  const synthesisHop = grainSize / 2;
+  const analysisHop = synthesisHop / stretchFactor;
+  const tolerance = Math.round(sampleRate * 0.01);
+  const stride = 16;
+
+  const window = new Float32Array(grainSize);
+  for (let i = 0; i < grainSize; i++) {
+    window[i] = 0.5 - 0.5 * Math.cos((2 * Math.PI * i) / grainSize);
+  }
+
+  const outputs = channels.map(() => new Float32Array(outputLength + grainSize));
+  const reference = channels[0];
+
+  // Normalized cross-correlation against the natural continuation of the previous grain
+  const similarity = (candidate: number, continuation: number) => {
+    let correlation = 0;
+    let energy = 1e-9;
+    for (let i = 0; i < synthesisHop; i += stride) {
+      const a = reference[candidate + i] || 0;
+      correlation += a * (reference[continuation + i] || 0);
+      energy += a * a;
+    }
+    return correlation / Math.sqrt(energy);
+  };
+
+  let previousStart = -1;
+  for (let outputStart = 0; outputStart < outputLength; outputStart += synthesisHop) {
+    const nominal = Math.round((outputStart / synthesisHop) * analysisHop);
+    let grainStart = nominal;
+
+    if (previousStart >= 0) {
+      const continuation = previousStart + synthesisHop;
+      let bestScore = -Infinity;
+      for (let offset = -tolerance; offset <= tolerance; offset += 2) {
+        const candidate = nominal + offset;
+        if (candidate < 0 || candidate >= inputLength) continue;
+        const score = similarity(candidate, continuation);
+        if (score > bestScore) {
+          bestScore = score;
+          grainStart = candidate;
+        }
+      }
+    }
+
+    channels.forEach((input, channel) => {
+      const output = outputs[channel];
+      for (let i = 0; i < grainSize; i++) {
+        const sourceIndex = grainStart + i;
+        if (sourceIndex >= inputLength) break;
+        output[outputStart + i] += input[sourceIndex] * window[i];
+      }
+    });
+
+    previousStart = grainStart;
+  }
+
+  return outputs.map(output => output.slice(0, outputLength));
+};
+
+self.onmessage = function(e: MessageEvent<PitchShiftWorkerMessage>) {
+  const { type, requestId, channels, stretchFactor, sampleRate } = e.data;
+
+  if (type === 'stretch') {
+    try {
+      const stretched = stretchChannels(channels, stretchFactor, sampleRate);
+      const response: PitchShiftWorkerResponse = {
+        type: 'stretched',
+        requestId,
+        channels: stretched,
+        stretchFactor
+      };
+
+      self.postMessage(response, { transfer: stretched.map(channel => channel.buffer) });
+    } catch (error) {
+      self.postMessage({
+        type: 'error',
+        requestId,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+    }
+  }
+};
+
+export {}; // Make this a module
@@ -0,0 +1,79 @@
+// Web Worker for play-along scoring
+// Holds the notes of the reference loop and scores each captured pass against them as it arrives.
+
+import { detectNotes, scoreLoop, type LoopScore, type NoteEvent } from '../lib/playAlongScoring';
+
+// Microphone onsets quieter than this RMS are room noise rather than playing
+const MIN_PLAYED_LEVEL = 0.01;
+
+interface SetReferenceMessage {
+  type: 'setReference';
+  // Copies of every channel over the loop, transferred in so nothing is cloned
+  channels: Float32Array[];
+  sampleRate: number;
+}
+
+interface ScorePassMessage {
+  type: 'scorePass';
+  requestId: number;
+  samples: Float32Array;
+  sampleRate: number;
+  /** Media seconds from the loop start that the first sample lines up with */
+  startPosition: number;
+  loopLength: number;
+  playbackRate: number;
+  semitoneShift: number;
+}
+
+type PlayAlongWorkerMessage = SetReferenceMessage | ScorePassMessage;
+
+interface PlayAlongWorkerResponse {
+  type: 'referenceReady' | 'scored';
+  requestId?: number;
+  noteCount?: number;
+  score?: LoopScore | null;
+}
+
+let reference: NoteEvent[] = [];
+
+// Onsets near either end are repeated a loop away, so a note played just across the seam still finds its target
+const withSeamCopies = (notes: NoteEvent[], loopLength: number) => [
+  ...notes.map(note => ({ ...note, time: note.time - loopLength })),
+  ...notes,
+  ...notes.map(note => ({ ...note, time: note.time + loopLength }))
+];
+
+self.onmessage = function(e: MessageEvent<PlayAlongWorkerMessage>) {
+  const message = e.data;
+
+  try {
+    if (message.type === 'setReference') {
+      reference = detectNotes(message.channels, message.sampleRate);
+      const response: PlayAlongWorkerResponse = { type: 'referenceReady', noteCount: reference.length };
+      self.postMessage(response);
+      return;
+    }
+
+    if (message.type === 'scorePass') {
+      const { requestId, samples, sampleRate, startPosition, loopLength, playbackRate, semitoneShift } = message;
+      // Each note belongs to the pass its position falls in; the capture window overlaps its neighbours
+      const played = detectNotes([samples], sampleRate, MIN_PLAYED_LEVEL)
+        .map(note => ({ ...note, time: startPosition + note.time * playbackRate }))
+        .filter(note => note.time >= 0 && note.time < loopLength);
+      const response: PlayAlongWorkerResponse = {
+        type: 'scored',
+        requestId,
+        score: scoreLoop(withSeamCopies(reference, loopLength), played, { playbackRate, semitoneShift })
+      };
+      self.postMessage(response);
+    }
+  } catch (error) {
+    self.postMessage({
+      type: 'error',
+      requestId: message.type === 'scorePass' ? message.requestId : undefined,
+      error: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+};
+
+export {}; // Make this a module
@@ -0,0 +1,41 @@
+// Web Worker for the spectrogram and chroma views
+// Short-time spectra of a whole track take seconds, so they are computed off the main thread.
+
+import { computeSpectrogram, type Spectrogram } from '../lib/spectrogram';
+
+interface SpectrogramWorkerMessage {
+  type: 'computeSpectrogram';
+  // Copies of every channel, transferred in so nothing is cloned
+  channels: Float32Array[];
+  sampleRate: number;
+}
+
+interface SpectrogramWorkerResponse {
+  type: 'spectrogramComputed';
+  spectrogram: Spectrogram;
+}
+
+self.onmessage = function(e: MessageEvent<SpectrogramWorkerMessage>) {
+  const { type, channels, sampleRate } = e.data;
+
+  if (type === 'computeSpectrogram') {
+    try {
+      const spectrogram = computeSpectrogram(channels, sampleRate, progress => {
+        self.postMessage({ type: 'progress', progress });
+      });
+      const response: SpectrogramWorkerResponse = {
+        type: 'spectrogramComputed',
+        spectrogram
+      };
+
+      self.postMessage(response, { transfer: [spectrogram.bands.buffer, spectrogram.chroma.buffer] });
+    } catch (error) {
+      self.postMessage({
+        type: 'error',
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+    }
+  }
+};
+
+export {}; // Make this a module
@@ -1,83 +1,33 @@
 // Web Worker for heavy waveform processing
 // This runs in a separate thread to avoid blocking the main UI
 
+import { buildPeakPyramid, getPyramidTransferables, type PeakPyramid } from '../lib/peakPyramid';
+
 interface WaveformWorkerMessage {
-  type: 'generateWaveform';
-  audioData: Float32Array;
-  samples: number;
-  startSample?: number;
-  endSample?: number;
+  type: 'buildPyramid';
+  // Copies of every channel, transferred in so nothing is cloned
+  channels: Float32Array[];
   sampleRate: number;
 }
 
 interface WaveformWorkerResponse {
-  type: 'waveformGenerated';
-  waveformData: number[];
-  totalSamples: number;
+  type: 'pyramidBuilt';
+  pyramid: PeakPyramid;
 }
 
 self.onmessage = function(e: MessageEvent<WaveformWorkerMessage>) {
-  const { type, audioData, samples, startSample = 0, endSample, sampleRate } = e.data;
-  
-  if (type === 'generateWaveform') {
+  const { type, channels, sampleRate } = e.data;
+
+  if (type === 'buildPyramid') {
     try {
-      const actualEndSample = endSample || audioData.length;
-      const actualStartSample = Math.max(0, startSample);
-      const actualEndSampleClamped = Math.min(actualEndSample, audioData.length);
-      
-      const actualSampleRange = actualEndSampleClamped - actualStartSample;
-      const samplesPerBin = Math.max(1, Math.floor(actualSampleRange / samples));
-      
-      const waveformData: number[] = [];
-      
-      // Process in chunks to avoid blocking
-      const chunkSize = 1000;
-      let processed = 0;
-      
-      const processChunk = () => {
-        const endIndex = Math.min(processed + chunkSize, samples);
-        
-        for (let i = processed; i < endIndex; i++) {
-          const start = actualStartSample + i * samplesPerBin;
-          const end = Math.min(start + samplesPerBin, actualEndSampleClamped);
-          
-          let max = 0;
-          for (let j = start; j < end; j++) {
-            if (j < audioData.length) {
-              max = Math.max(max, Math.abs(audioData[j]));
-            }
-          }
-          
-          waveformData[i] = max;
-        }
-        
-        processed = endIndex;
-        
-        // Post progress updates for large files
-        if (audioData.length > 1000000 && processed % 100 === 0) {
-          self.postMessage({
-            type: 'progress',
-            progress: processed / samples
-          });
-        }
-        
-        if (processed < samples) {
-          // Use setTimeout to yield control back to the event loop
-          setTimeout(processChunk, 0);
-        } else {
-          // Send final result
-          const response: WaveformWorkerResponse = {
-            type: 'waveformGenerated',
-            waveformData,
-            totalSamples: actualSampleRange
-          };
-          
-          self.postMessage(response);
-        }
+      const pyramid = buildPeakPyramid(channels, sampleRate);
+      const response: WaveformWorkerResponse = {
+        type: 'pyramidBuilt',
+        pyramid
       };
-      
-      processChunk();
-      
+
+      // Level arrays are moved back to the main thread rather than copied
+      self.postMessage(response, { transfer: getPyramidTransferables(pyramid) });
     } catch (error) {
       self.postMessage({
         type: 'error',
@@ -87,4 +37,4 @@ self.onmessage = function(e: MessageEvent<WaveformWorkerMessage>) {
   }
 };
 
-export {}; // Make this a module
\ No newline at end of file
+export {}; // Make this a module